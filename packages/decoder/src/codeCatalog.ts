@@ -0,0 +1,110 @@
+import defaultCatalogConfig from './config/licenseCodes.json';
+
+/**
+ * Vehicle class a license category code allows
+ */
+export interface LicenseCategory {
+  code: string;
+  description: string;
+  minWeightKg?: number;            // Gross vehicle mass range
+  maxWeightKg?: number;
+  maxPassengerSeats?: number;
+  minimumAge: number;              // Youngest age the category can be held at
+  translations?: Record<string, string>;  // description in other languages, by language code (fr, mg)
+}
+
+export interface RestrictionCode {
+  code: string;
+  description: string;
+  translations?: Record<string, string>;
+}
+
+export interface CodeCatalogConfig {
+  version: string;
+  source?: string;
+  categories: LicenseCategory[];
+  vehicleRestrictions: RestrictionCode[];
+  driverRestrictions: RestrictionCode[];
+}
+
+/**
+ * A code as printed on the license, with its catalog entry when the catalog knows it
+ */
+export type CodeLookup<T> =
+  | { code: string; known: true; entry: T }
+  | { code: string; known: false };
+
+function indexByCode<T extends { code: string }>(entries: T[], kind: string): Map<string, T> {
+  const index = new Map<string, T>();
+  for (const entry of entries) {
+    if (!entry.code) {
+      throw new Error(`Invalid code catalog: ${kind} entry without a code`);
+    }
+    if (index.has(entry.code)) {
+      throw new Error(`Invalid code catalog: duplicate ${kind} code ${entry.code}`);
+    }
+    index.set(entry.code, entry);
+  }
+  return index;
+}
+
+function lookup<T>(index: Map<string, T>, code: string): CodeLookup<T> {
+  const entry = index.get(code.trim().toUpperCase());
+  return entry ? { code, known: true, entry } : { code, known: false };
+}
+
+/**
+ * Versioned catalog of license category and restriction codes
+ */
+export class LicenseCodeCatalog {
+  public readonly version: string;
+  public readonly source?: string;
+  private readonly categories: Map<string, LicenseCategory>;
+  private readonly vehicleRestrictions: Map<string, RestrictionCode>;
+  private readonly driverRestrictions: Map<string, RestrictionCode>;
+
+  constructor(config: CodeCatalogConfig) {
+    this.version = config.version;
+    this.source = config.source;
+    this.categories = indexByCode(config.categories, 'category');
+    this.vehicleRestrictions = indexByCode(config.vehicleRestrictions, 'vehicle restriction');
+    this.driverRestrictions = indexByCode(config.driverRestrictions, 'driver restriction');
+  }
+
+  /**
+   * Catalog bundled in config/licenseCodes.json
+   */
+  public static createDefault(): LicenseCodeCatalog {
+    return LicenseCodeCatalog.fromConfig(defaultCatalogConfig);
+  }
+
+  /**
+   * Build a catalog from a parsed config object
+   */
+  public static fromConfig(config: CodeCatalogConfig): LicenseCodeCatalog {
+    if (!config || !config.version || !Array.isArray(config.categories) ||
+        !Array.isArray(config.vehicleRestrictions) || !Array.isArray(config.driverRestrictions)) {
+      throw new Error("Invalid code catalog: expected 'version', 'categories', 'vehicleRestrictions' and 'driverRestrictions'");
+    }
+    return new LicenseCodeCatalog(config);
+  }
+
+  public category(code: string): CodeLookup<LicenseCategory> {
+    return lookup(this.categories, code);
+  }
+
+  public vehicleRestriction(code: string): CodeLookup<RestrictionCode> {
+    return lookup(this.vehicleRestrictions, code);
+  }
+
+  public driverRestriction(code: string): CodeLookup<RestrictionCode> {
+    return lookup(this.driverRestrictions, code);
+  }
+}
+
+/**
+ * Description of a catalog entry in the given language, falling back to the English description
+ */
+export function localizedDescription(entry: LicenseCategory | RestrictionCode, locale: string = 'en'): string {
+  return entry.translations?.[locale] ?? entry.description;
+}
@@ -0,0 +1,105 @@
+export type DecodeStage = 'input' | 'decrypt' | 'decompress' | 'parse' | 'image';
+
+export type DecodeErrorCode =
+  | 'EMPTY_PAYLOAD'
+  | 'INPUT_TOO_LARGE'
+  | 'INVALID_HEX'
+  | 'KEY_MISMATCH'
+  | 'ZLIB_CORRUPT'
+  | 'TRUNCATED_PAYLOAD'
+  | 'INFLATE_LIMIT'
+  | 'TIME_BUDGET'
+  | 'FIELD_COUNT'
+  | 'UNKNOWN_FORMAT'
+  | 'UNRELIABLE_RECOVERY'
+  | 'IMAGE_CORRUPT'
+  | 'IMAGE_TOO_LARGE'
+  | 'UNKNOWN';
+
+/**
+ * Plain-object form of a DecodeError (what ends up in DecodedResult / JSON downloads)
+ */
+export interface DecodeErrorInfo {
+  code: DecodeErrorCode;
+  stage: DecodeStage;
+  message: string;
+  offset?: number;       // Byte offset in the stage's input where the problem was found
+  remediation: string;
+}
+
+const STAGE_BY_CODE: Record<DecodeErrorCode, DecodeStage> = {
+  EMPTY_PAYLOAD: 'input',
+  INPUT_TOO_LARGE: 'input',
+  INVALID_HEX: 'input',
+  KEY_MISMATCH: 'decrypt',
+  ZLIB_CORRUPT: 'decompress',
+  TRUNCATED_PAYLOAD: 'decompress',
+  INFLATE_LIMIT: 'decompress',
+  TIME_BUDGET: 'decompress',
+  FIELD_COUNT: 'parse',
+  UNKNOWN_FORMAT: 'parse',
+  UNRELIABLE_RECOVERY: 'parse',
+  IMAGE_CORRUPT: 'image',
+  IMAGE_TOO_LARGE: 'image',
+  UNKNOWN: 'input'
+};
+
+const REMEDIATION_BY_CODE: Record<DecodeErrorCode, string> = {
+  EMPTY_PAYLOAD: 'No data was read from the barcode. Rescan it.',
+  INPUT_TOO_LARGE: 'The scanned data is far larger than a license barcode can hold. Check that the right barcode or file was scanned.',
+  INVALID_HEX: 'Check the pasted data: hex input may only contain 0-9 and A-F, with an even number of characters.',
+  KEY_MISMATCH: "None of the keyring keys decrypts this barcode. Import the issuer's key under Manage Keys, or check that this is a Madagascar license barcode.",
+  ZLIB_CORRUPT: 'The compressed data is damaged. Rescan with better lighting and focus; if it keeps failing, the barcode on the card may be damaged.',
+  TRUNCATED_PAYLOAD: 'The barcode data ends early. Make sure the whole barcode is inside the viewfinder and rescan.',
+  INFLATE_LIMIT: 'The barcode decompresses to far more data than a license holds and was rejected as unsafe. Do not trust this card.',
+  TIME_BUDGET: 'Recovering this damaged scan took too long and was stopped. Rescan the barcode, or switch off lenient decoding.',
+  FIELD_COUNT: 'The license data does not have the expected fields. The card may use a format version this app does not support.',
+  UNKNOWN_FORMAT: 'No format parser recognises this license data. The card may use a newer format version.',
+  UNRELIABLE_RECOVERY: 'The scan could only be partly recovered and the recovered fields do not pass validation. Rescan the barcode - do not rely on the recovered fields.',
+  IMAGE_CORRUPT: 'The embedded photo could not be read. The license fields are still usable - compare against the photo printed on the card.',
+  IMAGE_TOO_LARGE: 'The embedded photo is larger than a license photo can be and was not loaded. The license fields are still usable - compare against the photo printed on the card.',
+  UNKNOWN: 'Rescan the barcode. If the problem persists, run the diagnostics and check the browser console.'
+};
+
+/**
+ * Decoder failure with a stable code, the pipeline stage and suggested remediation
+ */
+export class DecodeError extends Error {
+  public readonly code: DecodeErrorCode;
+  public readonly stage: DecodeStage;
+  public readonly offset?: number;
+  public readonly remediation: string;
+
+  constructor(code: DecodeErrorCode, message: string, options: { offset?: number; stage?: DecodeStage; cause?: unknown } = {}) {
+    super(message);
+    this.name = 'DecodeError';
+    this.code = code;
+    this.stage = options.stage ?? STAGE_BY_CODE[code];
+    this.offset = options.offset;
+    this.remediation = REMEDIATION_BY_CODE[code];
+    if (options.cause !== undefined) {
+      (this as { cause?: unknown }).cause = options.cause;
+    }
+  }
+
+  public toJSON(): DecodeErrorInfo {
+    return {
+      code: this.code,
+      stage: this.stage,
+      message: this.message,
+      offset: this.offset,
+      remediation: this.remediation
+    };
+  }
+}
+
+/**
+ * Wrap anything thrown in the pipeline as a DecodeError (DecodeErrors pass through)
+ */
+export function toDecodeError(error: unknown, stage?: DecodeStage): DecodeError {
+  if (error instanceof DecodeError) {
+    return error;
+  }
+  const message = error instanceof Error ? error.message : String(error ?? 'Unknown error');
+  return new DecodeError('UNKNOWN', message, { stage, cause: error });
+}
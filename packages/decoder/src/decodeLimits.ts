@@ -0,0 +1,19 @@
+/**
+ * Resource limits that keep a crafted or corrupt barcode from freezing the page
+ */
+export interface DecodeLimits {
+  maxInputLength: number;          // Scanned characters (text input) or bytes (raw input)
+  maxInflatedSize: number;         // Bytes zlib may produce (decompression bombs)
+  maxImageSize: number;            // Bytes of embedded photo data
+  heuristicTimeBudgetMs: number;   // Time the recovery heuristics may spend per stage
+}
+
+/**
+ * A full PDF417 barcode holds about 1.1 KB, so these leave plenty of headroom
+ */
+export const DEFAULT_DECODE_LIMITS: DecodeLimits = {
+  maxInputLength: 16 * 1024,
+  maxInflatedSize: 1024 * 1024,
+  maxImageSize: 256 * 1024,
+  heuristicTimeBudgetMs: 500
+};
@@ -0,0 +1,44 @@
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+/**
+ * Where the decoder sends its progress messages
+ */
+export interface DecodeLogger {
+  debug(message: string, ...details: unknown[]): void;
+  info(message: string, ...details: unknown[]): void;
+  warn(message: string, ...details: unknown[]): void;
+  error(message: string, ...details: unknown[]): void;
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+  silent: 4
+};
+
+const noop = () => {};
+
+/**
+ * Logger that drops everything (the decoder default)
+ */
+export const silentLogger: DecodeLogger = {
+  debug: noop,
+  info: noop,
+  warn: noop,
+  error: noop
+};
+
+/**
+ * Console logger that only prints messages at or above the given level
+ */
+export function createConsoleLogger(level: LogLevel = 'info'): DecodeLogger {
+  const enabled = (messageLevel: LogLevel) => LEVEL_ORDER[messageLevel] >= LEVEL_ORDER[level];
+  return {
+    debug: enabled('debug') ? console.debug.bind(console) : noop,
+    info: enabled('info') ? console.info.bind(console) : noop,
+    warn: enabled('warn') ? console.warn.bind(console) : noop,
+    error: enabled('error') ? console.error.bind(console) : noop
+  };
+}
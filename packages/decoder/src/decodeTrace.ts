@@ -0,0 +1,97 @@
+import type { DecodeStage } from './decodeErrors';
+
+/**
+ * One pipeline step as it ran
+ */
+export interface TraceStep {
+  stage: DecodeStage;
+  name: string;
+  input_length: number;
+  input_preview: string;    // Hex of the first bytes (text for string input)
+  output_length?: number;
+  output_preview?: string;
+  method?: string;          // Which method / fallback produced the output
+  duration_ms: number;
+  error?: string;
+}
+
+/**
+ * Step-by-step record of one decode
+ */
+export interface DecodeTrace {
+  success: boolean;
+  duration_ms: number;
+  steps: TraceStep[];
+}
+
+type TraceData = Uint8Array | string;
+
+const PREVIEW_BYTES = 16;
+
+/**
+ * Short preview of stage data: hex for bytes, the text itself for strings
+ */
+export function tracePreview(data: TraceData, maxLength: number = PREVIEW_BYTES): string {
+  if (typeof data === 'string') {
+    return data.length > maxLength * 2 ? `${data.substring(0, maxLength * 2)}…` : data;
+  }
+  const hex = Array.from(data.slice(0, maxLength)).map(b => b.toString(16).padStart(2, '0')).join(' ');
+  return data.length > maxLength ? `${hex} …` : hex;
+}
+
+function isTraceData(value: unknown): value is TraceData {
+  return typeof value === 'string' || value instanceof Uint8Array;
+}
+
+/**
+ * Collects TraceSteps while the decoder runs
+ */
+export class DecodeTracer {
+  private readonly steps: TraceStep[] = [];
+  private readonly startedAt = performance.now();
+
+  /**
+   * Run one step, timing it and recording its output (or error)
+   * Byte/string results are recorded as the output; use outputOf to pick the output from other results
+   */
+  public run<T>(
+    stage: DecodeStage,
+    name: string,
+    input: TraceData,
+    fn: (step: TraceStep) => T,
+    outputOf?: (result: T) => TraceData
+  ): T {
+    const step: TraceStep = {
+      stage,
+      name,
+      input_length: input.length,
+      input_preview: tracePreview(input),
+      duration_ms: 0
+    };
+    this.steps.push(step);
+
+    const start = performance.now();
+    try {
+      const result = fn(step);
+      const output = outputOf ? outputOf(result) : result;
+      if (isTraceData(output)) {
+        step.output_length = output.length;
+        step.output_preview = tracePreview(output);
+      }
+      return result;
+    } catch (error) {
+      step.error = error instanceof Error ? error.message : String(error);
+      throw error;
+    } finally {
+      step.duration_ms = performance.now() - start;
+    }
+  }
+
+  public finish(success: boolean): DecodeTrace {
+    return {
+      success,
+      duration_ms: performance.now() - this.startedAt,
+      steps: [...this.steps]
+    };
+  }
+}
@@ -0,0 +1,271 @@
+import type { LicenseData } from './licenseDecoder';
+import { DecodeError } from './decodeErrors';
+import { parsePersonName } from './personName';
+import { tokenizeFields, type ByteSpan, type TextEncoding, type TokenizedText } from './v5Tokenizer';
+
+/**
+ * Parser for one payload format version
+ */
+export interface FormatParser {
+  id: string;              // Reported as DecodedResult.format_parser
+  formatVersion: string;   // Reported as LicenseData.format_version
+  description: string;
+  fieldLayout: string[];   // Field names in payload order
+
+  /**
+   * How sure the parser is that the license text is its format: 0 = not this format, 1 = certain
+   */
+  detect(licenseText: string): number;
+
+  /**
+   * Split the license text into fields following fieldLayout, with their byte offsets
+   * encoding: how the license bytes were decoded into licenseText
+   */
+  extractFields(licenseText: string, encoding: TextEncoding): TokenizedText;
+
+  /**
+   * Map named field values onto LicenseData
+   */
+  toLicenseData(fields: Record<string, string>): LicenseData;
+}
+
+/**
+ * Fields recovered from license text that was cut off
+ */
+export interface PartialParsedLicense {
+  parser: FormatParser;
+  licenseData: Partial<LicenseData>;
+  intactFields: string[];
+  truncatedField?: string;
+  missingFields: string[];
+}
+
+/**
+ * Where each field of the license text sits in the decompressed payload
+ */
+export interface LicenseTextLayout {
+  encoding: TextEncoding;
+  fields: Record<string, ByteSpan>;  // By field layout name - fields the text did not have are left out
+  trailing?: ByteSpan;               // Junk between the last field and the image separator
+}
+
+export interface ParsedLicense {
+  parser: FormatParser;
+  licenseData: LicenseData;
+  score: number;           // Detection score of the chosen parser (1 = exact format match)
+  fieldCount: number;      // Fields the text was split into
+  layout: LicenseTextLayout;
+}
+
+/**
+ * Format date from YYYYMMDD to YYYY-MM-DD
+ */
+export function formatDate(dateStr: string): string {
+  if (!dateStr || dateStr.length !== 8) {
+    return dateStr;
+  }
+
+  return `${dateStr.slice(0, 4)}-${dateStr.slice(4, 6)}-${dateStr.slice(6, 8)}`;
+}
+
+/**
+ * Split a comma-separated list field
+ */
+export function splitList(value: string): string[] {
+  return value ? value.split(',') : [];
+}
+
+// What each v5 field looks like in an exact match - restrictions are free text and may hold escaped pipes
+// Names may have accents, hyphens and apostrophes (RAKOTO-ANDRIANARISOA, N'DRIANA, RAHARISOA HÉRY)
+const V5_FIELD_PATTERNS: Record<string, RegExp> = {
+  person_name: /^[\p{L}\p{M}\s.'’ʼ-]+$/u,
+  id_number: /^\d+$/,
+  date_of_birth: /^\d{8}$/,
+  license_number: /^[A-Z\d]+$/,
+  valid_dates: /^\d{8}-\d{8}$/,
+  license_codes: /^[A-Z\d,]*$/,
+  sex: /^[MF]$/
+};
+
+/**
+ * Standardized Madagascar v5
+ * Format: Name|ID|DOB|LicenseNum|ValidFrom-ValidTo|Codes|VehicleRestr|DriverRestr|Sex
+ */
+export const madagascarV5Parser: FormatParser = {
+  id: 'mg_v5',
+  formatVersion: 'standardized_madagascar_v5',
+  description: 'Standardized Madagascar v5 (9-field pipe-delimited)',
+  fieldLayout: [
+    'person_name', 'id_number', 'date_of_birth', 'license_number', 'valid_dates',
+    'license_codes', 'vehicle_restrictions', 'driver_restrictions', 'sex'
+  ],
+
+  detect(licenseText) {
+    const { fields } = tokenizeFields(licenseText, 'utf-8', this.fieldLayout.length);
+    const exact = fields.length === this.fieldLayout.length &&
+      this.fieldLayout.every((name, index) => V5_FIELD_PATTERNS[name]?.test(fields[index].value) ?? true);
+    if (exact) {
+      return 1;
+    }
+    // Loose match - missing fields are left empty
+    const fieldCount = fields.length;
+    if (fieldCount >= 5) {
+      return 0.5;
+    }
+    // Pipe-delimited but too few fields - claim it so the field count gets reported
+    return fieldCount > 1 ? 0.1 : 0;
+  },
+
+  extractFields(licenseText, encoding) {
+    const tokens = tokenizeFields(licenseText, encoding, this.fieldLayout.length);
+
+    // Be more flexible with field count - the registry leaves missing fields empty
+    const { fields } = tokens;
+    if (fields.length < 5) {
+      throw new DecodeError('FIELD_COUNT', `Expected at least 5 fields in license data, got ${fields.length}. Data: ${licenseText.substring(0, 100)}`, { offset: fields[fields.length - 1].end });
+    }
+    return tokens;
+  },
+
+  toLicenseData(fields) {
+    // Parse valid date range
+    const validDates = fields.valid_dates ? fields.valid_dates.split('-') : ['', ''];
+    const name = parsePersonName(fields.person_name);
+
+    return {
+      person_name: fields.person_name,
+      person_initials: name.initials,
+      person_surname: name.surname,
+      id_number: fields.id_number,
+      date_of_birth: formatDate(fields.date_of_birth),
+      license_number: fields.license_number,
+      valid_from: formatDate(validDates[0] || ''),
+      valid_to: formatDate(validDates[1] || ''),
+      license_codes: splitList(fields.license_codes),
+      vehicle_restrictions: splitList(fields.vehicle_restrictions),
+      driver_restrictions: splitList(fields.driver_restrictions),
+      sex: fields.sex,
+      country: 'MG',
+      format_version: this.formatVersion
+    };
+  }
+};
+
+/**
+ * Registry of format parsers - the decoder asks it which parser fits a payload
+ */
+export class FormatParserRegistry {
+  private readonly parsers: FormatParser[] = [];
+
+  constructor(parsers: FormatParser[] = []) {
+    parsers.forEach(parser => this.register(parser));
+  }
+
+  /**
+   * Registry with the built-in parsers
+   */
+  public static createDefault(): FormatParserRegistry {
+    return new FormatParserRegistry([madagascarV5Parser]);
+  }
+
+  public register(parser: FormatParser): void {
+    if (this.parsers.some(existing => existing.id === parser.id)) {
+      throw new Error(`Duplicate format parser ID: ${parser.id}`);
+    }
+    this.parsers.push(parser);
+  }
+
+  public unregister(id: string): void {
+    const index = this.parsers.findIndex(parser => parser.id === id);
+    if (index !== -1) {
+      this.parsers.splice(index, 1);
+    }
+  }
+
+  public list(): FormatParser[] {
+    return [...this.parsers];
+  }
+
+  /**
+   * Pick the parser with the highest detection score (ties go to the earlier registration)
+   */
+  public detect(licenseText: string): FormatParser | undefined {
+    return this.detectWithScore(licenseText)?.parser;
+  }
+
+  /**
+   * Detect the format and parse the license text with the chosen parser
+   * encoding: how the license bytes were decoded, so field offsets come out in bytes
+   */
+  public parse(licenseText: string, encoding: TextEncoding = 'utf-8'): ParsedLicense {
+    const detected = this.detectWithScore(licenseText);
+    if (!detected) {
+      throw new DecodeError('UNKNOWN_FORMAT', `No format parser recognises the license data. Data: ${licenseText.substring(0, 100)}`, { offset: 0 });
+    }
+
+    const { parser, score } = detected;
+    const tokens = parser.extractFields(licenseText, encoding);
+    const fields: Record<string, string> = {};
+    const spans: Record<string, ByteSpan> = {};
+    parser.fieldLayout.forEach((name, index) => {
+      const token = tokens.fields[index];
+      fields[name] = token?.value ?? '';
+      if (token) {
+        spans[name] = { start: token.start, end: token.end };
+      }
+    });
+
+    return {
+      parser,
+      licenseData: parser.toLicenseData(fields),
+      score,
+      fieldCount: tokens.fields.length,
+      layout: { encoding, fields: spans, trailing: tokens.trailing }
+    };
+  }
+
+  /**
+   * Parse license text that may end mid-field (fields are pipe-delimited in every supported format)
+   * textComplete: the text is known to be whole, so its last field is intact
+   */
+  public parsePartial(licenseText: string, textComplete: boolean): PartialParsedLicense {
+    const parser = this.detect(licenseText) ?? this.parsers[0];
+    if (!parser) {
+      throw new DecodeError('UNKNOWN_FORMAT', "No format parsers registered", { offset: 0 });
+    }
+
+    const values = licenseText ? tokenizeFields(licenseText, 'utf-8', parser.fieldLayout.length).fields.map(field => field.value) : [];
+    const intactCount = textComplete ? values.length : Math.max(values.length - 1, 0);
+    const fields: Record<string, string> = {};
+    parser.fieldLayout.forEach((name, index) => {
+      fields[name] = values[index] ?? '';
+    });
+
+    // Keep only what the recovered fields actually filled in
+    const licenseData: Partial<LicenseData> = {};
+    for (const [key, value] of Object.entries(parser.toLicenseData(fields)) as [keyof LicenseData, string | string[]][]) {
+      if (value.length > 0) {
+        (licenseData as Record<string, string | string[]>)[key] = value;
+      }
+    }
+
+    return {
+      parser,
+      licenseData,
+      intactFields: parser.fieldLayout.slice(0, intactCount),
+      truncatedField: intactCount < values.length ? parser.fieldLayout[intactCount] : undefined,
+      missingFields: parser.fieldLayout.slice(values.length)
+    };
+  }
+
+  private detectWithScore(licenseText: string): { parser: FormatParser; score: number } | undefined {
+    let best: { parser: FormatParser; score: number } | undefined;
+    for (const parser of this.parsers) {
+      const score = parser.detect(licenseText);
+      if (score > (best?.score ?? 0)) {
+        best = { parser, score };
+      }
+    }
+    return best;
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * @linc-scan/decoder - offline decoder for Madagascar driver's license barcodes
+ * No UI or browser dependencies: runs in browsers, workers, Node and React Native
+ */
+import { MadagascarLicenseDecoder, type DecodedResult, type DecoderOptions, type ScannedData } from './licenseDecoder';
+
+/**
+ * Decode one scan (raw barcode bytes, or hex/base64/binary text)
+ * Creates a decoder per call - construct a MadagascarLicenseDecoder to decode many scans with the same options
+ */
+export function decode(scanned: ScannedData, options: DecoderOptions = {}): DecodedResult {
+  return new MadagascarLicenseDecoder(options).decode(scanned);
+}
+
+export { MadagascarLicenseDecoder, assertNever, decodeFailure } from './licenseDecoder';
+export type {
+  ConfidenceNote,
+  ConfidenceNoteCode,
+  DecodeConfidence,
+  DecodeFailure,
+  DecodeMethod,
+  DecodeMode,
+  DecodeSuccess,
+  DecodedResult,
+  DecoderOptions,
+  LicenseData,
+  PartialDecode,
+  PhotoCompleteness,
+  RecoveryReport,
+  ScannedData
+} from './licenseDecoder';
+
+export { MadagascarLicenseEncoder } from './licenseEncoder';
+export type { EncodableLicense, EncodeOptions, EncodedLicense } from './licenseEncoder';
+
+export { LicenseKeyring, xorWithKey } from './keyring';
+export type { EncryptionKey, KeyringConfig } from './keyring';
+
+export { TrustStore, SIGNATURE_ALGORITHMS } from './trustStore';
+export type { SignatureAlgorithm, TrustStoreConfig, TrustedKey } from './trustStore';
+
+export { SIGNATURE_SEPARATOR, formatSignatureBlock, signLicensePayload, splitSignatureBlock, verifyLicenseSignature } from './licenseSignature';
+export type { PayloadSigner, SignatureBlock, SignatureCheck, SignatureProblem, SignatureStatus, SplitLicenseText, WebCryptoKey } from './licenseSignature';
+
+export { FormatParserRegistry, formatDate, madagascarV5Parser, splitList } from './formatParsers';
+export type { FormatParser, LicenseTextLayout, ParsedLicense, PartialParsedLicense } from './formatParsers';
+
+export { decodeLicenseText, escapeField, tokenizeFields } from './v5Tokenizer';
+export type { ByteSpan, DecodedLicenseText, FieldToken, TextEncoding, TokenizedText } from './v5Tokenizer';
+
+export { LicenseValidator, luhnCheckDigit, parseIsoDate, toCalendarDate, yearsBetween } from './licenseValidation';
+export type { CheckDigitValidator, ValidationIssue, ValidationIssueCode, ValidationOptions, ValidationReport, ValidationSeverity } from './licenseValidation';
+
+export { computeValidity } from './licenseValidity';
+export type { ValidityState, ValidityStatus } from './licenseValidity';
+
+export { isValidPersonName, nameSearchKey, parsePersonName, surnamesMatch } from './personName';
+export type { PersonNameParts } from './personName';
+
+export { LicenseCodeCatalog, localizedDescription } from './codeCatalog';
+export type { CodeCatalogConfig, CodeLookup, LicenseCategory, RestrictionCode } from './codeCatalog';
+
+export { DecodeError, toDecodeError } from './decodeErrors';
+export type { DecodeErrorCode, DecodeErrorInfo, DecodeStage } from './decodeErrors';
+
+export { DEFAULT_DECODE_LIMITS } from './decodeLimits';
+export type { DecodeLimits } from './decodeLimits';
+
+export { createConsoleLogger, silentLogger } from './decodeLogger';
+export type { DecodeLogger, LogLevel } from './decodeLogger';
+
+export { DecodeTracer, tracePreview } from './decodeTrace';
+export type { DecodeTrace, TraceStep } from './decodeTrace';
+
+export { inspectJpeg, repairJpeg } from './jpegInspector';
+export type { JpegDecodeCheck, JpegDimensions, JpegInspection, JpegRepair, JpegSegment, PhotoRepair, PhotoRepairCode } from './jpegInspector';
+
+export { base64ToBytes, bytesToBase64, decodeLatin1, decodeUtf8, encodeUtf8 } from './textCodec';
@@ -0,0 +1,303 @@
+/**
+ * One marker segment of a JPEG file
+ */
+export interface JpegSegment {
+  marker: number;          // Second marker byte (0xD8 = SOI, 0xC0 = SOF0, ...)
+  name: string;
+  offset: number;          // Position of the 0xFF marker byte
+  length: number;          // Marker plus segment data (entropy-coded scan data not included)
+}
+
+export interface JpegDimensions {
+  width: number;
+  height: number;
+  components: number;      // 1 = greyscale, 3 = colour
+  progressive: boolean;
+}
+
+/**
+ * What a walk over the JPEG segments found
+ */
+export interface JpegInspection {
+  segments: JpegSegment[];
+  dimensions?: JpegDimensions;
+  hasEndMarker: boolean;
+  truncated: boolean;      // Data ends before the EOI marker
+  trailingBytes: number;   // Bytes after the EOI marker
+  // Has the segments a decoder needs to draw the image (partially, when truncated)
+  // Structural check only - the scan data is never decoded, so the photo can still fail to render
+  structurallyComplete: boolean;
+  problems: string[];
+}
+
+export type PhotoRepairCode = 'DROPPED_LEADING_BYTES' | 'ADDED_END_MARKER' | 'REBUILT_FROM_PIPES';
+
+/**
+ * One change made to the photo bytes - message is the English wording, translate by code
+ */
+export interface PhotoRepair {
+  code: PhotoRepairCode;
+  message: string;
+  params?: Record<string, string | number>;
+}
+
+/**
+ * Fully decodes JPEG bytes (e.g. with jpeg-js) - true when they render to pixels
+ * Injected so the decoder package carries no image codec
+ */
+export type JpegDecodeCheck = (bytes: Uint8Array) => boolean;
+
+export interface JpegRepair {
+  bytes: Uint8Array;
+  repairs: PhotoRepair[];  // What was changed, in order
+  inspection: JpegInspection;
+}
+
+const SOI = 0xD8;
+const EOI = 0xD9;
+const SOS = 0xDA;
+const DQT = 0xDB;
+const DHT = 0xC4;
+
+const MARKER_NAMES: Record<number, string> = {
+  [SOI]: 'SOI',
+  [EOI]: 'EOI',
+  [SOS]: 'SOS',
+  [DQT]: 'DQT',
+  [DHT]: 'DHT',
+  0xCC: 'DAC',
+  0xDC: 'DNL',
+  0xDD: 'DRI',
+  0xFE: 'COM'
+};
+
+/**
+ * SOF0-SOF15, except the DHT, JPG and DAC markers that share the range
+ */
+function isStartOfFrame(marker: number): boolean {
+  return marker >= 0xC0 && marker <= 0xCF && marker !== DHT && marker !== 0xC8 && marker !== 0xCC;
+}
+
+function isRestart(marker: number): boolean {
+  return marker >= 0xD0 && marker <= 0xD7;
+}
+
+function markerName(marker: number): string {
+  if (MARKER_NAMES[marker]) {
+    return MARKER_NAMES[marker];
+  }
+  if (marker >= 0xE0 && marker <= 0xEF) {
+    return `APP${marker - 0xE0}`;
+  }
+  if (isStartOfFrame(marker)) {
+    return `SOF${marker - 0xC0}`;
+  }
+  if (isRestart(marker)) {
+    return `RST${marker - 0xD0}`;
+  }
+  return `0x${marker.toString(16).padStart(2, '0').toUpperCase()}`;
+}
+
+function hex(byte: number): string {
+  return `0x${byte.toString(16).padStart(2, '0').toUpperCase()}`;
+}
+
+/**
+ * Walk the JPEG marker segments (SOI, APPn, DQT, SOF, DHT, SOS, EOI) and report structure, dimensions and damage
+ */
+export function inspectJpeg(bytes: Uint8Array): JpegInspection {
+  const segments: JpegSegment[] = [];
+  const problems: string[] = [];
+  let dimensions: JpegDimensions | undefined;
+  let hasQuantTables = false;
+  let hasHuffmanTables = false;
+  let scanBytes = 0;
+  let hasEndMarker = false;
+  let truncated = false;
+  let broken = false;        // Structure is damaged beyond the data simply ending early
+
+  const length = bytes.length;
+  let pos = 0;
+
+  if (length < 2 || bytes[0] !== 0xFF || bytes[1] !== SOI) {
+    problems.push('Missing SOI marker - data does not start with FF D8');
+    broken = true;
+  } else {
+    segments.push({ marker: SOI, name: 'SOI', offset: 0, length: 2 });
+    pos = 2;
+  }
+
+  while (!broken && pos < length) {
+    if (bytes[pos] !== 0xFF) {
+      problems.push(`Expected a marker at offset ${pos}, found ${hex(bytes[pos])}`);
+      broken = true;
+      break;
+    }
+
+    // Any number of 0xFF fill bytes may precede a marker
+    const markerOffset = pos;
+    while (pos < length && bytes[pos] === 0xFF) {
+      pos++;
+    }
+    if (pos >= length) {
+      truncated = true;
+      break;
+    }
+    const marker = bytes[pos++];
+    const name = markerName(marker);
+
+    if (marker === EOI) {
+      segments.push({ marker, name, offset: markerOffset, length: pos - markerOffset });
+      hasEndMarker = true;
+      break;
+    }
+    if (marker === 0x01 || isRestart(marker)) {
+      segments.push({ marker, name, offset: markerOffset, length: pos - markerOffset });
+      continue;
+    }
+    if (marker === SOI) {
+      problems.push(`Unexpected second SOI marker at offset ${markerOffset}`);
+      broken = true;
+      break;
+    }
+
+    if (pos + 2 > length) {
+      problems.push(`${name} segment at offset ${markerOffset} is cut off`);
+      truncated = true;
+      break;
+    }
+    const segmentLength = (bytes[pos] << 8) | bytes[pos + 1];
+    if (segmentLength < 2) {
+      problems.push(`${name} segment at offset ${markerOffset} has an invalid length (${segmentLength})`);
+      broken = true;
+      break;
+    }
+    if (pos + segmentLength > length) {
+      problems.push(`${name} segment at offset ${markerOffset} is cut off`);
+      truncated = true;
+      break;
+    }
+
+    const body = bytes.subarray(pos + 2, pos + segmentLength);
+    pos += segmentLength;
+    segments.push({ marker, name, offset: markerOffset, length: pos - markerOffset });
+
+    if (isStartOfFrame(marker)) {
+      if (body.length < 6) {
+        problems.push(`${name} frame header is too short`);
+        broken = true;
+        break;
+      }
+      dimensions = {
+        height: (body[1] << 8) | body[2],
+        width: (body[3] << 8) | body[4],
+        components: body[5],
+        progressive: marker === 0xC2 || marker === 0xC6 || marker === 0xCA || marker === 0xCE
+      };
+    } else if (marker === DQT) {
+      hasQuantTables = true;
+    } else if (marker === DHT) {
+      hasHuffmanTables = true;
+    } else if (marker === SOS) {
+      if (!dimensions) {
+        problems.push(`Scan at offset ${markerOffset} starts before the frame header (SOF)`);
+        broken = true;
+        break;
+      }
+
+      // Entropy-coded data runs until a marker that is not a stuffed zero, restart marker or fill byte
+      const scanStart = pos;
+      while (pos < length) {
+        if (bytes[pos] === 0xFF && pos + 1 < length) {
+          const next = bytes[pos + 1];
+          if (next !== 0x00 && next !== 0xFF && !isRestart(next)) {
+            break;
+          }
+        }
+        pos++;
+      }
+      scanBytes += pos - scanStart;
+      if (pos >= length) {
+        problems.push('Image data ends inside a scan - the photo is cut off');
+        truncated = true;
+        break;
+      }
+    }
+  }
+
+  if (!broken && !truncated && !hasEndMarker) {
+    problems.push('Data ends before the EOI marker');
+    truncated = true;
+  }
+  if (!broken) {
+    if (!dimensions || dimensions.width === 0 || dimensions.height === 0) {
+      problems.push('No frame header (SOF) with image dimensions');
+    }
+    if (!hasQuantTables) {
+      problems.push('No quantization tables (DQT)');
+    }
+    if (!hasHuffmanTables && dimensions && !dimensions.progressive) {
+      problems.push('No Huffman tables (DHT) - relies on the decoder\'s standard tables');
+    }
+    if (scanBytes === 0) {
+      problems.push('No image data (SOS scan)');
+    }
+  }
+
+  return {
+    segments,
+    dimensions,
+    hasEndMarker,
+    truncated,
+    trailingBytes: hasEndMarker ? length - pos : 0,
+    structurallyComplete: !broken && !!dimensions && dimensions.width > 0 && dimensions.height > 0 && hasQuantTables && scanBytes > 0,
+    problems
+  };
+}
+
+/**
+ * Try conservative fixes (drop bytes before SOI, close a cut-off scan with EOI)
+ * Returns undefined unless the repaired bytes are structurally complete and decodes() renders them
+ */
+export function repairJpeg(bytes: Uint8Array, decodes: JpegDecodeCheck): JpegRepair | undefined {
+  const repairs: PhotoRepair[] = [];
+  let repaired = bytes;
+
+  // Junk before the image, e.g. leftovers of a separator
+  if (!(repaired[0] === 0xFF && repaired[1] === SOI)) {
+    const start = findStartOfImage(repaired);
+    if (start === -1) {
+      return undefined;
+    }
+    repaired = repaired.subarray(start);
+    repairs.push({ code: 'DROPPED_LEADING_BYTES', message: `Dropped ${start} bytes before the SOI marker`, params: { bytes: start } });
+  }
+
+  let inspection = inspectJpeg(repaired);
+  if (inspection.truncated && inspection.dimensions && !inspection.hasEndMarker) {
+    const keep = repaired[repaired.length - 1] === 0xFF ? repaired.length - 1 : repaired.length;
+    const closed = new Uint8Array(keep + 2);
+    closed.set(repaired.subarray(0, keep));
+    closed.set([0xFF, EOI], keep);
+    repaired = closed;
+    repairs.push({ code: 'ADDED_END_MARKER', message: 'Added the missing EOI marker (the photo is cut off)' });
+    inspection = inspectJpeg(repaired);
+  }
+
+  if (repairs.length === 0 || !inspection.structurallyComplete || !decodes(repaired)) {
+    return undefined;
+  }
+  return { bytes: repaired, repairs, inspection };
+}
+
+/**
+ * Position of the first FF D8 FF sequence (SOI followed by another marker)
+ */
+function findStartOfImage(bytes: Uint8Array): number {
+  for (let i = 0; i + 2 < bytes.length; i++) {
+    if (bytes[i] === 0xFF && bytes[i + 1] === SOI && bytes[i + 2] === 0xFF) {
+      return i;
+    }
+  }
+  return -1;
+}
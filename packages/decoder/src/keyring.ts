@@ -0,0 +1,118 @@
+import defaultKeyringConfig from './config/keyring.json';
+import { encodeUtf8 } from './textCodec';
+
+export interface EncryptionKey {
+  id: string;
+  key: string;
+  label?: string;
+}
+
+export interface KeyringConfig {
+  keys: EncryptionKey[];
+}
+
+/**
+ * Named XOR keys the decoder tries in order
+ * Keys MUST match the ones used by the barcode generation system(s)
+ */
+export class LicenseKeyring {
+  private readonly keys: EncryptionKey[] = [];
+
+  constructor(keys: EncryptionKey[] = []) {
+    keys.forEach(key => this.add(key));
+  }
+
+  /**
+   * Keyring with the keys bundled in config/keyring.json
+   */
+  public static createDefault(): LicenseKeyring {
+    return LicenseKeyring.fromConfig(defaultKeyringConfig);
+  }
+
+  /**
+   * Build a keyring from a parsed config object
+   */
+  public static fromConfig(config: KeyringConfig): LicenseKeyring {
+    if (!config || !Array.isArray(config.keys)) {
+      throw new Error("Invalid keyring config: expected a 'keys' array");
+    }
+    return new LicenseKeyring(config.keys);
+  }
+
+  /**
+   * Build a keyring from keyring JSON (e.g. pasted or imported in the UI)
+   */
+  public static fromJson(json: string): LicenseKeyring {
+    let config: KeyringConfig;
+    try {
+      config = JSON.parse(json);
+    } catch (error) {
+      throw new Error(`Invalid keyring JSON: ${error instanceof Error ? error.message : error}`);
+    }
+    return LicenseKeyring.fromConfig(config);
+  }
+
+  /**
+   * Add a key - IDs must be unique within the keyring
+   */
+  public add(key: EncryptionKey): void {
+    if (!key.id || !key.id.trim()) {
+      throw new Error("Encryption key needs an ID");
+    }
+    if (!key.key) {
+      throw new Error(`Encryption key '${key.id}' is empty`);
+    }
+    if (this.keys.some(existing => existing.id === key.id)) {
+      throw new Error(`Duplicate encryption key ID: ${key.id}`);
+    }
+    this.keys.push({ id: key.id.trim(), key: key.key, label: key.label });
+  }
+
+  /**
+   * Copy of this keyring with another keyring's keys appended (existing IDs win)
+   */
+  public merge(other: LicenseKeyring): LicenseKeyring {
+    const merged = new LicenseKeyring(this.keys);
+    other.list()
+      .filter(key => !merged.has(key.id))
+      .forEach(key => merged.add(key));
+    return merged;
+  }
+
+  /**
+   * Copy of this keyring without the given key
+   */
+  public without(id: string): LicenseKeyring {
+    return new LicenseKeyring(this.keys.filter(key => key.id !== id));
+  }
+
+  public has(id: string): boolean {
+    return this.keys.some(key => key.id === id);
+  }
+
+  public list(): EncryptionKey[] {
+    return [...this.keys];
+  }
+
+  public get size(): number {
+    return this.keys.length;
+  }
+
+  public toConfig(): KeyringConfig {
+    return { keys: this.list() };
+  }
+}
+
+/**
+ * XOR data with a rotating key (length preserving, so it both encrypts and decrypts)
+ */
+export function xorWithKey(data: Uint8Array, key: string): Uint8Array {
+  const keyBytes = encodeUtf8(key);
+  const output = new Uint8Array(data.length);
+  
+  for (let i = 0; i < data.length; i++) {
+    output[i] = data[i] ^ keyBytes[i % keyBytes.length];
+  }
+  
+  return output;
+}
@@ -0,0 +1,1317 @@
+import { Inflate } from 'pako';
+import { LicenseKeyring, xorWithKey } from './keyring';
+import { TrustStore } from './trustStore';
+import { SignatureBlock, SignatureCheck, splitSignatureBlock, verifyLicenseSignature } from './licenseSignature';
+import { EncodableLicense, MadagascarLicenseEncoder } from './licenseEncoder';
+import { FormatParserRegistry, type LicenseTextLayout } from './formatParsers';
+import { decodeLicenseText } from './v5Tokenizer';
+import { LicenseValidator, ValidationReport } from './licenseValidation';
+import { computeValidity, ValidityStatus } from './licenseValidity';
+import { DecodeError, DecodeErrorInfo, DecodeStage, toDecodeError } from './decodeErrors';
+import { DecodeLimits, DEFAULT_DECODE_LIMITS } from './decodeLimits';
+import { DecodeLogger, silentLogger } from './decodeLogger';
+import { DecodeTrace, DecodeTracer, TraceStep, tracePreview } from './decodeTrace';
+import { inspectJpeg, JpegDecodeCheck, JpegInspection, PhotoRepair, repairJpeg } from './jpegInspector';
+import { base64ToBytes, bytesToBase64, decodeLatin1, decodeUtf8, encodeUtf8 } from './textCodec';
+
+export interface LicenseData {
+  person_name: string;             // Name field as printed, e.g. "BJ SCHUTTE"
+  person_initials: string;         // Parsed from person_name, e.g. "BJ"
+  person_surname: string;          // Parsed from person_name, e.g. "SCHUTTE"
+  id_number: string;
+  date_of_birth: string;
+  license_number: string;
+  valid_from: string;
+  valid_to: string;
+  license_codes: string[];
+  vehicle_restrictions: string[];
+  driver_restrictions: string[];
+  sex: string;
+  country: string;
+  format_version: string;
+}
+
+/**
+ * Fields shared by both decode outcomes
+ */
+interface DecodeOutcomeBase {
+  decoding_format: string;
+  message: string;
+  trace?: DecodeTrace;             // Only when the decoder was created with trace: true
+}
+
+/**
+ * strict: clean zlib inflate and an exact format match only
+ * lenient: also try the recovery heuristics (text scraping, offset inflate, padded fields)
+ */
+export type DecodeMode = 'strict' | 'lenient';
+
+export type DecodeConfidence = 'high' | 'medium' | 'low';
+
+export type ConfidenceNoteCode =
+  | 'SCRAPED_TEXT'
+  | 'FIELDS_CUT_OFF'
+  | 'PHOTO_CUT_OFF'
+  | 'LOOSE_PARSE'
+  | 'PHOTO_RECONSTRUCTED'
+  | 'PHOTO_REPAIRED'
+  | 'PHOTO_DAMAGED';
+
+/**
+ * Why confidence is below high - message is the English wording, translate by code
+ */
+export interface ConfidenceNote {
+  code: ConfidenceNoteCode;
+  message: string;
+  params?: Record<string, string | number>;
+}
+
+/**
+ * How each part of a successful result was obtained
+ */
+export interface DecodeMethod {
+  decompression: string;           // zlib, zlib_prefix, text_pattern, readable_text, ...
+  parse: 'exact' | 'loose';        // loose = fields split without a full format match
+  image?: string;                  // binary, repaired, pipe_reconstruction, raw
+}
+
+export interface DecodeSuccess extends DecodeOutcomeBase {
+  success: true;
+  license_data: LicenseData;
+  has_image: boolean;
+  image_size_bytes: number;
+  total_payload_size: number;
+  format_parser: string;
+  text_layout: LicenseTextLayout;  // Byte offsets of each license field in the decompressed payload
+  validation: ValidationReport;
+  validity: ValidityStatus;
+  decode_mode: DecodeMode;
+  decode_method: DecodeMethod;
+  confidence: DecodeConfidence;    // high only for a clean inflate, exact parse and intact photo
+  confidence_notes: ConfidenceNote[];
+  image_base64?: string;
+  image_format?: string;
+  image_error?: DecodeErrorInfo;   // Photo damaged - license fields are still usable
+  image_inspection?: JpegInspection;
+  image_repairs?: PhotoRepair[];   // Changes made to the photo bytes so they render
+  image_decodes?: boolean;         // Whether DecoderOptions.jpegDecodeCheck rendered the photo (JPEG and a check only)
+  recovery?: RecoveryReport;       // Only when the payload was cut short (lenient mode)
+  key_id?: string;                 // Absent when XOR was skipped
+  signature: SignatureCheck;       // Signed payloads stay 'unverified' until decodeAndVerify() checks them
+}
+
+export type PhotoCompleteness = 'complete' | 'truncated' | 'missing';
+
+/**
+ * What survived of a payload whose zlib stream broke off early
+ * Field names are the format parser's field layout names (e.g. valid_dates)
+ */
+export interface RecoveryReport {
+  recovered_bytes: number;         // Bytes that decompressed before the stream broke off
+  intact_fields: string[];
+  truncated_field?: string;        // Field the recovered data ends in
+  missing_fields: string[];
+  photo: PhotoCompleteness;
+}
+
+/**
+ * What the pipeline had recovered before it failed
+ */
+export interface PartialDecode {
+  key_id?: string;
+  total_payload_size?: number;     // Decompressed size
+  license_text?: string;           // License text the format parsers rejected
+  license_data?: Partial<LicenseData>;
+  recovery?: RecoveryReport;
+}
+
+export interface DecodeFailure extends DecodeOutcomeBase {
+  success: false;
+  error: string;
+  error_details: DecodeErrorInfo;
+  partial?: PartialDecode;
+}
+
+export type DecodedResult = DecodeSuccess | DecodeFailure;
+
+/**
+ * Exhaustiveness check for switches over DecodedResult (or any other union)
+ */
+export function assertNever(value: never): never {
+  throw new Error(`Unexpected value: ${JSON.stringify(value)}`);
+}
+
+/**
+ * Failure result for anything thrown while decoding
+ */
+export function decodeFailure(error: unknown, partial?: PartialDecode): DecodeFailure {
+  const decodeError = toDecodeError(error);
+  const hasPartial = partial && Object.keys(partial).length > 0;
+  return {
+    success: false,
+    decoding_format: "pipe_delimited_xor_encrypted",
+    message: "Failed to decode barcode data",
+    error: decodeError.message,
+    error_details: decodeError.toJSON(),
+    ...(hasPartial ? { partial } : {})
+  };
+}
+
+/**
+ * Scanner output: raw payload bytes, or hex/base64 text from manual entry
+ */
+export type ScannedData = Uint8Array | string;
+
+export interface DecoderOptions {
+  keyring?: LicenseKeyring;
+  trustStore?: TrustStore;         // Issuer keys for signed payloads. Default: config/trustStore.json
+  formatRegistry?: FormatParserRegistry;
+  validator?: LicenseValidator;
+  asOf?: Date;                     // Date to check validity against (e.g. an incident date). Default: the time of each decode
+  mode?: DecodeMode;               // Default: strict
+  limits?: Partial<DecodeLimits>;  // Default: DEFAULT_DECODE_LIMITS
+  logger?: DecodeLogger;           // Default: silent
+  trace?: boolean;                 // Attach a DecodeTrace to every result
+  jpegDecodeCheck?: JpegDecodeCheck; // Confirms a photo renders. Without it photos are never repaired
+}
+
+/**
+ * Per-decode state: what has been recovered so far and the trace being recorded
+ */
+interface DecodeContext {
+  partial: PartialDecode;
+  tracer: DecodeTracer;
+}
+
+interface InflateOutcome {
+  output: Uint8Array;
+  complete: boolean;               // Reached the end of the zlib stream without errors
+  error?: string;
+  consumed: number;                // Compressed bytes read
+}
+
+interface ExtractedImage {
+  bytes: Uint8Array;
+  inspection?: JpegInspection;     // Only for JPEG data
+  repairs: PhotoRepair[];
+  decodes?: boolean;               // jpegDecodeCheck verdict on bytes, when there is a check
+}
+
+interface InflateState {
+  ended: boolean;
+  strm: { output?: Uint8Array; next_out: number; total_in: number };
+}
+
+/**
+ * Bytes a signature covers, kept until decodeAndVerify() checks them
+ */
+interface SignedPayload {
+  data: Uint8Array;                // Decompressed payload without the signature block
+  block: SignatureBlock;
+}
+
+interface KeyMatch {
+  keyId: string;
+  decrypted: Uint8Array;
+  inflated?: Uint8Array;
+}
+
+/**
+ * Madagascar Driver's License Barcode Decoder
+ * Ported from Python implementation for offline decoding
+ */
+export class MadagascarLicenseDecoder {
+  private static readonly IMAGE_SEPARATOR = "||IMG||";
+
+  // Encryption keys - MUST match the keys used in barcode generation system
+  private readonly keyring: LicenseKeyring;
+  // Issuer public keys - signatures prove a license was issued, XOR only hides it
+  private readonly trustStore: TrustStore;
+  // Parsers for the supported payload format versions
+  private readonly formatRegistry: FormatParserRegistry;
+  // Field-level checks on the decoded license data
+  private readonly validator: LicenseValidator;
+  private readonly asOf?: Date;
+  private readonly mode: DecodeMode;
+  private readonly limits: DecodeLimits;
+  private readonly logger: DecodeLogger;
+  private readonly traceEnabled: boolean;
+  private readonly jpegDecodeCheck?: JpegDecodeCheck;
+  private readonly signedPayloads = new WeakMap<DecodeSuccess, SignedPayload>();
+
+  constructor(options: DecoderOptions = {}) {
+    this.keyring = options.keyring ?? LicenseKeyring.createDefault();
+    this.trustStore = options.trustStore ?? TrustStore.createDefault();
+    this.formatRegistry = options.formatRegistry ?? FormatParserRegistry.createDefault();
+    this.asOf = options.asOf;
+    this.validator = options.validator ?? new LicenseValidator({ asOf: options.asOf });
+    this.mode = options.mode ?? 'strict';
+    this.limits = { ...DEFAULT_DECODE_LIMITS, ...options.limits };
+    this.logger = options.logger ?? silentLogger;
+    this.traceEnabled = options.trace ?? false;
+    this.jpegDecodeCheck = options.jpegDecodeCheck;
+  }
+
+  /**
+   * Decode whatever a scanner or the manual input handed over
+   */
+  public decode(scanned: ScannedData, skipXor: boolean = false): DecodedResult {
+    return typeof scanned === 'string'
+      ? this.decodeBarcodeData(scanned, skipXor)
+      : this.decodeBytes(scanned, skipXor);
+  }
+
+  /**
+   * Decode, then check the signature of a signed payload against the trust store (WebCrypto is async)
+   */
+  public async decodeAndVerify(scanned: ScannedData, skipXor: boolean = false): Promise<DecodedResult> {
+    const result = this.decode(scanned, skipXor);
+    const signed = result.success ? this.signedPayloads.get(result) : undefined;
+    if (result.success && signed) {
+      this.signedPayloads.delete(result);
+      result.signature = await verifyLicenseSignature(signed.data, signed.block, this.trustStore);
+      if (result.signature.status === 'authentic') {
+        this.logger.info(`🔏 Signature verified with key '${result.signature.key_id}'`);
+      } else {
+        this.logger.warn(`⚠️ Signature ${result.signature.status}: ${result.signature.reason}`);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Decode scanned barcode data to extract license information
+   */
+  public decodeBarcodeData(scannedData: string, skipXor: boolean = false): DecodedResult {
+    return this.runDecode(context => this.decodeText(scannedData, skipXor, context));
+  }
+
+  /**
+   * Decode the raw PDF417 payload bytes (no charset handling involved)
+   */
+  public decodeBytes(rawBytes: Uint8Array, skipXor: boolean = false): DecodedResult {
+    return this.runDecode(context => this.decodeRaw(rawBytes, skipXor, context));
+  }
+
+  /**
+   * Run one decode, turning anything thrown into a failure result and attaching the trace
+   */
+  private runDecode(decodeFn: (context: DecodeContext) => DecodeSuccess): DecodedResult {
+    const context: DecodeContext = { partial: {}, tracer: new DecodeTracer() };
+    
+    let result: DecodedResult;
+    try {
+      result = decodeFn(context);
+    } catch (error) {
+      result = this.failureResult(error, context.partial);
+    }
+    
+    if (this.traceEnabled) {
+      result.trace = context.tracer.finish(result.success);
+    }
+    return result;
+  }
+
+  private decodeText(scannedData: string, skipXor: boolean, context: DecodeContext): DecodeSuccess {
+    this.logger.info("=== MADAGASCAR LICENSE BARCODE DECODER ===");
+    this.logger.debug(`Input data (${scannedData.length} chars): ${scannedData.substring(0, 100)}...`);
+    
+    if (!scannedData.trim()) {
+      throw new DecodeError('EMPTY_PAYLOAD', "Scanned data is empty");
+    }
+    if (scannedData.length > this.limits.maxInputLength) {
+      throw new DecodeError('INPUT_TOO_LARGE', `Scanned data is ${scannedData.length} characters, over the ${this.limits.maxInputLength} character limit`);
+    }
+    
+    // Step 1: Convert data to binary (detect format)
+    const binaryData = context.tracer.run('input', 'detect_format', scannedData,
+      step => this.detectAndConvertToBinary(scannedData, step));
+    this.logger.info(`Step 1 - Convert to binary: ${scannedData.length} chars → ${binaryData.length} bytes`);
+    
+    return this.decodeBinary(binaryData, skipXor, context);
+  }
+
+  private decodeRaw(rawBytes: Uint8Array, skipXor: boolean, context: DecodeContext): DecodeSuccess {
+    this.logger.info("=== MADAGASCAR LICENSE BARCODE DECODER (raw bytes) ===");
+    this.logger.debug(`Byte length: ${rawBytes.length}`);
+    
+    if (rawBytes.length === 0) {
+      throw new DecodeError('EMPTY_PAYLOAD', "Scanned data is empty");
+    }
+    if (rawBytes.length > this.limits.maxInputLength) {
+      throw new DecodeError('INPUT_TOO_LARGE', `Scanned data is ${rawBytes.length} bytes, over the ${this.limits.maxInputLength} byte limit`);
+    }
+    
+    // Some issuers put the hex/base64 text itself into the barcode
+    if (this.isEncodedText(rawBytes)) {
+      this.logger.debug("📝 Payload is hex/base64 text, decoding as text");
+      return this.decodeText(decodeLatin1(rawBytes), skipXor, context);
+    }
+    
+    return this.decodeBinary(rawBytes, skipXor, context);
+  }
+
+  /**
+   * Run decrypt → decompress → parse on binary payload data
+   * Progress is recorded in context.partial so a failure can report what was recovered
+   */
+  private decodeBinary(binaryData: Uint8Array, skipXor: boolean, context: DecodeContext): DecodeSuccess {
+    const { partial, tracer } = context;
+    this.logger.debug(`Binary data preview: ${tracePreview(binaryData)}`);
+    
+    // Step 2: Decrypt with the matching keyring key (or skip if unencrypted)
+    const keyMatch = skipXor ? undefined : tracer.run('decrypt', 'select_key', binaryData, step => {
+      const match = this.selectKey(binaryData);
+      step.method = `key:${match.keyId}`;
+      return match;
+    }, match => match.decrypted);
+    const decryptedData = keyMatch ? keyMatch.decrypted : binaryData;
+    if (keyMatch) {
+      partial.key_id = keyMatch.keyId;
+    }
+    this.logger.info(`Step 2 - ${keyMatch ? `Decrypt with key '${keyMatch.keyId}'` : 'Skip XOR'}: ${binaryData.length} → ${decryptedData.length} bytes`);
+    this.logger.debug(`Data preview: ${tracePreview(decryptedData)} (zlib should start with 78)`);
+    
+    // Step 3: Decompress with zlib (with fallback methods in lenient mode)
+    let decompressedData: Uint8Array;
+    let decompressionMethod = 'zlib';
+    try {
+      decompressedData = tracer.run('decompress', 'inflate', decryptedData, step => {
+        step.method = 'zlib';
+        const data = keyMatch?.inflated
+          ?? (this.mode === 'strict' ? this.inflateComplete(decryptedData) : this.advancedDecompress(decryptedData, step));
+        decompressionMethod = step.method;
+        return data;
+      });
+    } catch (error) {
+      // Limits are hit deliberately - do not try to recover from them
+      if (error instanceof DecodeError) {
+        throw error;
+      }
+      if (keyMatch && !this.hasZlibHeader(decryptedData)) {
+        throw new DecodeError('KEY_MISMATCH', `No keyring key (${this.keyring.list().map(key => key.id).join(', ')}) produces a zlib stream`, { offset: 0, cause: error });
+      }
+      
+      // Report whatever decompressed before the stream broke off
+      const prefix = tracer.run('decompress', 'recover_prefix', decryptedData, step => {
+        step.method = 'zlib_prefix';
+        return this.streamInflate(decryptedData).output;
+      });
+      if (prefix.length > 0) {
+        const { recovery, licenseData } = this.analyseRecovery(prefix);
+        partial.recovery = recovery;
+        partial.license_data = licenseData;
+        this.logger.warn(`⚠️ Recovered ${prefix.length} bytes before the stream broke off:`, recovery);
+      }
+      throw this.diagnoseInflateFailure(decryptedData);
+    }
+    this.logger.info(`Step 3 - Decompress: ${decryptedData.length} → ${decompressedData.length} bytes`);
+    partial.total_payload_size = decompressedData.length;
+    
+    // A cut-off stream: note what survived before trying to parse it
+    if (decompressionMethod === 'zlib_prefix') {
+      const { recovery, licenseData } = this.analyseRecovery(decompressedData);
+      partial.recovery = recovery;
+      partial.license_data = licenseData;
+    }
+    
+    // Step 4: Parse pipe-delimited format
+    const result = this.parseMadagascarFormat(decompressedData, decompressionMethod, context);
+    this.logger.info("Step 4 - Parse: License data extracted successfully");
+    
+    if (keyMatch) {
+      result.key_id = keyMatch.keyId;
+    }
+    if (partial.recovery) {
+      result.recovery = partial.recovery;
+    }
+    this.assessConfidence(result);
+    
+    // Recovered fields that also fail validation are most likely made up - report them as partial data only
+    if (result.confidence === 'low' && result.validation.issues.length > 0) {
+      partial.license_data = result.license_data;
+      throw new DecodeError('UNRELIABLE_RECOVERY', `Recovered license fields fail validation: ${result.validation.issues.map(issue => issue.code).join(', ')}`, { offset: 0 });
+    }
+    return result;
+  }
+
+  /**
+   * Build the failure result for an error thrown anywhere in the pipeline
+   */
+  private failureResult(error: unknown, partial: PartialDecode): DecodeFailure {
+    const result = decodeFailure(error, partial);
+    this.logger.error(`Decoding failed: ${result.error}`, result.error_details);
+    return result;
+  }
+
+  /**
+   * Work out why zlib inflation failed: data ending early vs. corrupt data
+   */
+  private diagnoseInflateFailure(data: Uint8Array): DecodeError {
+    if (!this.hasZlibHeader(data)) {
+      return new DecodeError('ZLIB_CORRUPT', "Data does not start with a zlib header", { offset: 0 });
+    }
+    
+    const outcome = this.streamInflate(data);
+    if (outcome.error) {
+      return new DecodeError('ZLIB_CORRUPT', `zlib stream is corrupt: ${outcome.error}`, { offset: outcome.consumed });
+    }
+    return new DecodeError('TRUNCATED_PAYLOAD', `zlib stream ends after ${data.length} bytes, before the end of the compressed data`, { offset: data.length });
+  }
+
+  /**
+   * Streaming zlib inflate capped at limits.maxInflatedSize
+   * Keeps the output produced before the stream ended early or broke
+   */
+  private streamInflate(data: Uint8Array): InflateOutcome {
+    const maxSize = this.limits.maxInflatedSize;
+    const inflator = new Inflate();
+    // pako keeps the stream state off its public typings
+    const state = inflator as unknown as InflateState;
+    const strm = state.strm;
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    const addChunk = (chunk: Uint8Array) => {
+      size += chunk.length;
+      if (size > maxSize) {
+        throw new DecodeError('INFLATE_LIMIT', `Decompressed data exceeds the ${maxSize} byte limit`, { offset: strm.total_in });
+      }
+      chunks.push(chunk);
+    };
+    
+    inflator.onData = addChunk;
+    inflator.push(data, false);
+    
+    // Output still sitting in the working buffer has not been handed to onData yet
+    const lastChunk = chunks[chunks.length - 1];
+    if (!state.ended && strm.output && strm.next_out > 0 && lastChunk?.buffer !== strm.output.buffer) {
+      addChunk(strm.output.slice(0, strm.next_out));
+    }
+    
+    const output = new Uint8Array(size);
+    let offset = 0;
+    for (const chunk of chunks) {
+      output.set(chunk, offset);
+      offset += chunk.length;
+    }
+    
+    return {
+      output,
+      complete: state.ended && !inflator.err,
+      error: inflator.err ? inflator.msg || `zlib error ${inflator.err}` : undefined,
+      consumed: strm.total_in
+    };
+  }
+
+  /**
+   * Inflate a zlib stream that must be complete and intact
+   */
+  private inflateComplete(data: Uint8Array): Uint8Array {
+    const outcome = this.streamInflate(data);
+    if (!outcome.complete) {
+      throw new Error(outcome.error ?? "unexpected end of zlib stream");
+    }
+    return outcome.output;
+  }
+
+  /**
+   * Throw once a heuristic has used up its time budget
+   */
+  private checkTimeBudget(deadline: number, stage: DecodeStage): void {
+    if (performance.now() > deadline) {
+      throw new DecodeError('TIME_BUDGET', `Recovery heuristics exceeded the ${this.limits.heuristicTimeBudgetMs} ms time budget`, { stage });
+    }
+  }
+
+  /**
+   * Work out which fields and how much of the photo a cut-off payload still holds
+   */
+  private analyseRecovery(prefix: Uint8Array): { recovery: RecoveryReport; licenseData: Partial<LicenseData> } {
+    const separatorIndex = this.findBytes(prefix, encodeUtf8(MadagascarLicenseDecoder.IMAGE_SEPARATOR));
+    const licenseBytes = separatorIndex === -1 ? prefix : prefix.slice(0, separatorIndex);
+    const licenseText = decodeLicenseText(licenseBytes).text.replace(/\0/g, '');
+    
+    // The license text is only complete if the data reached the image separator
+    const parsed = this.formatRegistry.parsePartial(licenseText, separatorIndex !== -1);
+    
+    let photo: PhotoCompleteness = 'missing';
+    if (separatorIndex !== -1) {
+      const imageBytes = prefix.slice(separatorIndex + MadagascarLicenseDecoder.IMAGE_SEPARATOR.length);
+      photo = inspectJpeg(imageBytes).hasEndMarker ? 'complete' : 'truncated';
+    }
+    
+    return {
+      recovery: {
+        recovered_bytes: prefix.length,
+        intact_fields: parsed.intactFields,
+        truncated_field: parsed.truncatedField,
+        missing_fields: parsed.missingFields,
+        photo
+      },
+      licenseData: parsed.licenseData
+    };
+  }
+
+  /**
+   * Check whether raw barcode bytes are really hex or base64 text
+   */
+  private isEncodedText(bytes: Uint8Array): boolean {
+    if (bytes.length === 0) {
+      return false;
+    }
+    const text = decodeLatin1(bytes).trim();
+    const isHex = /^[0-9a-fA-F]+$/.test(text) && text.length % 2 === 0;
+    const isBase64 = /^[A-Za-z0-9+/]+={0,2}$/.test(text) && text.length % 4 === 0;
+    return isHex || isBase64;
+  }
+
+  /**
+   * Detect data format and convert to binary
+   */
+  private detectAndConvertToBinary(data: string, step: TraceStep): Uint8Array {
+    this.logger.debug("🔍 Detecting data format...");
+    
+    // Method 1: Check if it's valid hex (pasted hex may be wrapped over several lines)
+    const compact = data.replace(/\s/g, '');
+    if (/^[0-9a-fA-F]+$/.test(compact)) {
+      if (compact.length % 2 === 0) {
+        this.logger.debug("✅ Detected: Hex string");
+        step.method = 'hex';
+        return this.hexToBinary(compact);
+      }
+      if (compact.length > 16) {
+        throw new DecodeError('INVALID_HEX', `Hex data has an odd number of characters (${compact.length})`, { offset: compact.length - 1 });
+      }
+    }
+    
+    // Method 2: Check if it's base64
+    try {
+      const base64Regex = /^[A-Za-z0-9+/]*={0,2}$/;
+      if (base64Regex.test(data.trim()) && data.length % 4 === 0) {
+        this.logger.debug("🧪 Trying: Base64 decode");
+        const bytes = base64ToBytes(data.trim());
+        this.logger.debug("✅ Detected: Base64 string");
+        step.method = 'base64';
+        return bytes;
+      }
+    } catch (e) {
+      this.logger.warn("❌ Not valid base64");
+    }
+    
+    // Method 3: Treat as binary text (char codes to bytes)
+    this.logger.debug("🔄 Treating as binary text (char codes → bytes)");
+    const bytes = new Uint8Array(data.length);
+    for (let i = 0; i < data.length; i++) {
+      bytes[i] = data.charCodeAt(i) & 0xFF; // Keep only lower 8 bits
+    }
+    this.logger.debug("✅ Converted text to binary data");
+    step.method = 'binary_text';
+    return bytes;
+  }
+
+  /**
+   * Convert hex string to binary data
+   */
+  private hexToBinary(hexData: string): Uint8Array {
+    // Remove any whitespace and validate
+    const cleanHex = hexData.trim().replace(/\s/g, '');
+    
+    if (cleanHex.length % 2 !== 0) {
+      throw new DecodeError('INVALID_HEX', "Invalid hex string: odd number of characters", { offset: cleanHex.length - 1 });
+    }
+    
+    const invalidIndex = cleanHex.search(/[^0-9a-fA-F]/);
+    if (invalidIndex !== -1) {
+      throw new DecodeError('INVALID_HEX', `Invalid hex string: unexpected character '${cleanHex[invalidIndex]}'`, { offset: invalidIndex });
+    }
+    
+    const bytes = new Uint8Array(cleanHex.length / 2);
+    for (let i = 0; i < cleanHex.length; i += 2) {
+      bytes[i / 2] = parseInt(cleanHex.substr(i, 2), 16);
+    }
+    return bytes;
+  }
+
+  /**
+   * Try each keyring key and pick the one whose output is a valid zlib
+   * stream that inflates cleanly
+   */
+  private selectKey(data: Uint8Array): KeyMatch {
+    const keys = this.keyring.list();
+    if (keys.length === 0) {
+      throw new DecodeError('KEY_MISMATCH', "Keyring has no encryption keys");
+    }
+    
+    let headerMatch: KeyMatch | undefined;
+    for (const key of keys) {
+      const decrypted = this.staticDecrypt(data, key.key);
+      if (!this.hasZlibHeader(decrypted)) {
+        this.logger.debug(`🔑 Key '${key.id}': no zlib header`);
+        continue;
+      }
+      
+      headerMatch = headerMatch ?? { keyId: key.id, decrypted };
+      try {
+        const inflated = this.inflateComplete(decrypted);
+        this.logger.debug(`🔑 Key '${key.id}': zlib header valid, inflated cleanly`);
+        return { keyId: key.id, decrypted, inflated };
+      } catch (error) {
+        if (error instanceof DecodeError) {
+          throw error;
+        }
+        this.logger.debug(`🔑 Key '${key.id}': zlib header valid, inflate failed:`, error);
+      }
+    }
+    
+    // No clean inflate - hand the best candidate to the fallback methods
+    if (headerMatch) {
+      return headerMatch;
+    }
+    this.logger.debug(`🔑 No key produced a zlib header, falling back to '${keys[0].id}'`);
+    return { keyId: keys[0].id, decrypted: this.staticDecrypt(data, keys[0].key) };
+  }
+
+  /**
+   * Check for a zlib header: deflate method, 32K window, valid FCHECK
+   */
+  private hasZlibHeader(data: Uint8Array): boolean {
+    return data.length >= 2 && data[0] === 0x78 && ((data[0] << 8) | data[1]) % 31 === 0;
+  }
+
+  /**
+   * Decrypt data using static key XOR (length preserving)
+   */
+  private staticDecrypt(data: Uint8Array, key: string): Uint8Array {
+    return xorWithKey(data, key);
+  }
+
+  /**
+   * Advanced decompress with multiple fallback methods
+   */
+  private advancedDecompress(data: Uint8Array, step: TraceStep): Uint8Array {
+    this.logger.debug("🔍 Advanced decompression starting...");
+    
+    // Method 1: Try standard zlib
+    try {
+      this.logger.debug("🧪 Trying standard zlib...");
+      const result = this.inflateComplete(data);
+      this.logger.debug("✅ Standard zlib success!");
+      step.method = 'zlib';
+      return result;
+    } catch (error) {
+      if (error instanceof DecodeError) {
+        throw error;
+      }
+      this.logger.warn("❌ Standard zlib failed:", error);
+    }
+    
+    // The fallbacks below are heuristics - stop them if they run too long
+    const deadline = performance.now() + this.limits.heuristicTimeBudgetMs;
+    
+    // Method 2: Keep whatever prefix of the zlib stream decompresses (cut-off scans)
+    if (this.hasZlibHeader(data)) {
+      const prefix = this.streamInflate(data).output;
+      if (prefix.length > 0) {
+        this.logger.warn(`⚠️ zlib stream broke off, keeping ${prefix.length} decompressed bytes`);
+        step.method = 'zlib_prefix';
+        return prefix;
+      }
+    }
+    
+    // Method 3: Look for readable text in the encrypted data
+    this.logger.debug("🔍 Searching for readable text in decrypted data...");
+    let readableText = '';
+    const unreadableAt = new Set<number>();  // Separators standing in for non-printable bytes
+    for (let i = 0; i < data.length; i++) {
+      if (i % 1024 === 0) {
+        this.checkTimeBudget(deadline, 'decompress');
+      }
+      const byte = data[i];
+      // Check if it's a printable ASCII character or common license characters
+      if ((byte >= 32 && byte <= 126) || byte === 9 || byte === 10 || byte === 13) {
+        readableText += String.fromCharCode(byte);
+      } else {
+        // Add separator for non-printable bytes
+        if (readableText.length > 0 && !readableText.endsWith('|')) {
+          unreadableAt.add(readableText.length);
+          readableText += '|';
+        }
+      }
+    }
+    
+    this.logger.debug("📝 Extracted readable text:", readableText.substring(0, 200));
+    
+    // Method 4: Try to find pipe-delimited data patterns
+    this.checkTimeBudget(deadline, 'decompress');
+    const pipePattern = /[A-Z\s.'-]+\|[\d]+\|[\d]{8}\|[A-Z\d]+\|[\d-]+\|[A-Z,]*\|[^|]*\|[^|]*\|[MF]/g;
+    // A name right after an unreadable byte may have lost its start (e.g. a non-ASCII letter) - skip those matches
+    const match = Array.from(readableText.matchAll(pipePattern)).find(candidate => !unreadableAt.has((candidate.index ?? 0) - 1));
+    if (match) {
+      this.logger.debug("✅ Found pipe-delimited pattern:", match[0]);
+      
+      // Check if there's image data after the license data
+      const imgSeparatorIndex = readableText.indexOf('||IMG||');
+      if (imgSeparatorIndex !== -1) {
+        this.logger.debug("🖼️ Image data found after ||IMG|| separator");
+        const fullDataWithImage = readableText; // Keep the full text including image
+        step.method = 'text_pattern_with_image';
+        return encodeUtf8(fullDataWithImage);
+      } else {
+        step.method = 'text_pattern';
+        return encodeUtf8(match[0]);
+      }
+    }
+    
+    // Method 5: Return the readable text we found
+    if (readableText.length > 20) {
+      this.logger.warn("🔄 Using extracted readable text as fallback");
+      step.method = 'readable_text';
+      return encodeUtf8(readableText);
+    }
+    
+    throw new Error("All decompression methods failed");
+  }
+
+  /**
+   * Parse Madagascar pipe-delimited license format
+   * License fields are parsed by the matching format parser (see formatParsers.ts)
+   * Optional: ||IMG|| separator followed by image data
+   */
+  private parseMadagascarFormat(decompressedData: Uint8Array, decompressionMethod: string, context: DecodeContext): DecodeSuccess {
+            try {
+            // FIRST: Check for binary ||IMG|| separator (preserves JPEG integrity)
+            const imageSeparator = encodeUtf8("||IMG||");
+            const binaryImageSeparatorIndex = this.findBytes(decompressedData, imageSeparator);
+            
+            let licenseDataBytes: Uint8Array;
+            let imageBytes: Uint8Array = new Uint8Array(0);
+            let hasImage = false;
+            let imageMethod: string | undefined;
+            let imageError: DecodeError | undefined;
+            let extractedImage: ExtractedImage | undefined;
+            
+            if (binaryImageSeparatorIndex !== -1) {
+                this.logger.debug(`🖼️ Found ||IMG|| separator at binary position ${binaryImageSeparatorIndex}`);
+                hasImage = true;
+                
+                // Split at binary level to preserve JPEG data
+                licenseDataBytes = decompressedData.slice(0, binaryImageSeparatorIndex);
+                const rawImageBytes = decompressedData.slice(binaryImageSeparatorIndex + imageSeparator.length);
+                
+                this.logger.debug(`📄 License data: ${licenseDataBytes.length} bytes`);
+                this.logger.debug(`📸 Raw image data: ${rawImageBytes.length} bytes`);
+                
+                try {
+                  extractedImage = context.tracer.run('image', 'extract_image', rawImageBytes, step => {
+                    if (rawImageBytes.length > this.limits.maxImageSize) {
+                      throw new DecodeError('IMAGE_TOO_LARGE', `Embedded image is ${rawImageBytes.length} bytes, over the ${this.limits.maxImageSize} byte limit`, { offset: binaryImageSeparatorIndex + imageSeparator.length });
+                    }
+                    const extracted = this.extractImage(rawImageBytes, step);
+                    imageMethod = step.method;
+                    return extracted;
+                  }, extracted => extracted.bytes);
+                  imageBytes = extractedImage.bytes;
+                } catch (error) {
+                  // Image limits only cost the photo - the license fields are still decoded
+                  if (!(error instanceof DecodeError) || error.stage !== 'image') {
+                    throw error;
+                  }
+                  imageError = error;
+                }
+            } else {
+                this.logger.debug("🔍 No binary ||IMG|| separator found, treating all as license data");
+                licenseDataBytes = decompressedData;
+            }
+      
+      // Signed variant: split the ||SIG|| block off the license text
+      const signatureSplit = splitSignatureBlock(licenseDataBytes);
+      const signatureBlockLength = licenseDataBytes.length - signatureSplit.licenseBytes.length;
+      licenseDataBytes = signatureSplit.licenseBytes;
+      let signature: SignatureCheck = { status: 'unsigned' };
+      if (signatureSplit.block) {
+        signature = { status: 'unverified', key_id: signatureSplit.block.keyId };
+        this.logger.debug(`🔏 Signed payload (key '${signatureSplit.block.keyId}')`);
+      } else if (signatureSplit.error) {
+        signature = { status: 'invalid', problem: 'malformed_block', reason: signatureSplit.error };
+        this.logger.warn(`⚠️ ${signatureSplit.error}`);
+      }
+      
+      // Decode the license text (UTF-8, or Latin-1 when it is not valid UTF-8)
+      const licenseText = decodeLicenseText(licenseDataBytes);
+      this.logger.debug(`License data string (${licenseText.encoding}): ${licenseText.text}`);
+      
+      // Parse with the matching format parser - it skips null bytes itself so field offsets stay exact
+      const cleanedStr = licenseText.text.replace(/\0/g, '').trim();
+      context.partial.license_text = cleanedStr;
+      const { parser, licenseData, score, layout } = context.tracer.run('parse', 'format_parser', cleanedStr, step => {
+        const parsed = this.formatRegistry.parse(licenseText.text, licenseText.encoding);
+        step.method = parsed.parser.id;
+        if (this.mode === 'strict' && parsed.score < 1) {
+          const { fieldCount } = parsed;
+          throw fieldCount !== parsed.parser.fieldLayout.length
+            ? new DecodeError('FIELD_COUNT', `Expected ${parsed.parser.fieldLayout.length} fields, got ${fieldCount} (strict mode)`, { offset: licenseDataBytes.length })
+            : new DecodeError('UNKNOWN_FORMAT', `License data does not fully match format '${parsed.parser.id}' (strict mode)`, { offset: 0 });
+        }
+        return parsed;
+      });
+      const decodeMethod: DecodeMethod = {
+        decompression: decompressionMethod,
+        parse: score >= 1 ? 'exact' : 'loose',
+        image: imageMethod
+      };
+      this.logger.debug(`📐 Parsed with format parser '${parser.id}':`, licenseData);
+      if (layout.trailing) {
+        this.logger.warn(`⚠️ Ignored ${layout.trailing.end - layout.trailing.start} bytes of trailing data after the license fields`);
+      }
+      
+      // Build result object
+      const result: DecodeSuccess = {
+        success: true,
+        license_data: licenseData,
+        has_image: hasImage,
+        image_size_bytes: imageBytes.length,
+        total_payload_size: decompressedData.length,
+        decoding_format: "pipe_delimited_xor_encrypted",
+        format_parser: parser.id,
+        text_layout: layout,
+        validation: this.validator.validate(licenseData),
+        validity: computeValidity(licenseData, this.asOf),
+        decode_mode: this.mode,
+        decode_method: decodeMethod,
+        confidence: 'high',
+        confidence_notes: [],
+        signature,
+        message: `Madagascar license decoded successfully: ${licenseData.license_number}`
+      };
+      
+      if (signatureSplit.block) {
+        // The signature covers the payload as it was before the block was inserted
+        const signedData = new Uint8Array(decompressedData.length - signatureBlockLength);
+        signedData.set(licenseDataBytes, 0);
+        signedData.set(decompressedData.subarray(licenseDataBytes.length + signatureBlockLength), licenseDataBytes.length);
+        this.signedPayloads.set(result, { data: signedData, block: signatureSplit.block });
+      }
+      
+      if (!result.validation.valid) {
+        this.logger.warn("⚠️ License data failed validation:", result.validation.issues);
+      }
+
+      
+      // Add image data if present
+      if (hasImage && imageBytes.length > 0) {
+        result.image_base64 = bytesToBase64(imageBytes);
+        
+        // Try to determine image format
+        this.logger.debug("🔍 Image format detection:");
+        this.logger.debug("First 10 bytes:", Array.from(imageBytes.slice(0, 10)).map(b => `0x${b.toString(16)}`).join(' '));
+        
+        // Check for JPEG (multiple possible signatures)
+        if (imageBytes.length >= 3 && 
+            imageBytes[0] === 0xff && imageBytes[1] === 0xd8 && imageBytes[2] === 0xff) {
+          result.image_format = "JPEG";
+          this.logger.debug("✅ Detected JPEG format (standard header)");
+        } else if (imageBytes.length >= 4 && 
+                   imageBytes[0] === 0x89 && imageBytes[1] === 0x50 && 
+                   imageBytes[2] === 0x4e && imageBytes[3] === 0x47) {
+          result.image_format = "PNG";
+          this.logger.debug("✅ Detected PNG format");
+        } else {
+          // Check if it starts with JFIF text (JPEG File Interchange Format)
+          const imageText = decodeUtf8(imageBytes.slice(0, 10));
+          if (imageText.startsWith('JFIF')) {
+            result.image_format = "JPEG";
+            this.logger.debug("✅ Detected JPEG format (JFIF header)");
+          } else {
+            result.image_format = "Unknown";
+            this.logger.debug("❓ Unknown image format, first text:", imageText);
+          }
+        }
+      }
+      if (extractedImage?.inspection) {
+        result.image_inspection = extractedImage.inspection;
+      }
+      if (extractedImage && extractedImage.repairs.length > 0) {
+        result.image_repairs = extractedImage.repairs;
+      }
+      if (extractedImage?.decodes !== undefined) {
+        result.image_decodes = extractedImage.decodes;
+      }
+
+      // A damaged photo does not invalidate the license fields - report it alongside them
+      if (hasImage && !imageError && (imageBytes.length === 0 || result.image_format === "Unknown")) {
+        imageError = new DecodeError(
+          'IMAGE_CORRUPT',
+          imageBytes.length === 0 ? "Image separator found but no image data follows it" : "Embedded image is not a recognised JPEG or PNG",
+          { offset: binaryImageSeparatorIndex + imageSeparator.length }
+        );
+      } else if (hasImage && !imageError && result.image_inspection && !result.image_inspection.structurallyComplete) {
+        imageError = new DecodeError(
+          'IMAGE_CORRUPT',
+          `Embedded JPEG is structurally broken: ${result.image_inspection.problems[0] ?? "damaged structure"}`,
+          { offset: binaryImageSeparatorIndex + imageSeparator.length }
+        );
+      } else if (hasImage && !imageError && result.image_decodes === false) {
+        imageError = new DecodeError(
+          'IMAGE_CORRUPT',
+          "Embedded JPEG does not decode and could not be repaired",
+          { offset: binaryImageSeparatorIndex + imageSeparator.length }
+        );
+      } else if (hasImage && !imageError && result.image_inspection && !result.image_inspection.hasEndMarker && !result.image_repairs) {
+        imageError = new DecodeError(
+          'IMAGE_CORRUPT',
+          "Embedded JPEG is cut off and was not repaired",
+          { offset: binaryImageSeparatorIndex + imageSeparator.length }
+        );
+      }
+      if (imageError) {
+        this.logger.warn(`⚠️ ${imageError.message}`);
+        result.image_error = imageError.toJSON();
+      }
+      
+      return result;
+      
+    } catch (error) {
+      throw toDecodeError(error, 'parse');
+    }
+  }
+
+  /**
+   * Downgrade confidence for every part of the result that did not come from a clean decode
+   */
+  private assessConfidence(result: DecodeSuccess): void {
+    const { decompression, parse, image } = result.decode_method;
+    const notes: Array<[DecodeConfidence, ConfidenceNote]> = [];
+    
+    if (decompression.startsWith('text_pattern') || decompression === 'readable_text') {
+      notes.push(['low', { code: 'SCRAPED_TEXT', message: "License text was scraped from data that did not decompress - fields may be made up" }]);
+    }
+    if (result.recovery) {
+      const { truncated_field, missing_fields, photo } = result.recovery;
+      const lostFields = [...(truncated_field ? [truncated_field] : []), ...missing_fields];
+      if (lostFields.length > 0) {
+        notes.push(['low', {
+          code: 'FIELDS_CUT_OFF',
+          message: `Payload was cut off: ${lostFields.join(', ')} ${lostFields.length === 1 ? 'is' : 'are'} incomplete`,
+          params: { fields: lostFields.join(', ') }
+        }]);
+      } else {
+        notes.push(['medium', { code: 'PHOTO_CUT_OFF', message: `Payload was cut off after the license fields (photo ${photo})`, params: { photo } }]);
+      }
+    }
+    if (parse === 'loose') {
+      notes.push(['medium', { code: 'LOOSE_PARSE', message: "Fields did not fully match the format; missing fields were left empty" }]);
+    }
+    if (image === 'pipe_reconstruction') {
+      notes.push(['medium', { code: 'PHOTO_RECONSTRUCTED', message: "Photo was reconstructed from pipe-separated data" }]);
+    } else if (result.image_repairs) {
+      notes.push(['medium', { code: 'PHOTO_REPAIRED', message: `Photo was repaired: ${result.image_repairs.map(repair => repair.message).join('; ')}` }]);
+    }
+    if (result.image_error) {
+      notes.push(['medium', { code: 'PHOTO_DAMAGED', message: result.image_error.message, params: { error: result.image_error.code } }]);
+    }
+    
+    result.confidence = notes.some(([level]) => level === 'low') ? 'low' : notes.length > 0 ? 'medium' : 'high';
+    result.confidence_notes = notes.map(([, note]) => note);
+    if (result.confidence !== 'high') {
+      this.logger.warn(`⚠️ ${result.confidence} confidence decode:`, result.confidence_notes.map(note => note.message));
+    }
+  }
+
+  /**
+   * Get the photo bytes that follow the ||IMG|| separator
+   * JPEG repairs and pipe-separated JFIF reconstruction are only used when jpegDecodeCheck renders the result
+   */
+  private extractImage(rawImageBytes: Uint8Array, step: TraceStep): ExtractedImage {
+    step.method = 'raw';
+    
+    const isJpeg = rawImageBytes.length >= 2 && rawImageBytes[0] === 0xFF && rawImageBytes[1] === 0xD8;
+    if (isJpeg) {
+      this.logger.debug("✅ Valid JPEG signature found! (0xFF 0xD8)");
+      step.method = 'binary';
+    } else if (rawImageBytes.length > 0) {
+      this.logger.warn(`⚠️ No JPEG signature. First bytes: [${Array.from(rawImageBytes.slice(0, 10)).map(b => '0x' + b.toString(16).padStart(2, '0')).join(', ')}]`);
+    }
+    
+    const headerText = decodeUtf8(rawImageBytes.slice(0, 20));
+    const isPipeJfif = !isJpeg && headerText.includes('JFIF') && headerText.includes('|');
+    if (!isJpeg && !isPipeJfif) {
+      // Not a JPEG at all (PNG, or damaged) - nothing to inspect
+      return { bytes: rawImageBytes, repairs: [] };
+    }
+    
+    const inspection = inspectJpeg(rawImageBytes);
+    this.logger.debug(`🔬 JPEG inspection: ${inspection.segments.map(segment => segment.name).join(' ')}`, inspection.problems);
+    const decodeCheck = this.jpegDecodeCheck;
+    const decodes = decodeCheck && inspection.structurallyComplete ? decodeCheck(rawImageBytes) : undefined;
+    if (inspection.structurallyComplete && inspection.hasEndMarker && decodes !== false) {
+      return { bytes: rawImageBytes, inspection, repairs: [], decodes };
+    }
+    if (!decodeCheck) {
+      // A repair that is not seen to render is only a guess - keep the bytes as they are
+      this.logger.debug("⚠️ No JPEG decode check configured, not repairing the photo");
+      return { bytes: rawImageBytes, inspection, repairs: [] };
+    }
+    
+    const repair = repairJpeg(rawImageBytes, decodeCheck);
+    if (repair) {
+      this.logger.debug("🩹 JPEG repaired:", repair.repairs.map(item => item.message));
+      step.method = 'repaired';
+      return { bytes: repair.bytes, inspection: repair.inspection, repairs: repair.repairs, decodes: true };
+    }
+    
+    if (isPipeJfif) {
+      this.logger.debug("🔧 Found pipe-separated JFIF format, trying reconstruction...");
+      const deadline = performance.now() + this.limits.heuristicTimeBudgetMs;
+      const imageText = decodeUtf8(rawImageBytes);
+      const reconstructedBytes = this.reconstructJpegFromPipes(imageText);
+      this.checkTimeBudget(deadline, 'image');
+      
+      const reconstructed = inspectJpeg(reconstructedBytes);
+      if (reconstructed.structurallyComplete && decodeCheck(reconstructedBytes)) {
+        this.logger.debug(`✅ Reconstructed JPEG decodes: ${reconstructedBytes.length} bytes`);
+        step.method = 'pipe_reconstruction';
+        return { bytes: reconstructedBytes, inspection: reconstructed, repairs: [{ code: 'REBUILT_FROM_PIPES', message: "Rebuilt the JPEG from pipe-separated data" }], decodes: true };
+      }
+      this.logger.warn("⚠️ Pipe reconstruction does not produce a JPEG that decodes, keeping the original bytes");
+    }
+    
+    // Keep the bytes as they are - the inspection explains what is wrong
+    return { bytes: rawImageBytes, inspection, repairs: [], decodes: decodes ?? false };
+  }
+
+  /**
+   * Reconstruct a JPEG from pipe-separated format
+   */
+  private reconstructJpegFromPipes(imageText: string): Uint8Array {
+    this.logger.debug("🔧 Reconstructing JPEG from pipe-separated data...");
+    this.logger.debug(`📋 Input text preview: ${imageText.substring(0, 100)}...`);
+    
+    // ALTERNATIVE APPROACH: Convert the entire pipe-separated string back to original bytes
+    // The pipe-separated format seems to be corrupting the original JPEG data
+    
+    this.logger.debug("🔄 Method: Converting entire string as character codes");
+    const jpegBytes: number[] = [];
+    
+    // Convert the entire string character by character, treating pipes as literal data
+    for (let i = 0; i < imageText.length; i++) {
+      const charCode = imageText.charCodeAt(i);
+      jpegBytes.push(charCode & 0xFF);
+    }
+    
+    this.logger.debug(`🔧 Raw conversion: ${jpegBytes.length} bytes`);
+    this.logger.debug(`📋 First 20 bytes: [${jpegBytes.slice(0, 20).map(b => '0x' + b.toString(16).padStart(2, '0')).join(', ')}]`);
+    this.logger.debug(`📋 Last 10 bytes: [${jpegBytes.slice(-10).map(b => '0x' + b.toString(16).padStart(2, '0')).join(', ')}]`);
+    
+    // Check if this produces a valid JPEG
+    if (jpegBytes.length >= 2 && jpegBytes[0] === 0x4A && jpegBytes[1] === 0x46) { // "JF"
+      this.logger.debug("🔍 Starts with 'JFIF' text - this is the pipe-separated format");
+      
+      // NEW APPROACH: Extract raw JPEG data between specific markers
+      this.logger.debug("🔄 Method 3: Raw JPEG extraction (bypass pipe parsing)");
+      
+      // The format seems to be: "JFIF|C|\n|\r|<compressed_jpeg_data>"
+      // Look for the pattern after the initial markers
+      const textStr = imageText;
+      
+      // Find where the actual JPEG data starts (after JFIF|C|CR|LF markers)
+      let dataStartPattern = "JFIF|C|\n|\r|";
+      let dataStartIndex = textStr.indexOf(dataStartPattern);
+      
+      if (dataStartIndex === -1) {
+        // Try alternative patterns
+        dataStartPattern = "JFIF|C|";
+        dataStartIndex = textStr.indexOf(dataStartPattern);
+        if (dataStartIndex !== -1) {
+          dataStartIndex += dataStartPattern.length;
+          // Skip any pipe characters that follow
+          while (dataStartIndex < textStr.length && textStr[dataStartIndex] === '|') {
+            dataStartIndex++;
+          }
+        }
+      } else {
+        dataStartIndex += dataStartPattern.length;
+      }
+      
+      if (dataStartIndex !== -1 && dataStartIndex < textStr.length) {
+        this.logger.debug(`🎯 Found JPEG data start at position ${dataStartIndex}`);
+        
+        // Extract everything from this point as potential JPEG data
+        const rawJpegText = textStr.substring(dataStartIndex);
+        this.logger.debug(`📋 Raw JPEG text preview: ${rawJpegText.substring(0, 50)}...`);
+        this.logger.debug(`📊 Raw JPEG text length: ${rawJpegText.length} chars`);
+        
+        // Convert to bytes and add proper JPEG headers
+        const rawJpegBytes: number[] = [];
+        
+        // Add JPEG SOI
+        rawJpegBytes.push(0xFF, 0xD8);
+        
+        // Add JFIF APP0 marker
+        rawJpegBytes.push(0xFF, 0xE0, 0x00, 0x10); // APP0 + length
+        rawJpegBytes.push(0x4A, 0x46, 0x49, 0x46, 0x00); // "JFIF\0"
+        rawJpegBytes.push(0x01, 0x01, 0x01); // Version + units
+        rawJpegBytes.push(0x00, 0x48, 0x00, 0x48); // X/Y density
+        rawJpegBytes.push(0x00, 0x00); // Thumbnail size
+        
+        // Add the raw data (treating each character as a byte)
+        for (let i = 0; i < rawJpegText.length; i++) {
+          rawJpegBytes.push(rawJpegText.charCodeAt(i) & 0xFF);
+        }
+        
+        // Ensure proper ending
+        if (rawJpegBytes.length >= 2 && 
+            !(rawJpegBytes[rawJpegBytes.length-2] === 0xFF && rawJpegBytes[rawJpegBytes.length-1] === 0xD9)) {
+          rawJpegBytes.push(0xFF, 0xD9);
+        }
+        
+        this.logger.debug(`🔧 Raw extraction result: ${rawJpegBytes.length} bytes`);
+        this.logger.debug(`📋 Raw extraction first bytes: [${rawJpegBytes.slice(0, 10).map(b => '0x' + b.toString(16).padStart(2, '0')).join(', ')}]`);
+        this.logger.debug(`📋 Raw extraction last bytes: [${rawJpegBytes.slice(-6).map(b => '0x' + b.toString(16).padStart(2, '0')).join(', ')}]`);
+        
+        const rawResult = new Uint8Array(rawJpegBytes);
+        
+        // Test if this produces a larger, more realistic JPEG
+        if (rawResult.length > 500) {
+          this.logger.debug("✅ Raw extraction produced larger JPEG, using this method");
+          return rawResult;
+        } else {
+          this.logger.warn("⚠️ Raw extraction still too small, trying embedded search");
+        }
+      }
+      
+      // Original embedded search fallback
+      let jpegStartPos = -1;
+      for (let i = 10; i < jpegBytes.length - 1; i++) {
+        if (jpegBytes[i] === 0xFF && jpegBytes[i + 1] === 0xD8) {
+          jpegStartPos = i;
+          break;
+        }
+      }
+      
+      if (jpegStartPos !== -1) {
+        this.logger.debug(`🎯 Found embedded JPEG at position ${jpegStartPos}`);
+        const extractedJpeg = jpegBytes.slice(jpegStartPos);
+        this.logger.debug(`📋 Extracted JPEG first bytes: [${extractedJpeg.slice(0, 10).map(b => '0x' + b.toString(16).padStart(2, '0')).join(', ')}]`);
+        return new Uint8Array(extractedJpeg);
+      } else {
+        this.logger.warn("⚠️ No embedded JPEG signature found, trying manual reconstruction");
+        return this.manualJpegReconstruction(imageText);
+      }
+    } else if (jpegBytes.length >= 2 && jpegBytes[0] === 0xFF && jpegBytes[1] === 0xD8) {
+      this.logger.debug("✅ Direct conversion produced valid JPEG!");
+      return new Uint8Array(jpegBytes);
+    } else {
+      this.logger.warn("⚠️ Direct conversion failed, trying manual reconstruction");
+      return this.manualJpegReconstruction(imageText);
+    }
+  }
+
+  private manualJpegReconstruction(imageText: string): Uint8Array {
+    this.logger.debug("🔧 Manual JPEG reconstruction...");
+    
+    // Split by pipes and filter empty parts
+    const parts = imageText.split('|').filter(part => part.length > 0);
+    this.logger.debug(`📊 Found ${parts.length} pipe-separated parts`);
+    this.logger.debug(`📋 First 10 parts: ${parts.slice(0, 10).join(', ')}`);
+    
+    // Start building JPEG byte array
+    const jpegBytes: number[] = [];
+    
+    // Add JPEG header (SOI - Start of Image)
+    jpegBytes.push(0xFF, 0xD8);
+    
+    // Add JFIF APP0 marker (since we see JFIF in the data)
+    jpegBytes.push(0xFF, 0xE0); // APP0 marker
+    jpegBytes.push(0x00, 0x10); // Length: 16 bytes
+    jpegBytes.push(0x4A, 0x46, 0x49, 0x46, 0x00); // "JFIF\0"
+    jpegBytes.push(0x01, 0x01); // Version 1.1
+    jpegBytes.push(0x01); // Units: inches
+    jpegBytes.push(0x00, 0x48, 0x00, 0x48); // X/Y density: 72 DPI
+    jpegBytes.push(0x00, 0x00); // Thumbnail width/height: 0
+    
+    // Process each part, skipping the JFIF and C markers we already handled
+    for (let i = 0; i < parts.length; i++) {
+      const part = parts[i];
+      
+      if (part === 'JFIF' || part === 'C') {
+        // Skip these as we've already added proper JFIF header
+        continue;
+      } else if (part.length === 1) {
+        // Single character - convert directly
+        jpegBytes.push(part.charCodeAt(0) & 0xFF);
+      } else if (part.length === 2 && /^[0-9A-Fa-f]+$/.test(part)) {
+        // Two-character hex
+        jpegBytes.push(parseInt(part, 16));
+      } else if (part.length > 2 && /^[0-9A-Fa-f]+$/.test(part) && part.length % 2 === 0) {
+        // Multi-character hex
+        for (let j = 0; j < part.length; j += 2) {
+          jpegBytes.push(parseInt(part.substr(j, 2), 16));
+        }
+      } else {
+        // Multi-character string - convert each character
+        for (let j = 0; j < part.length; j++) {
+          jpegBytes.push(part.charCodeAt(j) & 0xFF);
+        }
+      }
+    }
+    
+    // Add JPEG footer (EOI - End of Image) if not present
+    if (jpegBytes.length >= 2 && !(jpegBytes[jpegBytes.length-2] === 0xFF && jpegBytes[jpegBytes.length-1] === 0xD9)) {
+      jpegBytes.push(0xFF, 0xD9);
+    }
+    
+    this.logger.debug(`🔧 Manual reconstruction: ${jpegBytes.length} bytes`);
+    this.logger.debug(`📋 First 10 bytes: [${jpegBytes.slice(0, 10).map(b => '0x' + b.toString(16).padStart(2, '0')).join(', ')}]`);
+    this.logger.debug(`📋 Last 10 bytes: [${jpegBytes.slice(-10).map(b => '0x' + b.toString(16).padStart(2, '0')).join(', ')}]`);
+    
+    return new Uint8Array(jpegBytes);
+  }
+
+  /**
+   * Find byte sequence in array
+   */
+  private findBytes(haystack: Uint8Array, needle: Uint8Array): number {
+    for (let i = 0; i <= haystack.length - needle.length; i++) {
+      let found = true;
+      for (let j = 0; j < needle.length; j++) {
+        if (haystack[i + j] !== needle[j]) {
+          found = false;
+          break;
+        }
+      }
+      if (found) {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Test with a known working sample
+   */
+  public testWithKnownSample(): DecodedResult {
+    // Create a test sample that should work
+    this.logger.debug("🧪 Testing with constructed sample...");
+    
+    // Encode test license data with the real encoder
+    const testData: EncodableLicense = {
+      person_name: "J DOE",
+      id_number: "123456789012",
+      date_of_birth: "1980-01-15",
+      license_number: "LIC1234567890",
+      valid_from: "2020-01-01",
+      valid_to: "2025-01-01",
+      license_codes: ["B", "C"],
+      vehicle_restrictions: [],
+      driver_restrictions: [],
+      sex: "M",
+      country: "MG",
+      format_version: "standardized_madagascar_v5"
+    };
+    const { hex } = new MadagascarLicenseEncoder(this.keyring).encode(testData);
+    this.logger.debug("Generated hex:", hex);
+    
+    // Now try to decode it
+    return this.decodeBarcodeData(hex);
+  }
+}
\ No newline at end of file
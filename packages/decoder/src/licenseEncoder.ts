@@ -0,0 +1,164 @@
+import { deflate } from 'pako';
+import { LicenseKeyring, xorWithKey } from './keyring';
+import { formatSignatureBlock, PayloadSigner, signLicensePayload } from './licenseSignature';
+import { escapeField } from './v5Tokenizer';
+import { encodeUtf8 } from './textCodec';
+import type { LicenseData } from './licenseDecoder';
+
+/**
+ * License data as it goes into a barcode - the name parts are derived from person_name on decode
+ */
+export type EncodableLicense = Omit<LicenseData, 'person_initials' | 'person_surname'>;
+
+export interface EncodeOptions {
+  keyId?: string;       // Keyring key to encrypt with (default: first key)
+  skipXor?: boolean;    // Produce an unencrypted (zlib only) payload
+}
+
+export interface EncodedLicense {
+  payload: Uint8Array;    // Pipe-delimited v5 payload (with optional ||SIG|| signature and ||IMG|| photo)
+  compressed: Uint8Array; // zlib level 9
+  encrypted: Uint8Array;  // Bytes that go into the PDF417 barcode
+  hex: string;            // Hex form of the barcode bytes (manual input / Python decoder)
+  key_id?: string;
+  signing_key_id?: string; // Only for signed payloads
+}
+
+/**
+ * Madagascar Driver's License Barcode Encoder
+ * Inverse of MadagascarLicenseDecoder: builds, compresses and encrypts the
+ * standardized v5 payload (rendering the PDF417 symbol is left to the app)
+ */
+export class MadagascarLicenseEncoder {
+  private static readonly IMAGE_SEPARATOR = "||IMG||";
+
+  private readonly keyring: LicenseKeyring;
+
+  constructor(keyring: LicenseKeyring = LicenseKeyring.createDefault()) {
+    this.keyring = keyring;
+  }
+
+  /**
+   * Encode license data (and optional photo) into barcode bytes
+   */
+  public encode(licenseData: EncodableLicense, photo?: Uint8Array, options: EncodeOptions = {}): EncodedLicense {
+    return this.pack(this.buildPayload(licenseData, photo), options);
+  }
+
+  /**
+   * Encode license data (and optional photo) as a signed payload
+   * The signature covers the unsigned payload; the ||SIG|| block goes between the license fields and ||IMG||
+   */
+  public async encodeSigned(licenseData: EncodableLicense, signer: PayloadSigner, photo?: Uint8Array, options: EncodeOptions = {}): Promise<EncodedLicense> {
+    const signature = await signLicensePayload(this.buildPayload(licenseData, photo), signer);
+    return this.encodeWithSignature(licenseData, signer.keyId, signature, photo, options);
+  }
+
+  /**
+   * Encode with a signature made elsewhere (e.g. an HSM) over buildPayload(licenseData, photo)
+   */
+  public encodeWithSignature(licenseData: EncodableLicense, keyId: string, signature: Uint8Array, photo?: Uint8Array, options: EncodeOptions = {}): EncodedLicense {
+    const signedText = this.concat(this.buildLicenseText(licenseData), formatSignatureBlock(keyId, signature));
+    return { ...this.pack(this.withPhoto(signedText, photo), options), signing_key_id: keyId };
+  }
+
+  /**
+   * Compress and encrypt a finished payload
+   */
+  private pack(payload: Uint8Array, options: EncodeOptions): EncodedLicense {
+    const compressed = deflate(payload, { level: 9 });
+
+    let encrypted: Uint8Array = compressed;
+    let keyId: string | undefined;
+    if (!options.skipXor) {
+      const key = this.findKey(options.keyId);
+      encrypted = xorWithKey(compressed, key.key);
+      keyId = key.id;
+    }
+
+    return {
+      payload,
+      compressed,
+      encrypted,
+      hex: Array.from(encrypted).map(b => b.toString(16).padStart(2, '0')).join(''),
+      key_id: keyId
+    };
+  }
+
+  /**
+   * Build the pipe-delimited v5 payload
+   * Format: Name|ID|DOB|LicenseNum|ValidFrom-ValidTo|Codes|VehicleRestr|DriverRestr|Sex
+   * Optional: ||IMG|| separator followed by image data
+   */
+  public buildPayload(licenseData: EncodableLicense, photo?: Uint8Array): Uint8Array {
+    return this.withPhoto(this.buildLicenseText(licenseData), photo);
+  }
+
+  private buildLicenseText(licenseData: EncodableLicense): Uint8Array {
+    const fields = [
+      this.escape(licenseData.person_name),
+      this.escape(licenseData.id_number),
+      this.toCompactDate('date_of_birth', licenseData.date_of_birth),
+      this.escape(licenseData.license_number),
+      `${this.toCompactDate('valid_from', licenseData.valid_from)}-${this.toCompactDate('valid_to', licenseData.valid_to)}`,
+      this.joinList('license_codes', licenseData.license_codes),
+      this.joinList('vehicle_restrictions', licenseData.vehicle_restrictions),
+      this.joinList('driver_restrictions', licenseData.driver_restrictions),
+      this.escape(licenseData.sex)
+    ];
+
+    return encodeUtf8(fields.join('|'));
+  }
+
+  private withPhoto(licenseBytes: Uint8Array, photo?: Uint8Array): Uint8Array {
+    if (!photo || photo.length === 0) {
+      return licenseBytes;
+    }
+    return this.concat(licenseBytes, encodeUtf8(MadagascarLicenseEncoder.IMAGE_SEPARATOR), photo);
+  }
+
+  private concat(...parts: Uint8Array[]): Uint8Array {
+    const output = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+      output.set(part, offset);
+      offset += part.length;
+    }
+    return output;
+  }
+
+  private findKey(keyId?: string) {
+    const keys = this.keyring.list();
+    const key = keyId ? keys.find(k => k.id === keyId) : keys[0];
+    if (!key) {
+      throw new Error(keyId ? `Unknown encryption key ID: ${keyId}` : "Keyring has no encryption keys");
+    }
+    return key;
+  }
+
+  /**
+   * Fields are pipe-delimited - pipes and backslashes in a value are escaped (see v5Tokenizer.ts)
+   */
+  private escape(value: string): string {
+    return escapeField(value ?? '');
+  }
+
+  private joinList(name: string, values: string[]): string {
+    const items = (values ?? []).map(value => this.escape(value));
+    if (items.some(item => item.includes(','))) {
+      throw new Error(`Field ${name} entries must not contain ','`);
+    }
+    return items.join(',');
+  }
+
+  /**
+   * Format date from YYYY-MM-DD (decoder output) back to YYYYMMDD
+   */
+  private toCompactDate(name: string, dateStr: string): string {
+    const compact = this.escape(dateStr).replace(/-/g, '');
+    if (compact && !/^\d{8}$/.test(compact)) {
+      throw new Error(`Field ${name} must be a YYYY-MM-DD or YYYYMMDD date: ${dateStr}`);
+    }
+    return compact;
+  }
+}
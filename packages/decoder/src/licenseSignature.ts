@@ -0,0 +1,183 @@
+import { base64ToBytes, bytesToBase64, decodeLatin1, encodeUtf8 } from './textCodec';
+import type { SignatureAlgorithm, TrustStore } from './trustStore';
+
+/**
+ * Signed payload variant:
+ *   Name|ID|...|Sex||SIG||<key id>:<base64 signature>||IMG||<photo>
+ * The signature covers the payload without the ||SIG|| block - the license fields plus ||IMG|| and the photo
+ * bytes - so anyone holding the XOR key can still read a signed license but cannot forge one
+ */
+export const SIGNATURE_SEPARATOR = "||SIG||";
+
+/**
+ * authentic: signed with a trust store key and the signature matches
+ * unsigned: no signature block (XOR-only barcode)
+ * unknown_issuer: signed with a key that is not in the trust store - cannot be checked on this device
+ * invalid: signature does not match the data or photo, or the signature block is malformed
+ * unverified: signed but not checked (decode() without verification, or WebCrypto lacks the algorithm)
+ */
+export type SignatureStatus = 'authentic' | 'unsigned' | 'unknown_issuer' | 'invalid' | 'unverified';
+
+/**
+ * Why a signature is invalid or unverified (reason is the English wording)
+ */
+export type SignatureProblem = 'malformed_block' | 'wrong_length' | 'mismatch' | 'check_failed' | 'no_webcrypto' | 'key_unusable';
+
+export interface SignatureCheck {
+  status: SignatureStatus;
+  key_id?: string;                 // Key named in the signature block
+  algorithm?: SignatureAlgorithm;  // From the trust store - never taken from the payload
+  issuer?: string;                 // Trust store label of the key
+  problem?: SignatureProblem;
+  reason?: string;                 // Why the signature is not authentic, for logs and the CLI
+}
+
+export interface SignatureBlock {
+  keyId: string;
+  signature: Uint8Array;
+}
+
+/**
+ * License text bytes with the signature block split off
+ */
+export interface SplitLicenseText {
+  licenseBytes: Uint8Array;
+  block?: SignatureBlock;
+  error?: string;                  // A ||SIG|| block was present but could not be read (problem: malformed_block)
+}
+
+/**
+ * WebCrypto CryptoKey - typed structurally so the package does not need DOM typings
+ */
+export type WebCryptoKey = object;
+
+export interface PayloadSigner {
+  keyId: string;                   // Trust store ID of the matching public key
+  algorithm: SignatureAlgorithm;
+  privateKey: WebCryptoKey;        // Private key with the 'sign' usage
+}
+
+/**
+ * The part of SubtleCrypto used here (browsers, workers, Node 20+)
+ */
+interface SubtleCryptoLike {
+  importKey(format: 'spki', keyData: Uint8Array, algorithm: object, extractable: boolean, keyUsages: string[]): Promise<WebCryptoKey>;
+  sign(algorithm: object, key: WebCryptoKey, data: Uint8Array): Promise<ArrayBuffer>;
+  verify(algorithm: object, key: WebCryptoKey, signature: Uint8Array, data: Uint8Array): Promise<boolean>;
+}
+
+const ALGORITHM_PARAMS: Record<SignatureAlgorithm, { key: object; sign: object; signatureLength: number }> = {
+  'Ed25519': { key: { name: 'Ed25519' }, sign: { name: 'Ed25519' }, signatureLength: 64 },
+  'ECDSA-P256': { key: { name: 'ECDSA', namedCurve: 'P-256' }, sign: { name: 'ECDSA', hash: 'SHA-256' }, signatureLength: 64 }
+};
+
+const SIGNATURE_BLOCK_PATTERN = /^([A-Za-z0-9._-]+):([A-Za-z0-9+/]+={0,2})$/;
+
+function getSubtleCrypto(): SubtleCryptoLike | undefined {
+  return (globalThis as unknown as { crypto?: { subtle?: SubtleCryptoLike } }).crypto?.subtle;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function lastIndexOfBytes(haystack: Uint8Array, needle: Uint8Array): number {
+  for (let i = haystack.length - needle.length; i >= 0; i--) {
+    let found = true;
+    for (let j = 0; j < needle.length; j++) {
+      if (haystack[i + j] !== needle[j]) {
+        found = false;
+        break;
+      }
+    }
+    if (found) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Split the signature block off the end of the license text (the bytes before ||IMG||)
+ */
+export function splitSignatureBlock(licenseBytes: Uint8Array): SplitLicenseText {
+  const separator = encodeUtf8(SIGNATURE_SEPARATOR);
+  const index = lastIndexOfBytes(licenseBytes, separator);
+  if (index === -1) {
+    return { licenseBytes };
+  }
+
+  const text = decodeLatin1(licenseBytes.slice(index + separator.length)).replace(/\0/g, '').trim();
+  const stripped = licenseBytes.slice(0, index);
+  const match = SIGNATURE_BLOCK_PATTERN.exec(text);
+  if (!match) {
+    return { licenseBytes: stripped, error: "Signature block is not '<key id>:<base64 signature>'" };
+  }
+  try {
+    return { licenseBytes: stripped, block: { keyId: match[1], signature: base64ToBytes(match[2]) } };
+  } catch (error) {
+    return { licenseBytes: stripped, error: `Signature is not valid base64: ${errorMessage(error)}` };
+  }
+}
+
+/**
+ * Encoded ||SIG|| block to append to the license text
+ */
+export function formatSignatureBlock(keyId: string, signature: Uint8Array): Uint8Array {
+  if (!/^[A-Za-z0-9._-]+$/.test(keyId)) {
+    throw new Error(`Signing key ID must be letters, digits, '.', '_' or '-': ${keyId}`);
+  }
+  return encodeUtf8(`${SIGNATURE_SEPARATOR}${keyId}:${bytesToBase64(signature)}`);
+}
+
+/**
+ * Sign an unsigned payload (license fields plus ||IMG|| photo) with WebCrypto
+ */
+export async function signLicensePayload(payload: Uint8Array, signer: PayloadSigner): Promise<Uint8Array> {
+  const subtle = getSubtleCrypto();
+  if (!subtle) {
+    throw new Error("WebCrypto is not available - cannot sign the payload");
+  }
+  const params = ALGORITHM_PARAMS[signer.algorithm];
+  if (!params) {
+    throw new Error(`Unsupported signature algorithm: ${signer.algorithm}`);
+  }
+  return new Uint8Array(await subtle.sign(params.sign, signer.privateKey, payload));
+}
+
+/**
+ * Check a signature block against the trust store
+ * signedData is the payload with the signature block removed
+ */
+export async function verifyLicenseSignature(signedData: Uint8Array, block: SignatureBlock, trustStore: TrustStore): Promise<SignatureCheck> {
+  const key = trustStore.get(block.keyId);
+  if (!key) {
+    return { status: 'unknown_issuer', key_id: block.keyId, reason: `Signing key '${block.keyId}' is not in the trust store` };
+  }
+
+  const check: SignatureCheck = { status: 'invalid', key_id: key.id, algorithm: key.algorithm, issuer: key.label ?? key.id };
+  const params = ALGORITHM_PARAMS[key.algorithm];
+  if (block.signature.length !== params.signatureLength) {
+    return { ...check, problem: 'wrong_length', reason: `${key.algorithm} signature is ${block.signature.length} bytes, expected ${params.signatureLength}` };
+  }
+
+  const subtle = getSubtleCrypto();
+  if (!subtle) {
+    return { ...check, status: 'unverified', problem: 'no_webcrypto', reason: "WebCrypto is not available" };
+  }
+  let publicKey: WebCryptoKey;
+  try {
+    publicKey = await subtle.importKey('spki', base64ToBytes(key.publicKey), params.key, false, ['verify']);
+  } catch (error) {
+    return { ...check, status: 'unverified', problem: 'key_unusable', reason: `Cannot load ${key.algorithm} key '${key.id}': ${errorMessage(error)}` };
+  }
+
+  try {
+    const valid = await subtle.verify(params.sign, publicKey, block.signature, signedData);
+    return valid
+      ? { ...check, status: 'authentic' }
+      : { ...check, problem: 'mismatch', reason: "Signature does not match the license data and photo" };
+  } catch (error) {
+    return { ...check, problem: 'check_failed', reason: `Signature check failed: ${errorMessage(error)}` };
+  }
+}
@@ -0,0 +1,247 @@
+import type { LicenseData } from './licenseDecoder';
+import { LicenseCodeCatalog } from './codeCatalog';
+import { isValidPersonName } from './personName';
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export type ValidationIssueCode =
+  | 'NAME_MISSING'
+  | 'NAME_CHARACTERS'
+  | 'ID_NUMBER_FORMAT'
+  | 'LICENSE_NUMBER_FORMAT'
+  | 'CHECK_DIGIT'
+  | 'SEX_INVALID'
+  | 'DATE_MISSING'
+  | 'DATE_FORMAT'
+  | 'VALIDITY_RANGE'
+  | 'DOB_IN_FUTURE'
+  | 'DOB_IMPLAUSIBLE'
+  | 'UNDERAGE_AT_ISSUE'
+  | 'NO_LICENSE_CODES'
+  | 'UNKNOWN_CATEGORY_CODE'
+  | 'UNDERAGE_FOR_CATEGORY'
+  | 'UNKNOWN_RESTRICTION_CODE';
+
+export interface ValidationIssue {
+  field: keyof LicenseData;
+  severity: ValidationSeverity;
+  code: ValidationIssueCode;       // Stable identifier - translate by code, message is the English wording
+  message: string;
+  params?: Record<string, string | number>; // Values in the message, for translations
+}
+
+export interface ValidationReport {
+  valid: boolean;      // No errors (warnings allowed)
+  issues: ValidationIssue[];
+}
+
+/**
+ * Check digit algorithm for an identifier field
+ */
+export interface CheckDigitValidator {
+  id: string;
+  field: 'id_number' | 'license_number';
+  validate(value: string): boolean;
+}
+
+export interface ValidationOptions {
+  asOf?: Date;             // Reference date for plausibility checks (default: today; only its local calendar day counts)
+  minimumAge?: number;     // Youngest plausible age at issue (default: 16)
+  maximumAge?: number;     // Oldest plausible age today (default: 120)
+  checkDigitValidators?: CheckDigitValidator[];
+  codeCatalog?: LicenseCodeCatalog; // Category/restriction codes to check against (default: bundled catalog)
+}
+
+type AddIssue = (field: keyof LicenseData, severity: ValidationSeverity, code: ValidationIssueCode, message: string, params?: ValidationIssue['params']) => void;
+
+const ID_NUMBER_PATTERN = /^\d{12}$/;
+const LICENSE_NUMBER_PATTERN = /^[A-Z0-9]{13}$/;
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Parse a YYYY-MM-DD date, rejecting impossible calendar dates (e.g. 2023-02-30)
+ */
+export function parseIsoDate(value: string): Date | null {
+  const match = DATE_PATTERN.exec(value ?? '');
+  if (!match) {
+    return null;
+  }
+
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date;
+}
+
+/**
+ * Calendar day of a moment in the local time zone, as UTC midnight (what parseIsoDate returns)
+ */
+export function toCalendarDate(moment: Date): Date {
+  return new Date(Date.UTC(moment.getFullYear(), moment.getMonth(), moment.getDate()));
+}
+
+/**
+ * Whole years between two dates
+ */
+export function yearsBetween(from: Date, to: Date): number {
+  let years = to.getUTCFullYear() - from.getUTCFullYear();
+  if (to.getUTCMonth() < from.getUTCMonth() ||
+      (to.getUTCMonth() === from.getUTCMonth() && to.getUTCDate() < from.getUTCDate())) {
+    years--;
+  }
+  return years;
+}
+
+/**
+ * Luhn (mod 10) check digit over the digits of a value
+ */
+export function luhnCheckDigit(field: CheckDigitValidator['field']): CheckDigitValidator {
+  return {
+    id: `luhn_${field}`,
+    field,
+    validate(value) {
+      const digits = value.replace(/\D/g, '');
+      if (digits.length < 2) {
+        return false;
+      }
+      let sum = 0;
+      for (let i = 0; i < digits.length; i++) {
+        let digit = Number(digits[digits.length - 1 - i]);
+        if (i % 2 === 1) {
+          digit *= 2;
+          if (digit > 9) digit -= 9;
+        }
+        sum += digit;
+      }
+      return sum % 10 === 0;
+    }
+  };
+}
+
+/**
+ * Field-level validation of decoded license data against the v5 specification
+ */
+export class LicenseValidator {
+  private readonly asOf?: Date;
+  private readonly minimumAge: number;
+  private readonly maximumAge: number;
+  private readonly checkDigitValidators: CheckDigitValidator[];
+  private readonly codeCatalog: LicenseCodeCatalog;
+
+  constructor(options: ValidationOptions = {}) {
+    this.asOf = options.asOf;
+    this.minimumAge = options.minimumAge ?? 16;
+    this.maximumAge = options.maximumAge ?? 120;
+    this.checkDigitValidators = [...(options.checkDigitValidators ?? [])];
+    this.codeCatalog = options.codeCatalog ?? LicenseCodeCatalog.createDefault();
+  }
+
+  /**
+   * Add a check digit validator (run in addition to the format checks)
+   */
+  public addCheckDigitValidator(validator: CheckDigitValidator): void {
+    this.checkDigitValidators.push(validator);
+  }
+
+  public validate(licenseData: LicenseData): ValidationReport {
+    const issues: ValidationIssue[] = [];
+    const add: AddIssue = (field, severity, code, message, params) => issues.push({ field, severity, code, message, ...(params && { params }) });
+    // Compare calendar days, the same way computeValidity does
+    const asOf = toCalendarDate(this.asOf ?? new Date());
+
+    // Name
+    if (!licenseData.person_name?.trim()) {
+      add('person_name', 'error', 'NAME_MISSING', 'Name is empty');
+    } else if (!isValidPersonName(licenseData.person_name)) {
+      add('person_name', 'warning', 'NAME_CHARACTERS', `Name has characters other than letters, spaces, hyphens and apostrophes: '${licenseData.person_name}'`, { value: licenseData.person_name });
+    }
+
+    // Identifiers
+    if (!ID_NUMBER_PATTERN.test(licenseData.id_number ?? '')) {
+      add('id_number', 'error', 'ID_NUMBER_FORMAT', `ID number must be 12 digits, got '${licenseData.id_number ?? ''}'`, { value: licenseData.id_number ?? '' });
+    }
+    if (!LICENSE_NUMBER_PATTERN.test(licenseData.license_number ?? '')) {
+      add('license_number', 'error', 'LICENSE_NUMBER_FORMAT', `License number must be 13 characters (A-Z, 0-9), got '${licenseData.license_number ?? ''}'`, { value: licenseData.license_number ?? '' });
+    }
+    for (const validator of this.checkDigitValidators) {
+      const value = licenseData[validator.field] ?? '';
+      if (value && !validator.validate(value)) {
+        add(validator.field, 'error', 'CHECK_DIGIT', `Check digit (${validator.id}) does not match`, { validator: validator.id });
+      }
+    }
+
+    // Sex
+    if (licenseData.sex !== 'M' && licenseData.sex !== 'F') {
+      add('sex', 'error', 'SEX_INVALID', `Sex must be M or F, got '${licenseData.sex ?? ''}'`, { value: licenseData.sex ?? '' });
+    }
+
+    // Dates
+    const dateOfBirth = this.checkDate(licenseData, 'date_of_birth', 'Date of birth', add);
+    const validFrom = this.checkDate(licenseData, 'valid_from', 'Valid from', add);
+    const validTo = this.checkDate(licenseData, 'valid_to', 'Valid to', add);
+
+    if (validFrom && validTo && validFrom.getTime() >= validTo.getTime()) {
+      add('valid_to', 'error', 'VALIDITY_RANGE', `Valid to (${licenseData.valid_to}) must be after valid from (${licenseData.valid_from})`, { validFrom: licenseData.valid_from, validTo: licenseData.valid_to });
+    }
+
+    if (dateOfBirth) {
+      if (dateOfBirth.getTime() > asOf.getTime()) {
+        add('date_of_birth', 'error', 'DOB_IN_FUTURE', `Date of birth ${licenseData.date_of_birth} is in the future`, { value: licenseData.date_of_birth });
+      } else if (yearsBetween(dateOfBirth, asOf) > this.maximumAge) {
+        add('date_of_birth', 'warning', 'DOB_IMPLAUSIBLE', `Holder would be over ${this.maximumAge} years old`, { age: this.maximumAge });
+      }
+      if (validFrom && yearsBetween(dateOfBirth, validFrom) < this.minimumAge) {
+        add('date_of_birth', 'warning', 'UNDERAGE_AT_ISSUE', `Holder was under ${this.minimumAge} when the license became valid`, { age: this.minimumAge });
+      }
+    }
+
+    // Categories and restrictions
+    if (!licenseData.license_codes || licenseData.license_codes.length === 0) {
+      add('license_codes', 'warning', 'NO_LICENSE_CODES', 'No license category codes');
+    }
+    for (const code of licenseData.license_codes ?? []) {
+      const category = this.codeCatalog.category(code);
+      if (!category.known) {
+        add('license_codes', 'warning', 'UNKNOWN_CATEGORY_CODE', `Category code '${code}' is not in code catalog ${this.codeCatalog.version}`, { code, catalog: this.codeCatalog.version });
+      } else if (dateOfBirth && validFrom && yearsBetween(dateOfBirth, validFrom) < category.entry.minimumAge) {
+        add('license_codes', 'warning', 'UNDERAGE_FOR_CATEGORY', `Holder was under ${category.entry.minimumAge}, the minimum age for category ${code}, when the license became valid`, { age: category.entry.minimumAge, code });
+      }
+    }
+    for (const code of licenseData.vehicle_restrictions ?? []) {
+      if (!this.codeCatalog.vehicleRestriction(code).known) {
+        add('vehicle_restrictions', 'warning', 'UNKNOWN_RESTRICTION_CODE', `Vehicle restriction code '${code}' is not in code catalog ${this.codeCatalog.version}`, { code, catalog: this.codeCatalog.version });
+      }
+    }
+    for (const code of licenseData.driver_restrictions ?? []) {
+      if (!this.codeCatalog.driverRestriction(code).known) {
+        add('driver_restrictions', 'warning', 'UNKNOWN_RESTRICTION_CODE', `Driver restriction code '${code}' is not in code catalog ${this.codeCatalog.version}`, { code, catalog: this.codeCatalog.version });
+      }
+    }
+
+    return {
+      valid: !issues.some(issue => issue.severity === 'error'),
+      issues
+    };
+  }
+
+  private checkDate(
+    licenseData: LicenseData,
+    field: 'date_of_birth' | 'valid_from' | 'valid_to',
+    label: string,
+    add: AddIssue
+  ): Date | null {
+    const value = licenseData[field];
+    if (!value) {
+      add(field, 'error', 'DATE_MISSING', `${label} is empty`, { field });
+      return null;
+    }
+
+    const date = parseIsoDate(value);
+    if (!date) {
+      add(field, 'error', 'DATE_FORMAT', `${label} must be a valid YYYYMMDD date, got '${value}'`, { field, value });
+    }
+    return date;
+  }
+}
@@ -0,0 +1,59 @@
+import type { LicenseData } from './licenseDecoder';
+import { parseIsoDate, toCalendarDate, yearsBetween } from './licenseValidation';
+
+/**
+ * unknown: the validity dates are missing or not real dates
+ */
+export type ValidityState = 'valid' | 'expired' | 'not_yet_valid' | 'unknown';
+
+/**
+ * License validity on a given day - valid_from and valid_to are both inclusive
+ */
+export interface ValidityStatus {
+  state: ValidityState;
+  as_of: string;                   // YYYY-MM-DD the status was computed for
+  days_until_expiry?: number;      // valid: days left after as_of (0 = last valid day)
+  days_since_expiry?: number;      // expired: days since valid_to
+  days_until_valid?: number;       // not_yet_valid: days until valid_from
+  holder_age?: number;             // Whole years on as_of
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+function daysBetween(from: Date, to: Date): number {
+  return Math.round((to.getTime() - from.getTime()) / MS_PER_DAY);
+}
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Validity status and holder age as of a date (default: today)
+ */
+export function computeValidity(
+  licenseData: Pick<LicenseData, 'valid_from' | 'valid_to' | 'date_of_birth'>,
+  asOf: Date = new Date()
+): ValidityStatus {
+  const day = toCalendarDate(asOf);
+  const validFrom = parseIsoDate(licenseData.valid_from);
+  const validTo = parseIsoDate(licenseData.valid_to);
+  const dateOfBirth = parseIsoDate(licenseData.date_of_birth);
+
+  const status: ValidityStatus = { state: 'unknown', as_of: isoDate(day) };
+  if (dateOfBirth && dateOfBirth.getTime() <= day.getTime()) {
+    status.holder_age = yearsBetween(dateOfBirth, day);
+  }
+
+  if (validFrom && day.getTime() < validFrom.getTime()) {
+    status.state = 'not_yet_valid';
+    status.days_until_valid = daysBetween(day, validFrom);
+  } else if (validTo && day.getTime() > validTo.getTime()) {
+    status.state = 'expired';
+    status.days_since_expiry = daysBetween(validTo, day);
+  } else if (validFrom && validTo) {
+    status.state = 'valid';
+    status.days_until_expiry = daysBetween(day, validTo);
+  }
+  return status;
+}
@@ -0,0 +1,63 @@
+/**
+ * Person name field split into its parts ("Initials and Surname", e.g. "BJ SCHUTTE")
+ */
+export interface PersonNameParts {
+  initials: string;        // Initial letters without separators, e.g. "BJ" - empty when the name has none
+  surname: string;         // Rest of the name as printed, e.g. "RAKOTO-ANDRIANARISOA" or "DE LA FONTAINE"
+}
+
+// Letters (any script, accented or not), spaces and the punctuation compound names use
+const VALID_NAME = /^[\p{L}\p{M}\s.'’ʼ-]+$/u;
+
+// Initials block: one to three letters, each optionally followed by a dot - "BJ", "B.J.", "É."
+const INITIALS_BLOCK = /^(?:\p{L}\p{M}*\.?){1,3}$/u;
+// Further initials have to be single letters, so "BJ DE LA FONTAINE" keeps its particles in the surname
+const SINGLE_INITIAL = /^\p{L}\p{M}*\.?$/u;
+
+/**
+ * Split a name into initials and surname
+ * The first token is the initials when it is short and a surname follows; a lone word is a surname
+ */
+export function parsePersonName(name: string): PersonNameParts {
+  const tokens = name.normalize('NFC').trim().split(/\s+/).filter(token => token.length > 0);
+
+  let initialsCount = 0;
+  if (tokens.length > 1 && INITIALS_BLOCK.test(tokens[0])) {
+    initialsCount = 1;
+    while (initialsCount < tokens.length - 1 && SINGLE_INITIAL.test(tokens[initialsCount])) {
+      initialsCount++;
+    }
+  }
+
+  return {
+    initials: tokens.slice(0, initialsCount).join('').replace(/\./g, ''),
+    surname: tokens.slice(initialsCount).join(' ')
+  };
+}
+
+/**
+ * Whether a name only has letters, spaces, hyphens, apostrophes and dots
+ */
+export function isValidPersonName(name: string): boolean {
+  return VALID_NAME.test(name.trim());
+}
+
+/**
+ * Form of a name for searching and matching: upper case, accents, spaces and punctuation removed
+ * e.g. "Rakoto-Andrianarisoa", "RAKOTO ANDRIANARISOA" and "RAKOTO ANDRIANARISÔA" all give "RAKOTOANDRIANARISOA"
+ */
+export function nameSearchKey(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toUpperCase()
+    .replace(/[^\p{L}\p{N}]/gu, '');
+}
+
+/**
+ * Whether two surnames are the same once case, accents and punctuation are ignored
+ */
+export function surnamesMatch(a: string, b: string): boolean {
+  const key = nameSearchKey(a);
+  return key.length > 0 && key === nameSearchKey(b);
+}
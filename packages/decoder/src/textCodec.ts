@@ -0,0 +1,143 @@
+/**
+ * Text and base64 conversions that do not depend on the platform
+ * React Native (Hermes) has no TextDecoder and older runtimes lack btoa/atob, so the
+ * decoder only goes through these helpers. The native TextDecoder/TextEncoder are used when present.
+ */
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+const BASE64_VALUES = new Map<string, number>(Array.from(BASE64_ALPHABET, (char, index) => [char, index]));
+
+/**
+ * Encode text as UTF-8 bytes
+ */
+export function encodeUtf8(text: string): Uint8Array {
+  if (typeof TextEncoder !== 'undefined') {
+    return new TextEncoder().encode(text);
+  }
+
+  const bytes: number[] = [];
+  for (const char of text) {
+    const codePoint = char.codePointAt(0) ?? 0;
+    if (codePoint < 0x80) {
+      bytes.push(codePoint);
+    } else if (codePoint < 0x800) {
+      bytes.push(0xc0 | (codePoint >> 6), 0x80 | (codePoint & 0x3f));
+    } else if (codePoint < 0x10000) {
+      bytes.push(0xe0 | (codePoint >> 12), 0x80 | ((codePoint >> 6) & 0x3f), 0x80 | (codePoint & 0x3f));
+    } else {
+      bytes.push(0xf0 | (codePoint >> 18), 0x80 | ((codePoint >> 12) & 0x3f), 0x80 | ((codePoint >> 6) & 0x3f), 0x80 | (codePoint & 0x3f));
+    }
+  }
+  return Uint8Array.from(bytes);
+}
+
+/**
+ * Decode UTF-8 bytes (a byte order mark is kept as U+FEFF)
+ * fatal: throw on invalid UTF-8 instead of substituting U+FFFD
+ * allowTruncated: leave out a multi-byte character cut off at the very end instead of treating it as invalid
+ */
+export function decodeUtf8(bytes: Uint8Array, options: { fatal?: boolean; allowTruncated?: boolean } = {}): string {
+  if (typeof TextDecoder !== 'undefined') {
+    return new TextDecoder('utf-8', { fatal: options.fatal ?? false, ignoreBOM: true }).decode(bytes, { stream: options.allowTruncated ?? false });
+  }
+
+  let text = '';
+  let i = 0;
+  while (i < bytes.length) {
+    const lead = bytes[i];
+    const length = lead < 0x80 ? 1 : lead >= 0xc2 && lead <= 0xdf ? 2 : lead >= 0xe0 && lead <= 0xef ? 3 : lead >= 0xf0 && lead <= 0xf4 ? 4 : 0;
+    if (length === 1) {
+      text += String.fromCharCode(lead);
+      i++;
+      continue;
+    }
+
+    // Continuation bytes, with the tighter second-byte ranges that rule out overlong and surrogate forms
+    let codePoint = length === 2 ? lead & 0x1f : length === 3 ? lead & 0x0f : lead & 0x07;
+    let valid = length > 0;
+    let consumed = 1;
+    while (valid && consumed < length && i + consumed < bytes.length) {
+      const byte = bytes[i + consumed];
+      const min = consumed > 1 ? 0x80 : lead === 0xe0 ? 0xa0 : lead === 0xf0 ? 0x90 : 0x80;
+      const max = consumed > 1 ? 0xbf : lead === 0xed ? 0x9f : lead === 0xf4 ? 0x8f : 0xbf;
+      if (byte < min || byte > max) {
+        valid = false;
+        break;
+      }
+      codePoint = (codePoint << 6) | (byte & 0x3f);
+      consumed++;
+    }
+
+    if (valid && consumed === length) {
+      text += String.fromCodePoint(codePoint);
+      i += length;
+    } else if (valid && options.allowTruncated) {
+      break;
+    } else if (options.fatal) {
+      throw new TypeError(`Invalid UTF-8 at byte ${i}`);
+    } else {
+      text += '�';
+      i += Math.max(consumed, 1);
+    }
+  }
+  return text;
+}
+
+/**
+ * Decode bytes as ISO-8859-1: one character per byte, char code = byte value
+ */
+export function decodeLatin1(bytes: Uint8Array): string {
+  // Chunked - String.fromCharCode with a huge argument list overflows the stack
+  const chunkSize = 0x8000;
+  const parts: string[] = [];
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    parts.push(String.fromCharCode(...bytes.subarray(i, i + chunkSize)));
+  }
+  return parts.join('');
+}
+
+/**
+ * Encode bytes as base64 (standard alphabet, padded)
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let output = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const a = bytes[i];
+    const b = i + 1 < bytes.length ? bytes[i + 1] : 0;
+    const c = i + 2 < bytes.length ? bytes[i + 2] : 0;
+    const triple = (a << 16) | (b << 8) | c;
+    output += BASE64_ALPHABET[(triple >> 18) & 0x3f] + BASE64_ALPHABET[(triple >> 12) & 0x3f];
+    output += i + 1 < bytes.length ? BASE64_ALPHABET[(triple >> 6) & 0x3f] : '=';
+    output += i + 2 < bytes.length ? BASE64_ALPHABET[triple & 0x3f] : '=';
+  }
+  return output;
+}
+
+/**
+ * Decode base64 text (whitespace ignored) - throws on characters outside the alphabet
+ */
+export function base64ToBytes(text: string): Uint8Array {
+  const clean = text.replace(/\s/g, '').replace(/=+$/, '');
+  if (clean.length % 4 === 1) {
+    throw new Error('Invalid base64 length');
+  }
+
+  const output = new Uint8Array(Math.floor(clean.length * 3 / 4));
+  let buffer = 0;
+  let bits = 0;
+  let offset = 0;
+  for (const char of clean) {
+    const value = BASE64_VALUES.get(char);
+    if (value === undefined) {
+      throw new Error(`Invalid base64 character '${char}'`);
+    }
+    buffer = (buffer << 6) | value;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      output[offset++] = (buffer >> bits) & 0xff;
+    }
+  }
+  return output;
+}
@@ -0,0 +1,108 @@
+import defaultTrustStoreConfig from './config/trustStore.json';
+import { base64ToBytes } from './textCodec';
+
+/**
+ * Ed25519: 64-byte signature
+ * ECDSA-P256: ECDSA over P-256 with SHA-256, 64-byte raw r||s signature (WebCrypto's format)
+ */
+export type SignatureAlgorithm = 'Ed25519' | 'ECDSA-P256';
+
+export const SIGNATURE_ALGORITHMS: readonly SignatureAlgorithm[] = ['Ed25519', 'ECDSA-P256'];
+
+export interface TrustedKey {
+  id: string;                      // Key ID the issuer puts in the signature block
+  algorithm: SignatureAlgorithm;
+  publicKey: string;               // Base64 DER SubjectPublicKeyInfo (openssl pkey -pubout -outform DER)
+  label?: string;                  // Issuer name shown for authentic licenses
+}
+
+export interface TrustStoreConfig {
+  keys: TrustedKey[];
+}
+
+/**
+ * Issuer public keys that signed licenses are checked against
+ * Shipped with the app (config/trustStore.json) so verification works offline
+ */
+export class TrustStore {
+  private readonly keys: TrustedKey[] = [];
+
+  constructor(keys: TrustedKey[] = []) {
+    keys.forEach(key => this.add(key));
+  }
+
+  /**
+   * Trust store with the issuer keys bundled in config/trustStore.json
+   */
+  public static createDefault(): TrustStore {
+    return TrustStore.fromConfig(defaultTrustStoreConfig as TrustStoreConfig);
+  }
+
+  /**
+   * Build a trust store from a parsed config object
+   */
+  public static fromConfig(config: TrustStoreConfig): TrustStore {
+    if (!config || !Array.isArray(config.keys)) {
+      throw new Error("Invalid trust store config: expected a 'keys' array");
+    }
+    return new TrustStore(config.keys);
+  }
+
+  /**
+   * Build a trust store from trust store JSON
+   */
+  public static fromJson(json: string): TrustStore {
+    let config: TrustStoreConfig;
+    try {
+      config = JSON.parse(json);
+    } catch (error) {
+      throw new Error(`Invalid trust store JSON: ${error instanceof Error ? error.message : error}`);
+    }
+    return TrustStore.fromConfig(config);
+  }
+
+  /**
+   * Add an issuer key - IDs must be unique within the trust store
+   */
+  public add(key: TrustedKey): void {
+    if (!key.id || !/^[A-Za-z0-9._-]+$/.test(key.id)) {
+      throw new Error(`Trusted key ID must be letters, digits, '.', '_' or '-': ${key.id}`);
+    }
+    if (!SIGNATURE_ALGORITHMS.includes(key.algorithm)) {
+      throw new Error(`Trusted key '${key.id}' has an unsupported algorithm: ${key.algorithm}`);
+    }
+    let publicKey: Uint8Array;
+    try {
+      publicKey = base64ToBytes(key.publicKey ?? '');
+    } catch (error) {
+      throw new Error(`Trusted key '${key.id}' is not valid base64: ${error instanceof Error ? error.message : error}`);
+    }
+    if (publicKey.length === 0) {
+      throw new Error(`Trusted key '${key.id}' is empty`);
+    }
+    if (this.has(key.id)) {
+      throw new Error(`Duplicate trusted key ID: ${key.id}`);
+    }
+    this.keys.push({ id: key.id, algorithm: key.algorithm, publicKey: key.publicKey, label: key.label });
+  }
+
+  public get(id: string): TrustedKey | undefined {
+    return this.keys.find(key => key.id === id);
+  }
+
+  public has(id: string): boolean {
+    return this.keys.some(key => key.id === id);
+  }
+
+  public list(): TrustedKey[] {
+    return [...this.keys];
+  }
+
+  public get size(): number {
+    return this.keys.length;
+  }
+
+  public toConfig(): TrustStoreConfig {
+    return { keys: this.list() };
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * Tokenizer for pipe-delimited license text (the v5 layout)
+ * Fields are split on unescaped pipes; "\|" is a literal pipe and "\\" a literal backslash.
+ * Every field keeps the byte range it came from in the license bytes.
+ */
+
+import { decodeLatin1, decodeUtf8 } from './textCodec';
+
+export type TextEncoding = 'utf-8' | 'latin1';
+
+/**
+ * Byte range [start, end) in the license bytes
+ */
+export interface ByteSpan {
+  start: number;
+  end: number;
+}
+
+export interface FieldToken extends ByteSpan {
+  value: string;           // Escapes resolved, NULs and surrounding whitespace/control characters removed
+}
+
+export interface TokenizedText {
+  encoding: TextEncoding;
+  fields: FieldToken[];
+  trailing?: ByteSpan;     // Junk after the last expected field (only reported when fieldCount is given)
+}
+
+export interface DecodedLicenseText {
+  text: string;
+  encoding: TextEncoding;
+}
+
+const DELIMITER = '|';
+const ESCAPE = '\\';
+
+// Trimmed from field edges: whitespace, control characters (NUL padding, CR/LF) and byte order marks
+const EDGE_JUNK = /^[\s\p{Cc}\uFEFF]$/u;
+const CONTROL = /^\p{Cc}$/u;
+
+interface Unit {
+  char: string;
+  start: number;
+  end: number;
+  escaped: boolean;        // Came from an escape sequence - never trimmed
+}
+
+/**
+ * Decode license bytes as UTF-8, falling back to Latin-1 when they are not valid UTF-8
+ * A multi-byte character cut off at the very end is left out rather than forcing the fallback
+ */
+export function decodeLicenseText(bytes: Uint8Array): DecodedLicenseText {
+  try {
+    return { text: decodeUtf8(bytes, { fatal: true, allowTruncated: true }), encoding: 'utf-8' };
+  } catch (error) {
+    return { text: decodeLatin1(bytes), encoding: 'latin1' };
+  }
+}
+
+/**
+ * Split license text into fields with their byte offsets
+ * encoding: how the text was decoded (decides how many bytes each character took)
+ * fieldCount: fields the format expects - the last one ends at the first control character or
+ * further pipe, and anything after it is reported as trailing junk
+ */
+export function tokenizeFields(text: string, encoding: TextEncoding, fieldCount?: number): TokenizedText {
+  const chars = Array.from(text);
+  const fields: FieldToken[] = [];
+  let units: Unit[] = [];
+  let fieldStart = 0;
+  let offset = 0;
+
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i];
+    const start = offset;
+    offset += byteWidth(char, encoding);
+
+    if (char === ESCAPE && (chars[i + 1] === DELIMITER || chars[i + 1] === ESCAPE)) {
+      i++;
+      offset += 1;
+      units.push({ char: chars[i], start, end: offset, escaped: true });
+      continue;
+    }
+
+    const lastField = fieldCount !== undefined && fields.length === fieldCount - 1;
+    const fieldEnded = char === DELIMITER || (lastField && CONTROL.test(char) && units.some(unit => !isEdgeJunk(unit)));
+    if (!fieldEnded) {
+      units.push({ char, start, end: offset, escaped: false });
+      continue;
+    }
+
+    fields.push(toToken(units, fieldStart));
+    if (lastField) {
+      const rest = chars.slice(i);
+      return {
+        encoding,
+        fields,
+        trailing: rest.some(next => !EDGE_JUNK.test(next))
+          ? { start, end: start + rest.reduce((total, next) => total + byteWidth(next, encoding), 0) }
+          : undefined
+      };
+    }
+    units = [];
+    fieldStart = offset;
+  }
+
+  fields.push(toToken(units, fieldStart));
+  return { encoding, fields };
+}
+
+/**
+ * Escape a field value so pipes and backslashes in it survive tokenizing
+ */
+export function escapeField(value: string): string {
+  return value.replace(/[\\|]/g, char => ESCAPE + char);
+}
+
+function toToken(units: Unit[], fieldStart: number): FieldToken {
+  let first = 0;
+  let last = units.length;
+  while (first < last && isEdgeJunk(units[first])) {
+    first++;
+  }
+  while (last > first && isEdgeJunk(units[last - 1])) {
+    last--;
+  }
+
+  const kept = units.slice(first, last);
+  if (kept.length === 0) {
+    return { value: '', start: fieldStart, end: fieldStart };
+  }
+  return {
+    value: kept.filter(unit => unit.escaped || unit.char !== '\0').map(unit => unit.char).join(''),
+    start: kept[0].start,
+    end: kept[kept.length - 1].end
+  };
+}
+
+function isEdgeJunk(unit: Unit): boolean {
+  return !unit.escaped && EDGE_JUNK.test(unit.char);
+}
+
+function byteWidth(char: string, encoding: TextEncoding): number {
+  if (encoding === 'latin1') {
+    return 1;
+  }
+  const codePoint = char.codePointAt(0) ?? 0;
+  return codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4;
+}
@@ -0,0 +1,18 @@
+import { defineConfig } from 'vite'
+
+// Library build: ESM and CommonJS bundles of src/index.ts (type declarations come from tsc)
+export default defineConfig({
+  build: {
+    outDir: 'dist',
+    target: 'es2020',
+    sourcemap: true,
+    lib: {
+      entry: 'src/index.ts',
+      formats: ['es', 'cjs'],
+      fileName: format => (format === 'es' ? 'index.js' : 'index.cjs')
+    },
+    rollupOptions: {
+      external: ['pako']
+    }
+  }
+})
@@ -1,45 +1,70 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { BarcodeScanner } from './components/BarcodeScanner';
 import { AlternativeScanner } from './components/AlternativeScanner';
 import { ImageScanner } from './components/ImageScanner';
 import { DiagnosticPanel } from './components/DiagnosticPanel';
 import { LicenseResults } from './components/LicenseResults';
-import { MadagascarLicenseDecoder, DecodedResult } from './utils/licenseDecoder';
+import { KeyringManager } from './components/KeyringManager';
+import { TestBarcodeGenerator } from './components/TestBarcodeGenerator';
+import { DecodedResult, DecodeMode, ScannedData, decodeFailure, LicenseKeyring } from '@linc-scan/decoder';
+import { loadKeyring, storeKeyring } from './utils/keyringStorage';
+import { DecoderClient } from './utils/decoderClient';
+import { LanguageSwitcher } from './components/LanguageSwitcher';
+import { useI18n } from './i18n/context';
 
-type AppState = 'scanning' | 'results' | 'manual' | 'diagnostics';
+type AppState = 'scanning' | 'results' | 'manual' | 'diagnostics' | 'keys';
 type ScannerType = 'original' | 'alternative' | 'image';
 
+// Decoder progress goes to the console in development only
+const decoderLogLevel = import.meta.env.DEV ? 'debug' : 'silent';
+
 function App() {
+  const { t, plural } = useI18n();
   const [appState, setAppState] = useState<AppState>('scanning');
   const [scannerType, setScannerType] = useState<ScannerType>('image');
   const [isScanning, setIsScanning] = useState(false);
   const [decodedResult, setDecodedResult] = useState<DecodedResult | null>(null);
   const [manualInput, setManualInput] = useState('');
   const [isDecoding, setIsDecoding] = useState(false);
+  const [keyring, setKeyring] = useState<LicenseKeyring>(() => loadKeyring());
+  const [decodeMode, setDecodeMode] = useState<DecodeMode>('strict');
+  const [asOfDate, setAsOfDate] = useState('');  // YYYY-MM-DD, empty = today
+
+  // One worker-backed decoder for the app's lifetime; settings changes are sent to it
+  const [decoder] = useState(() => new DecoderClient({ keyring, mode: decodeMode, logLevel: decoderLogLevel }));
+  const decodeAbortRef = useRef<AbortController | null>(null);
 
-  const decoder = new MadagascarLicenseDecoder();
+  useEffect(() => {
+    // Date inputs give YYYY-MM-DD - read it as local midnight, not UTC
+    const asOf = asOfDate ? new Date(`${asOfDate}T00:00:00`) : undefined;
+    decoder.configure({ keyring, mode: decodeMode, asOf, logLevel: decoderLogLevel });
+  }, [decoder, keyring, decodeMode, asOfDate]);
+
+  useEffect(() => () => decoder.dispose(), [decoder]);
+
+  // Persist keys imported in the UI
+  const handleKeyringChange = useCallback((updated: LicenseKeyring) => {
+    storeKeyring(updated);
+    setKeyring(updated);
+  }, []);
 
   // Handle barcode scan
-  const handleScan = useCallback(async (scannedData: string) => {
+  const handleScan = useCallback(async (scannedData: ScannedData) => {
     console.log('Scanned data:', scannedData);
+    const controller = new AbortController();
+    decodeAbortRef.current = controller;
     setIsDecoding(true);
     
     try {
-      const result = decoder.decodeBarcodeData(scannedData);
+      const result = await decoder.decode(scannedData, { signal: controller.signal });
       setDecodedResult(result);
       setAppState('results');
     } catch (error) {
+      if (controller.signal.aborted) {
+        return;
+      }
       console.error('Decoding failed:', error);
-      setDecodedResult({
-        success: false,
-        license_data: {} as any,
-        has_image: false,
-        image_size_bytes: 0,
-        total_payload_size: 0,
-        decoding_format: 'pipe_delimited_xor_encrypted',
-        message: 'Failed to decode barcode data',
-        error: error instanceof Error ? error.message : 'Unknown error'
-      });
+      setDecodedResult(decodeFailure(error));
       setAppState('results');
     } finally {
       setIsDecoding(false);
@@ -48,33 +73,34 @@ function App() {
   }, [decoder]);
 
   // Handle manual input decode
-  const handleManualDecode = useCallback(() => {
+  const handleManualDecode = useCallback(async () => {
     if (!manualInput.trim()) return;
     
+    const controller = new AbortController();
+    decodeAbortRef.current = controller;
     setIsDecoding(true);
     
     try {
-      const result = decoder.decodeBarcodeData(manualInput.trim());
+      const result = await decoder.decode(manualInput.trim(), { signal: controller.signal });
       setDecodedResult(result);
       setAppState('results');
     } catch (error) {
+      if (controller.signal.aborted) {
+        return;
+      }
       console.error('Manual decoding failed:', error);
-      setDecodedResult({
-        success: false,
-        license_data: {} as any,
-        has_image: false,
-        image_size_bytes: 0,
-        total_payload_size: 0,
-        decoding_format: 'pipe_delimited_xor_encrypted',
-        message: 'Failed to decode barcode data',
-        error: error instanceof Error ? error.message : 'Unknown error'
-      });
+      setDecodedResult(decodeFailure(error));
       setAppState('results');
     } finally {
       setIsDecoding(false);
     }
   }, [manualInput, decoder]);
 
+  // Cancel the running decode and go back to where the scan came from
+  const handleCancelDecode = useCallback(() => {
+    decodeAbortRef.current?.abort();
+  }, []);
+
   // Clear results and return to scanning
   const handleClear = useCallback(() => {
     setDecodedResult(null);
@@ -89,8 +115,11 @@ function App() {
         <div className="card">
           <div className="loading">
             <div className="spinner"></div>
-            <h3>🔍 Decoding License Data...</h3>
-            <p>Please wait while we decrypt and parse the barcode information.</p>
+            <h3>{t('app.decoding.title')}</h3>
+            <p>{t('app.decoding.body')}</p>
+            <button onClick={handleCancelDecode} className="btn btn-secondary">
+              {t('app.cancel')}
+            </button>
           </div>
         </div>
       </div>
@@ -101,8 +130,11 @@ function App() {
     <div className="container">
       {/* Header */}
       <div className="header">
-        <h1>🇲🇬 Madagascar License Scanner</h1>
-        <p>Offline PDF417 Barcode Decoder for Driver's Licenses</p>
+        <h1>{t('app.title')}</h1>
+        <p>{t('app.subtitle')}</p>
+        <div style={{ marginTop: '8px' }}>
+          <LanguageSwitcher />
+        </div>
       </div>
 
       {/* Results View */}
@@ -116,13 +148,9 @@ function App() {
           {/* Scanner Type Selection */}
           <div className="card">
             <div className="text-center">
-              <h3>📱 Scanner Options</h3>
+              <h3>{t('app.scannerOptions')}</h3>
               <p style={{ marginBottom: '16px', color: '#666' }}>
-                {scannerType === 'original' 
-                  ? 'Using ZXing PDF417 Reader (may have issues)' 
-                  : scannerType === 'alternative'
-                  ? 'Using Enhanced Multi-Format Scanner (recommended)'
-                  : 'Upload and scan barcode images (best for testing)'}
+                {t(`app.scanner.${scannerType}.hint`)}
               </p>
               <div>
                 <button 
@@ -130,23 +158,46 @@ function App() {
                   className={`btn ${scannerType === 'original' ? 'btn-primary' : 'btn-secondary'}`}
                   style={{ margin: '4px' }}
                 >
-                  📄 Original PDF417
+                  {t('app.scanner.original')}
                 </button>
                 <button 
                   onClick={() => setScannerType('alternative')}
                   className={`btn ${scannerType === 'alternative' ? 'btn-primary' : 'btn-secondary'}`}
                   style={{ margin: '4px' }}
                 >
-                  🔍 Enhanced Scanner
+                  {t('app.scanner.alternative')}
                 </button>
                 <button 
                   onClick={() => setScannerType('image')}
                   className={`btn ${scannerType === 'image' ? 'btn-primary' : 'btn-secondary'}`}
                   style={{ margin: '4px' }}
                 >
-                  📸 Image Upload
+                  {t('app.scanner.image')}
                 </button>
               </div>
+              <label style={{ display: 'block', marginTop: '12px', fontSize: '14px', color: '#666' }}>
+                <input
+                  type="checkbox"
+                  checked={decodeMode === 'lenient'}
+                  onChange={(e) => setDecodeMode(e.target.checked ? 'lenient' : 'strict')}
+                  style={{ marginRight: '6px' }}
+                />
+                {t('app.lenient')}
+              </label>
+              <label style={{ display: 'block', marginTop: '8px', fontSize: '14px', color: '#666' }}>
+                {t('app.asOf')}{' '}
+                <input
+                  type="date"
+                  value={asOfDate}
+                  onChange={(e) => setAsOfDate(e.target.value)}
+                  style={{ marginLeft: '6px' }}
+                />
+                {asOfDate && (
+                  <button onClick={() => setAsOfDate('')} className="btn btn-secondary" style={{ fontSize: '12px', padding: '2px 8px', marginLeft: '6px' }}>
+                    {t('app.asOf.today')}
+                  </button>
+                )}
+              </label>
             </div>
           </div>
 
@@ -172,20 +223,27 @@ function App() {
           {/* Mode Toggle */}
           <div className="card">
             <div className="text-center">
-              <h3>Alternative Input Methods</h3>
+              <h3>{t('app.otherInput')}</h3>
               <button 
                 onClick={() => setAppState('manual')}
                 className="btn btn-secondary"
                 style={{ margin: '4px' }}
               >
-                ⌨️ Enter Hex Data Manually
+                {t('app.otherInput.manual')}
               </button>
               <button 
                 onClick={() => setAppState('diagnostics')}
                 className="btn btn-secondary"
                 style={{ margin: '4px' }}
               >
-                🔧 Run Diagnostics
+                {t('app.otherInput.diagnostics')}
+              </button>
+              <button 
+                onClick={() => setAppState('keys')}
+                className="btn btn-secondary"
+                style={{ margin: '4px' }}
+              >
+                {t('app.otherInput.keys')}
               </button>
             </div>
           </div>
@@ -196,13 +254,13 @@ function App() {
       {appState === 'manual' && (
         <div className="card">
           <div className="text-center mb-4">
-            <h2>⌨️ Manual Hex Input</h2>
-            <p>Paste the hex-encoded barcode data below</p>
+            <h2>{t('app.manual.title')}</h2>
+            <p>{t('app.manual.hint')}</p>
           </div>
           
           <div>
             <label htmlFor="hexInput" style={{ display: 'block', marginBottom: '8px', fontWeight: 'bold' }}>
-              Hex Data:
+              {t('app.manual.label')}
             </label>
             <textarea
               id="hexInput"
@@ -228,13 +286,13 @@ function App() {
               disabled={!manualInput.trim()}
               className="btn btn-primary"
             >
-              🔍 Decode Data
+              {t('app.manual.decode')}
             </button>
             <button 
               onClick={() => setAppState('scanning')}
               className="btn btn-secondary"
             >
-              📷 Back to Scanner
+              {t('app.backToScanner')}
             </button>
           </div>
         </div>
@@ -244,6 +302,25 @@ function App() {
       {appState === 'diagnostics' && (
         <>
           <DiagnosticPanel onScan={handleScan} />
+          <TestBarcodeGenerator onScan={handleScan} />
+          
+          <div className="card">
+            <div className="text-center">
+              <button 
+                onClick={() => setAppState('scanning')}
+                className="btn btn-primary"
+              >
+                {t('app.backToScanner')}
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+
+      {/* Keyring View */}
+      {appState === 'keys' && (
+        <>
+          <KeyringManager keyring={keyring} onKeyringChange={handleKeyringChange} />
           
           <div className="card">
             <div className="text-center">
@@ -251,7 +328,7 @@ function App() {
                 onClick={() => setAppState('scanning')}
                 className="btn btn-primary"
               >
-                📷 Back to Scanner
+                {t('app.backToScanner')}
               </button>
             </div>
           </div>
@@ -261,15 +338,12 @@ function App() {
       {/* Footer Info */}
       <div className="card" style={{ marginTop: '20px', fontSize: '14px', color: '#666' }}>
         <div className="text-center">
-          <h4>🔐 Security Information</h4>
-          <p>
-            This app processes data entirely in your browser - no data is sent to any server.
-            All decryption and parsing happens locally on your device.
-          </p>
+          <h4>{t('app.footer.title')}</h4>
+          <p>{t('app.footer.privacy')}</p>
           <div style={{ marginTop: '16px' }}>
-            <strong>Supported Format:</strong> Standardized Madagascar v5 (9-field pipe-delimited)
+            <strong>{t('app.footer.format')}</strong> {t('app.footer.format.value')}
             <br />
-            <strong>Encryption:</strong> Static Key XOR + zlib compression
+            <strong>{t('app.footer.encryption')}</strong> {t('app.footer.encryption.value', { keys: plural('count.key', keyring.size) })}
           </div>
         </div>
       </div>
@@ -0,0 +1,328 @@
+import { createWriteStream, mkdirSync, openSync, readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { extname, join, relative, sep } from 'node:path';
+import { parseArgs } from 'node:util';
+import { MadagascarLicenseDecoder, TrustStore, type DecodedResult, type SignatureStatus } from '@linc-scan/decoder';
+import { jpegJsDecodeCheck } from '../utils/jpegDecodeCheck';
+import { BarcodeImageError, readBarcodeImage } from './imageBarcode';
+import { UsageError, errorMessage } from './cliSupport';
+
+/**
+ * Batch decoder - walks a folder of barcode photos (PNG/JPEG) and hex dumps (.hex/.txt)
+ * and writes one JSONL or CSV row per file
+ */
+
+const USAGE = `Batch decoder for folders of Madagascar driver's license barcodes
+
+Usage:
+  linc-batch <directory> [options]
+
+Options:
+  --format jsonl|csv        Row format (default: jsonl)
+  --output PATH             Write rows to a file instead of stdout
+  --extract-images DIR      Save each embedded photo to DIR
+  --lenient                 Try the recovery heuristics on damaged scans
+  --trust-store PATH        Trust store JSON with the issuer public keys (default: the bundled trust store)
+  -q, --quiet               Only print the failure summary
+  -h, --help                Show this help
+
+Images (.png, .jpg, .jpeg) are read with ZXing; .hex and .txt files hold hex or base64 barcode data.
+Signed barcodes are verified against the trust store: the signature column is authentic, unsigned,
+unknown_issuer, invalid or unverified.
+Exit code: 0 when every file decoded, 1 when any failed, 2 for bad arguments.`;
+
+type RowFormat = 'jsonl' | 'csv';
+type SourceKind = 'image' | 'text';
+
+const SOURCE_BY_EXTENSION: Record<string, SourceKind> = {
+  '.png': 'image',
+  '.jpg': 'image',
+  '.jpeg': 'image',
+  '.hex': 'text',
+  '.txt': 'text'
+};
+
+const PHOTO_EXTENSION: Record<string, string> = {
+  JPEG: '.jpg',
+  PNG: '.png'
+};
+
+interface BatchOptions {
+  directory: string;
+  format: RowFormat;
+  output?: string;
+  extractImages?: string;
+  lenient: boolean;
+  trustStore?: string;
+  quiet: boolean;
+}
+
+/**
+ * One output row - license fields are left out when the file failed
+ */
+interface BatchRow {
+  file: string;                    // Path relative to the batch directory
+  source: SourceKind;
+  success: boolean;
+  error_code?: string;             // DecodeErrorCode, or NO_BARCODE / IMAGE_UNREADABLE / READ_FAILED
+  error?: string;
+  key_id?: string;
+  confidence?: string;
+  signature?: SignatureStatus;
+  signing_key_id?: string;
+  person_name?: string;
+  id_number?: string;
+  date_of_birth?: string;
+  license_number?: string;
+  valid_from?: string;
+  valid_to?: string;
+  license_codes?: string[];
+  vehicle_restrictions?: string[];
+  driver_restrictions?: string[];
+  sex?: string;
+  validity?: string;
+  has_image?: boolean;
+  photo_file?: string;             // Where the embedded photo was saved (--extract-images)
+}
+
+const CSV_COLUMNS: Array<keyof BatchRow> = [
+  'file', 'source', 'success', 'error_code', 'error', 'key_id', 'confidence', 'signature', 'signing_key_id',
+  'person_name', 'id_number', 'date_of_birth', 'license_number', 'valid_from', 'valid_to',
+  'license_codes', 'vehicle_restrictions', 'driver_restrictions', 'sex', 'validity', 'has_image', 'photo_file'
+];
+
+function parseOptions(args: string[]): BatchOptions | undefined {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        format: { type: 'string', default: 'jsonl' },
+        output: { type: 'string' },
+        'extract-images': { type: 'string' },
+        lenient: { type: 'boolean', default: false },
+        'trust-store': { type: 'string' },
+        quiet: { type: 'boolean', short: 'q', default: false },
+        help: { type: 'boolean', short: 'h', default: false }
+      }
+    });
+  } catch (error) {
+    throw new UsageError(errorMessage(error));
+  }
+
+  const { values, positionals } = parsed;
+  if (values.help) {
+    return undefined;
+  }
+  if (positionals.length !== 1) {
+    throw new UsageError('expected exactly one directory');
+  }
+  if (values.format !== 'jsonl' && values.format !== 'csv') {
+    throw new UsageError(`--format must be jsonl or csv, got '${values.format}'`);
+  }
+
+  return {
+    directory: positionals[0],
+    format: values.format,
+    output: values.output,
+    extractImages: values['extract-images'],
+    lenient: values.lenient,
+    trustStore: values['trust-store'],
+    quiet: values.quiet
+  };
+}
+
+/**
+ * Every decodable file under the directory, in a stable (sorted) order
+ */
+function findBatchFiles(directory: string): string[] {
+  const files: string[] = [];
+  const entries = readdirSync(directory, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name));
+  for (const entry of entries) {
+    const path = join(directory, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...findBatchFiles(path));
+    } else if (entry.isFile() && SOURCE_BY_EXTENSION[extname(entry.name).toLowerCase()]) {
+      files.push(path);
+    }
+  }
+  return files;
+}
+
+/**
+ * Read one file, decode it and verify its signature - never throws, failures become rows
+ */
+async function decodeFile(decoder: MadagascarLicenseDecoder, path: string, file: string, options: BatchOptions): Promise<BatchRow> {
+  const source = SOURCE_BY_EXTENSION[extname(path).toLowerCase()];
+  let result: DecodedResult;
+  try {
+    const contents = readFileSync(path);
+    result = await decoder.decodeAndVerify(source === 'image'
+      ? readBarcodeImage(contents)
+      : contents.toString('utf-8').trim());
+  } catch (error) {
+    const code = error instanceof BarcodeImageError ? error.code : 'READ_FAILED';
+    return { file, source, success: false, error_code: code, error: errorMessage(error) };
+  }
+
+  if (!result.success) {
+    return { file, source, success: false, error_code: result.error_details.code, error: result.error };
+  }
+
+  const data = result.license_data;
+  const row: BatchRow = {
+    file,
+    source,
+    success: true,
+    key_id: result.key_id,
+    confidence: result.confidence,
+    signature: result.signature.status,
+    signing_key_id: result.signature.key_id,
+    person_name: data.person_name,
+    id_number: data.id_number,
+    date_of_birth: data.date_of_birth,
+    license_number: data.license_number,
+    valid_from: data.valid_from,
+    valid_to: data.valid_to,
+    license_codes: data.license_codes,
+    vehicle_restrictions: data.vehicle_restrictions,
+    driver_restrictions: data.driver_restrictions,
+    sex: data.sex,
+    validity: result.validity.state,
+    has_image: result.has_image
+  };
+
+  if (options.extractImages && result.image_base64) {
+    // Flatten the relative path so photos from different subfolders cannot collide
+    const photoName = file.split(sep).join('__').replace(/\.[^.]+$/, '') + (PHOTO_EXTENSION[result.image_format ?? ''] ?? '.bin');
+    const photoPath = join(options.extractImages, photoName);
+    try {
+      writeFileSync(photoPath, Buffer.from(result.image_base64, 'base64'));
+      row.photo_file = photoPath;
+    } catch (error) {
+      console.error(`⚠️ Failed to save photo for ${file}: ${errorMessage(error)}`);
+    }
+  }
+  return row;
+}
+
+function formatCsvValue(value: BatchRow[keyof BatchRow]): string {
+  if (value === undefined) {
+    return '';
+  }
+  const text = Array.isArray(value) ? value.join(',') : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function formatRow(row: BatchRow, format: RowFormat): string {
+  return format === 'csv'
+    ? CSV_COLUMNS.map(column => formatCsvValue(row[column])).join(',')
+    : JSON.stringify(row);
+}
+
+/**
+ * Failures grouped by error code, largest group first
+ */
+function printSummary(rows: BatchRow[]): void {
+  const failures = new Map<string, string[]>();
+  for (const row of rows) {
+    if (!row.success) {
+      const code = row.error_code ?? 'UNKNOWN';
+      failures.set(code, [...(failures.get(code) ?? []), row.file]);
+    }
+  }
+
+  const failed = rows.length - rows.filter(row => row.success).length;
+  console.error(`\n📊 Decoded ${rows.length - failed} of ${rows.length} files (${failed} failed)`);
+  const signatures = new Map<SignatureStatus, number>();
+  rows.forEach(row => row.signature && signatures.set(row.signature, (signatures.get(row.signature) ?? 0) + 1));
+  if (signatures.size > 0) {
+    console.error(`🔏 Signatures: ${[...signatures.entries()].map(([status, count]) => `${status} ${count}`).join(', ')}`);
+  }
+  const groups = [...failures.entries()].sort((a, b) => b[1].length - a[1].length);
+  for (const [code, files] of groups) {
+    console.error(`\n❌ ${code} (${files.length}):`);
+    files.forEach(file => console.error(`  ${file}`));
+  }
+}
+
+/**
+ * Run the batch and return its exit code
+ */
+async function main(args: string[]): Promise<number> {
+  let options: BatchOptions | undefined;
+  try {
+    options = parseOptions(args);
+  } catch (error) {
+    console.error(USAGE);
+    console.error(`\nerror: ${errorMessage(error)}`);
+    return 2;
+  }
+  if (!options) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  let files: string[];
+  let trustStore: TrustStore | undefined;
+  try {
+    files = findBatchFiles(options.directory);
+    if (options.trustStore) {
+      trustStore = TrustStore.fromJson(readFileSync(options.trustStore, 'utf-8'));
+    }
+    if (options.extractImages) {
+      mkdirSync(options.extractImages, { recursive: true });
+    }
+  } catch (error) {
+    console.error(`ERROR: ${errorMessage(error)}`);
+    return 1;
+  }
+
+  // Open the output file up front so an unwritable path is reported before any decoding
+  let outputFd: number | undefined;
+  if (options.output) {
+    try {
+      outputFd = openSync(options.output, 'w');
+    } catch (error) {
+      console.error(USAGE);
+      console.error(`\nerror: cannot write --output ${options.output}: ${errorMessage(error)}`);
+      return 2;
+    }
+  }
+  const output = outputFd !== undefined ? createWriteStream(options.output ?? '', { fd: outputFd }) : process.stdout;
+  let writeError: unknown;
+  output.on('error', error => {
+    writeError = error;
+  });
+  if (options.format === 'csv') {
+    output.write(CSV_COLUMNS.join(',') + '\n');
+  }
+
+  // One decoder for the whole batch, files decoded one at a time to keep memory flat
+  const decoder = new MadagascarLicenseDecoder({ mode: options.lenient ? 'lenient' : 'strict', trustStore, jpegDecodeCheck: jpegJsDecodeCheck });
+  const rows: BatchRow[] = [];
+  for (const [index, path] of files.entries()) {
+    const file = relative(options.directory, path);
+    if (!options.quiet) {
+      console.error(`🔍 [${index + 1}/${files.length}] ${file}`);
+    }
+    const row = await decodeFile(decoder, path, file, options);
+    rows.push(row);
+    output.write(formatRow(row, options.format) + '\n');
+  }
+
+  if (output !== process.stdout) {
+    // 'close' comes after 'finish' or 'error', so a failed write is known by then
+    await new Promise<void>(resolve => output.once('close', resolve).end());
+  }
+  if (writeError) {
+    console.error(`ERROR: writing ${options.output ?? 'stdout'} failed: ${errorMessage(writeError)}`);
+    return 1;
+  }
+  printSummary(rows);
+  return rows.every(row => row.success) ? 0 : 1;
+}
+
+main(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
@@ -0,0 +1,16 @@
+/**
+ * Bad command-line arguments (exit code 2, like argparse)
+ */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+/**
+ * Message of anything thrown, for one-line CLI output
+ */
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,276 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+import { createInterface } from 'node:readline';
+import { parseArgs } from 'node:util';
+import { MadagascarLicenseDecoder, type DecodeFailure, type DecodeSuccess, type SignatureCheck, type SignatureStatus } from '@linc-scan/decoder';
+import { jpegJsDecodeCheck } from '../utils/jpegDecodeCheck';
+import { UsageError, errorMessage } from './cliSupport';
+import { toReferenceResult, type ReferenceResult } from './referenceFormat';
+
+/**
+ * Command-line decoder - same flags and JSON output as the Python reference tool (PDF417_Code_py)
+ * Prompts, progress and errors go to stderr so --json output can be piped straight into other tools
+ */
+
+const USAGE = `Offline decoder for Madagascar driver's license barcodes (Standardized Format)
+
+Usage:
+  linc-decode --data <hex_barcode_data>
+  linc-decode --file <barcode_data_file>
+  linc-decode --interactive
+
+Options:
+  --data HEX             Hex-encoded barcode data from PDF417 scan
+  --file PATH            File containing hex-encoded barcode data
+  --interactive          Interactive mode - enter hex data manually
+  --extract-image PATH   Extract embedded photo to specified path
+  --json                 Output decoded data as JSON
+  -q, --quiet            Quiet mode (minimal output)
+  -h, --help             Show this help
+
+Examples:
+  linc-decode --data "78da01..." --extract-image license_photo.jpg
+  linc-decode --file barcode_data.txt --json
+
+Security:
+  - Encryption: Static key XOR (length-preserving)
+  - Compression: zlib level 9
+  - Format: 9-field pipe-delimited Madagascar standard`;
+
+const TROUBLESHOOTING_TIPS = [
+  'Ensure the barcode was scanned completely',
+  'Check that the data is in hex format (no spaces or prefixes)',
+  'Verify the encryption key matches your system',
+  'Ensure the barcode uses the standardized Madagascar format'
+];
+
+interface CliOptions {
+  data?: string;
+  file?: string;
+  interactive: boolean;
+  extractImage?: string;
+  json: boolean;
+  quiet: boolean;
+}
+
+function parseOptions(args: string[]): CliOptions | undefined {
+  let values;
+  try {
+    ({ values } = parseArgs({
+      args,
+      options: {
+        data: { type: 'string' },
+        file: { type: 'string' },
+        interactive: { type: 'boolean', default: false },
+        'extract-image': { type: 'string' },
+        json: { type: 'boolean', default: false },
+        quiet: { type: 'boolean', short: 'q', default: false },
+        help: { type: 'boolean', short: 'h', default: false }
+      }
+    }));
+  } catch (error) {
+    throw new UsageError(errorMessage(error));
+  }
+
+  if (values.help) {
+    return undefined;
+  }
+
+  // --data, --file and --interactive are mutually exclusive, and one of them is required
+  const sources = [values.data !== undefined, values.file !== undefined, values.interactive].filter(Boolean).length;
+  if (sources !== 1) {
+    throw new UsageError(sources === 0
+      ? 'one of the arguments --data --file --interactive is required'
+      : 'only one of the arguments --data --file --interactive may be given');
+  }
+
+  return {
+    data: values.data,
+    file: values.file,
+    interactive: values.interactive,
+    extractImage: values['extract-image'],
+    json: values.json,
+    quiet: values.quiet
+  };
+}
+
+/**
+ * Read the scanned data from whichever source was chosen - undefined when the user quit
+ */
+async function readScannedData(options: CliOptions): Promise<string | undefined> {
+  if (options.data !== undefined) {
+    return options.data;
+  }
+  if (options.file !== undefined) {
+    try {
+      return readFileSync(options.file, 'utf-8').trim();
+    } catch (error) {
+      throw new Error(`Failed to read file ${options.file}: ${errorMessage(error)}`);
+    }
+  }
+
+  console.error('🔍 Interactive Mode - Madagascar License Barcode Decoder');
+  console.error('Enter the hex-encoded barcode data from your PDF417 scan:');
+  console.error('(Example: 78da016f0390fc424a20534348555454457c343536...)');
+  console.error("Type 'quit' to exit.");
+  const prompt = createInterface({ input: process.stdin, output: process.stderr });
+  prompt.setPrompt('Hex data > ');
+  prompt.prompt();
+  try {
+    // Piped input may end without a newline - take the last line then, and treat no input at all as quit
+    const answer = await new Promise<string | undefined>(resolve => {
+      prompt.once('line', resolve);
+      prompt.once('close', () => resolve(undefined));
+    });
+    const text = answer?.trim();
+    return text === undefined || ['quit', 'exit', 'q'].includes(text.toLowerCase()) ? undefined : text;
+  } finally {
+    prompt.close();
+  }
+}
+
+const SIGNATURE_LABELS: Record<SignatureStatus, string> = {
+  authentic: 'AUTHENTIC',
+  unsigned: 'UNSIGNED',
+  unknown_issuer: 'UNKNOWN ISSUER',
+  invalid: 'SIGNATURE INVALID',
+  unverified: 'NOT VERIFIED'
+};
+
+function printLicenseInfo(result: ReferenceResult, signature: SignatureCheck): void {
+  const data = result.license_data;
+  const rule = '='.repeat(60);
+
+  console.log(`\n${rule}`);
+  console.log("📄 MADAGASCAR DRIVER'S LICENSE - DECODED");
+  console.log(rule);
+
+  console.log('\n👤 PERSONAL INFORMATION:');
+  console.log(`  Name: ${data.person_name}`);
+  console.log(`  ID Number: ${data.id_number}`);
+  console.log(`  Sex: ${data.sex}`);
+  console.log(`  Date of Birth: ${data.date_of_birth}`);
+
+  console.log('\n🪪 LICENSE INFORMATION:');
+  console.log(`  License Number: ${data.license_number}`);
+  console.log(`  License Codes: ${data.license_codes.join(', ') || 'None'}`);
+  console.log(`  Valid From: ${data.valid_from}`);
+  console.log(`  Valid Until: ${data.valid_to}`);
+  console.log(`  Vehicle Restrictions: ${data.vehicle_restrictions.join(', ') || 'None'}`);
+  console.log(`  Driver Restrictions: ${data.driver_restrictions.join(', ') || 'None'}`);
+
+  console.log('\n🔧 TECHNICAL INFORMATION:');
+  console.log(`  Format Version: ${data.format_version}`);
+  console.log(`  Country: ${data.country}`);
+  console.log(`  Decoding Format: ${result.decoding_format}`);
+  console.log(`  Total Payload Size: ${result.total_payload_size} bytes`);
+
+  console.log('\n🔐 SECURITY:');
+  console.log('  Encryption: Static Key XOR');
+  console.log('  Compression: zlib level 9');
+  console.log('  Data Format: 9-field pipe-delimited');
+  console.log(`  Signature: ${SIGNATURE_LABELS[signature.status]}${signature.issuer ? ` (${signature.issuer})` : ''}`);
+  if (signature.reason) {
+    console.log(`  Signature Note: ${signature.reason}`);
+  }
+
+  console.log('\n📷 EMBEDDED PHOTO:');
+  if (result.has_image) {
+    console.log('  Status: Present');
+    console.log(`  Size: ${result.image_size_bytes} bytes`);
+    console.log(`  Format: ${result.image_format ?? 'Unknown'}`);
+  } else {
+    console.log('  Status: Not present');
+  }
+
+  console.log(`\n${rule}`);
+}
+
+/**
+ * Save the embedded photo - returns false when there is none
+ * print: where the status lines go (stderr when stdout carries JSON)
+ */
+function extractImage(result: DecodeSuccess, outputPath: string, print: (line: string) => void): boolean {
+  if (!result.image_base64) {
+    print('No image found in barcode data');
+    return false;
+  }
+
+  try {
+    const imageData = Buffer.from(result.image_base64, 'base64');
+    writeFileSync(outputPath, imageData);
+    print(`✓ Image extracted and saved to: ${outputPath}`);
+    print(`  Format: ${result.image_format ?? 'Unknown'}`);
+    print(`  Size: ${imageData.length} bytes`);
+    const dimensions = result.image_inspection?.dimensions;
+    if (dimensions) {
+      print(`  Dimensions: ${dimensions.width}x${dimensions.height} pixels`);
+    }
+    return true;
+  } catch (error) {
+    print(`Failed to extract image: ${errorMessage(error)}`);
+    return false;
+  }
+}
+
+function reportFailure(failure: DecodeFailure, quiet: boolean): void {
+  console.error(`ERROR: ${failure.message}: ${failure.error}`);
+  if (!quiet) {
+    console.error(`\n${failure.error_details.remediation}`);
+    console.error('\nTroubleshooting tips:');
+    TROUBLESHOOTING_TIPS.forEach((tip, index) => console.error(`${index + 1}. ${tip}`));
+  }
+}
+
+/**
+ * Run the CLI and return its exit code
+ */
+async function main(args: string[]): Promise<number> {
+  let options: CliOptions | undefined;
+  try {
+    options = parseOptions(args);
+  } catch (error) {
+    console.error(USAGE);
+    console.error(`\nerror: ${errorMessage(error)}`);
+    return 2;
+  }
+  if (!options) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  let scannedData: string | undefined;
+  try {
+    scannedData = await readScannedData(options);
+  } catch (error) {
+    console.error(`ERROR: ${errorMessage(error)}`);
+    return 1;
+  }
+  if (scannedData === undefined) {
+    return 0;
+  }
+
+  if (!options.quiet) {
+    console.error('🔍 Decoding barcode data...');
+  }
+  const result = await new MadagascarLicenseDecoder({ jpegDecodeCheck: jpegJsDecodeCheck }).decodeAndVerify(scannedData);
+  if (!result.success) {
+    reportFailure(result, options.quiet);
+    return 1;
+  }
+
+  const reference = toReferenceResult(result);
+  if (options.json) {
+    console.log(JSON.stringify(reference, null, 2));
+  } else if (!options.quiet) {
+    printLicenseInfo(reference, result.signature);
+  }
+
+  if (options.extractImage) {
+    extractImage(result, options.extractImage, options.json ? console.error : console.log);
+  }
+  return 0;
+}
+
+main(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
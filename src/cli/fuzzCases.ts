@@ -0,0 +1,422 @@
+import { generateKeyPairSync, sign as signBytes, type KeyObject } from 'node:crypto';
+import { deflate } from 'pako';
+import { encode as encodeJpeg } from 'jpeg-js';
+import {
+  LicenseKeyring,
+  MadagascarLicenseEncoder,
+  bytesToBase64,
+  decodeLatin1,
+  encodeUtf8,
+  xorWithKey,
+  type EncodableLicense,
+  type ScannedData,
+  type SignatureStatus,
+  type TrustedKey
+} from '@linc-scan/decoder';
+
+/**
+ * Seeded fuzz case generators for the decode pipeline
+ * Every case is rebuilt from (seed, index) alone, so any failure can be replayed on its own
+ */
+
+/**
+ * One generated decoder input
+ */
+export interface FuzzCase {
+  index: number;
+  recipe: string[];                // How the input was built, e.g. ['encoded', 'jpeg_photo', 'hex', 'bit_flip@45']
+  input: ScannedData;
+  original?: {                     // Set when the input still carries this license - a success must decode to it exactly
+    license: EncodableLicense;
+    photo?: Uint8Array;
+    signature: SignatureStatus;    // What verification must report while the input is intact
+    intact: boolean;               // Neither the barcode bytes nor the scanned text were damaged
+  };
+}
+
+/**
+ * Small deterministic PRNG (mulberry32) - Math.random cannot be replayed
+ */
+export class FuzzRandom {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * Float in [0, 1)
+   */
+  public next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Integer in [min, max] (both inclusive)
+   */
+  public int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  public chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  public pick<T>(items: readonly T[]): T {
+    return items[this.int(0, items.length - 1)];
+  }
+
+  /**
+   * Distinct items in their original order
+   */
+  public subset<T>(items: readonly T[]): T[] {
+    return items.filter(() => this.chance(0.4));
+  }
+
+  public bytes(length: number): Uint8Array {
+    return Uint8Array.from({ length }, () => this.int(0, 255));
+  }
+
+  public string(alphabet: string, length: number): string {
+    const chars = Array.from(alphabet);
+    return Array.from({ length }, () => this.pick(chars)).join('');
+  }
+}
+
+const NAME_LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZÉÈÊÀÂÔÎÏÇÑ';
+const HEX_DIGITS = '0123456789abcdef';
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const IMAGE_SEPARATOR = '||IMG||';
+
+// Codes from config/licenseCodes.json
+const CATEGORY_CODES = ['A1', 'A', 'B', 'BE', 'C1', 'C', 'CE', 'D1', 'D', 'DE'];
+const VEHICLE_RESTRICTIONS = ['0', '1', '2', '3', '4'];
+const DRIVER_RESTRICTIONS = ['0', '1', '2'];
+
+const keyring = LicenseKeyring.createDefault();
+const encoder = new MadagascarLicenseEncoder(keyring);
+
+// Issuer keys for signed cases, made per process - only the trusted one is in the fuzz trust store
+const trustedIssuer = generateKeyPairSync('ed25519');
+const unknownIssuer = generateKeyPairSync('ed25519');
+
+export const FUZZ_TRUSTED_KEY: TrustedKey = {
+  id: 'fuzz-issuer',
+  algorithm: 'Ed25519',
+  publicKey: trustedIssuer.publicKey.export({ type: 'spki', format: 'der' }).toString('base64'),
+  label: 'Fuzz issuer'
+};
+
+/**
+ * Seed for one case - mixes the run seed and case index so neighbouring cases are unrelated
+ */
+function caseSeed(seed: number, index: number): number {
+  let hash = Math.imul(seed ^ 0x9e3779b9, 0x85ebca6b) ^ Math.imul(index + 1, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return Math.imul(hash, 0x27d4eb2d) >>> 0;
+}
+
+function randomDate(random: FuzzRandom, fromYear: number, toYear: number): string {
+  const month = random.int(1, 12);
+  const day = random.int(1, new Date(Date.UTC(2000, month, 0)).getUTCDate());
+  return `${random.int(fromYear, toYear)}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * A license that passes the strict v5 field checks
+ */
+function randomLicense(random: FuzzRandom): EncodableLicense {
+  const initials = random.string('ABCDEFGHIJKLMNOPQRSTUVWXYZ', random.int(1, 3));
+  const surnameParts = Array.from({ length: random.int(1, 2) }, () => random.string(NAME_LETTERS, random.int(2, 12)));
+  const validFrom = randomDate(random, 2000, 2030);
+  return {
+    person_name: `${initials} ${surnameParts.join(random.pick(['-', ' ', "'"]))}`,
+    id_number: random.string('0123456789', 12),
+    date_of_birth: randomDate(random, 1930, 2010),
+    license_number: random.string('ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789', 13),
+    valid_from: validFrom,
+    valid_to: `${Number(validFrom.slice(0, 4)) + random.int(1, 10)}${validFrom.slice(4)}`,
+    license_codes: random.subset(CATEGORY_CODES),
+    vehicle_restrictions: random.subset(VEHICLE_RESTRICTIONS),
+    driver_restrictions: random.subset(DRIVER_RESTRICTIONS),
+    sex: random.pick(['M', 'F']),
+    country: 'MG',
+    format_version: 'standardized_madagascar_v5'
+  };
+}
+
+function randomPhoto(random: FuzzRandom, recipe: string[]): Uint8Array | undefined {
+  const kind = random.pick(['none', 'none', 'jpeg_photo', 'random_photo', 'jpeg_like_photo'] as const);
+  recipe.push(kind);
+  if (kind === 'jpeg_photo') {
+    const width = random.int(8, 60);
+    const height = random.int(8, 90);
+    return Uint8Array.from(encodeJpeg({ width, height, data: random.bytes(width * height * 4) }, random.int(10, 90)).data);
+  }
+  if (kind === 'random_photo') {
+    return random.bytes(random.int(1, 2000));
+  }
+  if (kind === 'jpeg_like_photo') {
+    return Uint8Array.from([0xff, 0xd8, 0xff, 0xe0, ...random.bytes(random.int(0, 500)), 0xff, 0xd9]);
+  }
+  return undefined;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Present barcode bytes the way a scanner or manual entry might
+ */
+function toScannedForm(random: FuzzRandom, bytes: Uint8Array, recipe: string[]): ScannedData {
+  const form = random.pick(['bytes', 'hex', 'hex_upper', 'hex_wrapped', 'base64', 'binary_text'] as const);
+  recipe.push(form);
+  switch (form) {
+    case 'bytes':
+      return bytes;
+    case 'hex':
+      return toHex(bytes);
+    case 'hex_upper':
+      return toHex(bytes).toUpperCase();
+    case 'hex_wrapped':
+      return (toHex(bytes).match(/.{1,64}/g) ?? []).join(random.pick(['\n', '\r\n', ' ', '\t']));
+    case 'base64':
+      return bytesToBase64(bytes);
+    case 'binary_text':
+      return decodeLatin1(bytes);
+  }
+}
+
+/**
+ * Damage barcode bytes (or leave them alone) - returns the mutation name
+ */
+function mutateBytes(random: FuzzRandom, bytes: Uint8Array): { bytes: Uint8Array; mutation?: string } {
+  const kind = random.pick(['none', 'none', 'bit_flip', 'truncate', 'append', 'delete_byte', 'insert_byte'] as const);
+  const offset = random.int(0, Math.max(bytes.length - 1, 0));
+  switch (kind) {
+    case 'none':
+      return { bytes };
+    case 'bit_flip': {
+      const flipped = bytes.slice();
+      flipped[offset] ^= 1 << random.int(0, 7);
+      return { bytes: flipped, mutation: `bit_flip@${offset}` };
+    }
+    case 'truncate':
+      return { bytes: bytes.slice(0, offset), mutation: `truncate@${offset}` };
+    case 'append':
+      return { bytes: Uint8Array.from([...bytes, ...random.bytes(random.int(1, 64))]), mutation: 'append' };
+    case 'delete_byte':
+      return { bytes: Uint8Array.from([...bytes.subarray(0, offset), ...bytes.subarray(offset + 1)]), mutation: `delete_byte@${offset}` };
+    case 'insert_byte':
+      return { bytes: Uint8Array.from([...bytes.subarray(0, offset), random.int(0, 255), ...bytes.subarray(offset)]), mutation: `insert_byte@${offset}` };
+  }
+}
+
+/**
+ * Damage the scanned text - odd-length hex, stray characters, base64 lookalikes
+ */
+function mutateText(random: FuzzRandom, text: string): { text: string; mutation?: string } {
+  if (!random.chance(0.3) || text.length === 0) {
+    return { text };
+  }
+  const offset = random.int(0, text.length - 1);
+  const kind = random.pick(['drop_char', 'insert_char', 'strip_padding', 'add_padding'] as const);
+  switch (kind) {
+    case 'drop_char':
+      return { text: text.slice(0, offset) + text.slice(offset + 1), mutation: `drop_char@${offset}` };
+    case 'insert_char':
+      return { text: text.slice(0, offset) + random.pick(['g', 'Z', '=', '+', '/', '-', 'é', '\u0000']) + text.slice(offset), mutation: `insert_char@${offset}` };
+    case 'strip_padding': {
+      const stripped = text.replace(/=+$/, '');
+      return stripped === text ? { text } : { text: stripped, mutation: 'strip_padding' };
+    }
+    case 'add_padding':
+      return { text: text + '='.repeat(random.int(1, 3)), mutation: 'add_padding' };
+  }
+}
+
+function signPayload(license: EncodableLicense, photo: Uint8Array | undefined, privateKey: KeyObject): Uint8Array {
+  return new Uint8Array(signBytes(null, encoder.buildPayload(license, photo), privateKey));
+}
+
+/**
+ * Encode a license unsigned, signed by the trusted or an unknown issuer, or signed and then altered
+ * Returns the license and photo the barcode really carries and the signature status it must get
+ */
+function signedEncoding(random: FuzzRandom, license: EncodableLicense, photo: Uint8Array | undefined, recipe: string[]) {
+  const kind = random.pick(['unsigned', 'unsigned', 'signed', 'signed_unknown_key', 'signed_tampered'] as const);
+  switch (kind) {
+    case 'unsigned':
+      return { encrypted: encoder.encode(license, photo).encrypted, license, photo, signature: 'unsigned' as const };
+    case 'signed':
+      recipe.push(kind);
+      return {
+        encrypted: encoder.encodeWithSignature(license, FUZZ_TRUSTED_KEY.id, signPayload(license, photo, trustedIssuer.privateKey), photo).encrypted,
+        license, photo, signature: 'authentic' as const
+      };
+    case 'signed_unknown_key':
+      recipe.push(kind);
+      return {
+        encrypted: encoder.encodeWithSignature(license, 'fuzz-unknown', signPayload(license, photo, unknownIssuer.privateKey), photo).encrypted,
+        license, photo, signature: 'unknown_issuer' as const
+      };
+    case 'signed_tampered': {
+      // A forger with the XOR key: valid zlib and fields, but the signed data was changed
+      const signature = signPayload(license, photo, trustedIssuer.privateKey);
+      let tampered = license;
+      let tamperedPhoto = photo;
+      if (photo && photo.length > 0 && random.chance(0.5)) {
+        tamperedPhoto = photo.slice();
+        tamperedPhoto[random.int(0, photo.length - 1)] ^= 1 << random.int(0, 7);
+        recipe.push(kind, 'photo');
+      } else {
+        tampered = { ...license, license_number: random.string('ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789', 13) };
+        recipe.push(kind, 'license_number');
+      }
+      return {
+        encrypted: encoder.encodeWithSignature(tampered, FUZZ_TRUSTED_KEY.id, signature, tamperedPhoto).encrypted,
+        license: tampered, photo: tamperedPhoto, signature: 'invalid' as const
+      };
+    }
+  }
+}
+
+/**
+ * Valid license through the real encoder (maybe signed), then presented and possibly damaged
+ * A damaged input keeps its original: it must either fail or decode to exactly that license
+ */
+function encodedCase(random: FuzzRandom, recipe: string[]): Pick<FuzzCase, 'input' | 'original'> {
+  const photo = randomPhoto(random, recipe);
+  const { encrypted, ...original } = signedEncoding(random, randomLicense(random), photo, recipe);
+
+  const damaged = mutateBytes(random, encrypted);
+  let intact = !damaged.mutation;
+  if (damaged.mutation) {
+    recipe.push(damaged.mutation);
+  }
+  let input = toScannedForm(random, damaged.bytes, recipe);
+  if (typeof input === 'string') {
+    const mutated = mutateText(random, input);
+    if (mutated.mutation) {
+      recipe.push(mutated.mutation);
+      intact = false;
+    }
+    input = mutated.text;
+  }
+  return { input, original: { ...original, intact } };
+}
+
+/**
+ * Well-compressed, correctly encrypted payload text that breaks the v5 layout in some way
+ */
+function hostilePayloadCase(random: FuzzRandom, recipe: string[]): Pick<FuzzCase, 'input'> {
+  const license = randomLicense(random);
+  const fields = [
+    license.person_name, license.id_number, license.date_of_birth.replace(/-/g, ''), license.license_number,
+    `${license.valid_from.replace(/-/g, '')}-${license.valid_to.replace(/-/g, '')}`,
+    license.license_codes.join(','), license.vehicle_restrictions.join(','), license.driver_restrictions.join(','), license.sex
+  ];
+  const field = random.int(0, fields.length - 1);
+  let tail: Uint8Array = new Uint8Array(0);
+
+  const kind = random.pick([
+    'unescaped_pipe', 'escape_at_end', 'truncated_separator', 'repeated_separator', 'extra_fields',
+    'missing_fields', 'control_chars', 'invalid_utf8', 'huge_field', 'empty_payload'
+  ] as const);
+  recipe.push(kind, `field_${field}`);
+  switch (kind) {
+    case 'unescaped_pipe':
+      fields[field] = `${fields[field].slice(0, 1)}|${fields[field].slice(1)}`;
+      break;
+    case 'escape_at_end':
+      fields[field] += random.pick(['\\', '\\\\', '\\|']);
+      break;
+    case 'truncated_separator':
+      tail = Uint8Array.from([...encodeUtf8(IMAGE_SEPARATOR.slice(0, random.int(1, IMAGE_SEPARATOR.length - 1))), ...random.bytes(random.int(0, 40))]);
+      break;
+    case 'repeated_separator':
+      tail = encodeUtf8(IMAGE_SEPARATOR.repeat(random.int(2, 4)));
+      break;
+    case 'extra_fields':
+      fields.push(...Array.from({ length: random.int(1, 5) }, () => random.string('ABC123|', random.int(0, 8))));
+      break;
+    case 'missing_fields':
+      fields.splice(random.int(1, fields.length - 1));
+      break;
+    case 'control_chars':
+      fields[field] = random.pick(['\u0000', '\r\n', '\t', '\ufeff', '\u001b']) + fields[field] + random.pick(['\u0000\u0000', '\n', '\u007f', '']);
+      break;
+    case 'invalid_utf8':
+      tail = Uint8Array.from([random.pick([0xc3, 0xe2, 0xf0, 0xff, 0x80])]);
+      break;
+    case 'huge_field':
+      fields[field] = random.string(NAME_LETTERS, random.int(5000, 60000));
+      break;
+    case 'empty_payload':
+      fields.length = 0;
+      break;
+  }
+
+  const text = encodeUtf8(fields.join('|'));
+  const payload = Uint8Array.from([...text, ...tail]);
+  const compressed = deflate(payload, { level: random.pick([1, 6, 9] as const) });
+  const bytes = xorWithKey(compressed, keyring.list()[0].key);
+  return { input: toScannedForm(random, bytes, recipe) };
+}
+
+/**
+ * Input that never came from the encoder
+ */
+function randomInputCase(random: FuzzRandom, recipe: string[]): Pick<FuzzCase, 'input'> {
+  const kind = random.pick(['random_bytes', 'random_hex', 'base64_lookalike', 'random_text', 'zlib_lookalike'] as const);
+  recipe.push(kind);
+  switch (kind) {
+    case 'random_bytes':
+      return { input: random.bytes(random.int(0, 3000)) };
+    case 'random_hex':
+      return { input: random.string(HEX_DIGITS, random.int(0, 3000)) };
+    case 'base64_lookalike':
+      return { input: random.string(BASE64_CHARS, random.int(0, 1000)) + '='.repeat(random.int(0, 3)) };
+    case 'random_text':
+      return { input: Array.from({ length: random.int(0, 500) }, () => String.fromCodePoint(random.int(1, 0x2fff))).join('') };
+    case 'zlib_lookalike': {
+      // Looks like zlib once decrypted, so the data reaches the decompression fallbacks
+      const bytes = Uint8Array.from([0x78, random.pick([0x01, 0x5e, 0x9c, 0xda]), ...random.bytes(random.int(0, 1500))]);
+      return { input: toScannedForm(random, xorWithKey(bytes, keyring.list()[0].key), recipe) };
+    }
+  }
+}
+
+/**
+ * Build case number index of the run with the given seed
+ */
+export function generateCase(seed: number, index: number): FuzzCase {
+  const random = new FuzzRandom(caseSeed(seed, index));
+  const recipe: string[] = [];
+  const roll = random.next();
+  if (roll < 0.6) {
+    recipe.push('encoded');
+    return { index, recipe, ...encodedCase(random, recipe) };
+  }
+  if (roll < 0.85) {
+    recipe.push('hostile_payload');
+    return { index, recipe, ...hostilePayloadCase(random, recipe) };
+  }
+  recipe.push('random_input');
+  return { index, recipe, ...randomInputCase(random, recipe) };
+}
+
+/**
+ * Short printable form of an input for reports
+ */
+export function describeInput(input: ScannedData, maxLength: number = 120): string {
+  const text = typeof input === 'string'
+    ? `text(${input.length}) ${JSON.stringify(input)}`
+    : `bytes(${input.length}) ${toHex(input)}`;
+  return text.length > maxLength ? `${text.slice(0, maxLength - 3)}...` : text;
+}
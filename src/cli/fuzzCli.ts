@@ -0,0 +1,445 @@
+import { performance } from 'node:perf_hooks';
+import { parseArgs } from 'node:util';
+import { Worker, isMainThread, parentPort, workerData } from 'node:worker_threads';
+import {
+  MadagascarLicenseDecoder,
+  MadagascarLicenseEncoder,
+  LicenseKeyring,
+  TrustStore,
+  base64ToBytes,
+  bytesToBase64,
+  type DecodedResult,
+  type DecodeMode,
+  type DecodeSuccess,
+  type EncodableLicense
+} from '@linc-scan/decoder';
+import { jpegJsDecodeCheck } from '../utils/jpegDecodeCheck';
+import { FUZZ_TRUSTED_KEY, describeInput, generateCase, type FuzzCase } from './fuzzCases';
+import { UsageError, errorMessage } from './cliSupport';
+
+/**
+ * Property-based fuzzing of the decode pipeline - builds valid payloads through the encoder,
+ * damages them and throws hostile payloads and random input at the decoder
+ * Cases run in a worker thread so a decode that never returns is caught by the watchdog
+ */
+
+const USAGE = `Fuzz the license decoder with generated and damaged barcode data
+
+Usage:
+  linc-fuzz [options]
+
+Options:
+  --cases N          Number of cases to run (default: 1000)
+  --seed N           Run seed (default: random, printed so the run can be repeated)
+  --case N           Replay one case of the seeded run and print its input and results
+  --mode MODE        strict, lenient or both (default: both)
+  --slow-ms N        Report decodes slower than this (default: 2000)
+  --hang-ms N        Give up on a decode after this long (default: 10000)
+  -q, --quiet        Only print violations and the summary
+  -h, --help         Show this help
+
+Properties checked on every decode:
+  - the decoder returns a result and never throws
+  - failures carry a typed error code (never UNKNOWN)
+  - no decode hangs or runs slower than --slow-ms
+  - every success on damaged encoder-built input decodes to the encoded license exactly (and to the
+    encoded photo when confidence is high) - damaged data must fail, not decode to other fields
+  - only data signed by the trusted fuzz issuer verifies as authentic; an intact signed, unsigned,
+    unknown-issuer or tampered barcode gets authentic, unsigned, unknown_issuer or invalid
+  - every strict or high-confidence success re-encodes and decodes to the same fields and photo (encoder/decoder consistency -
+    this compares the decoder with itself, the check above compares it with the original input)
+Exit code: 0 when no property was violated, 1 otherwise, 2 for bad arguments.`;
+
+type FuzzModeOption = DecodeMode | 'both';
+
+type ViolationKind = 'threw' | 'untyped_error' | 'hang' | 'slow' | 'false_success' | 'round_trip' | 'signature';
+
+interface FuzzOptions {
+  cases: number;
+  seed: number;
+  replay?: number;
+  modes: DecodeMode[];
+  slowMs: number;
+  hangMs: number;
+  quiet: boolean;
+}
+
+interface Violation {
+  kind: ViolationKind;
+  index: number;
+  mode?: DecodeMode;               // Absent for a hang (the worker cannot say which decode was running)
+  detail: string;
+}
+
+/**
+ * Outcome counts for one decode mode
+ */
+interface ModeStats {
+  succeeded: number;
+  failures: Record<string, number>;  // By error code
+}
+
+type WorkerMessage =
+  | { type: 'case'; index: number }
+  | { type: 'violation'; violation: Violation }
+  | { type: 'outcome'; mode: DecodeMode; code?: string }   // code absent: decoded
+  | { type: 'done' };
+
+interface WorkerInput {
+  options: FuzzOptions;
+  from: number;
+}
+
+// Fields compared against the encoded original - the name parts are derived, not encoded
+const ENCODED_FIELDS: Array<keyof EncodableLicense> = [
+  'person_name', 'id_number', 'date_of_birth', 'license_number', 'valid_from', 'valid_to',
+  'license_codes', 'vehicle_restrictions', 'driver_restrictions', 'sex', 'country', 'format_version'
+];
+
+function parseNumber(value: string | undefined, name: string, fallback: number): number {
+  if (value === undefined) {
+    return fallback;
+  }
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 0) {
+    throw new UsageError(`--${name} must be a non-negative integer, got '${value}'`);
+  }
+  return number;
+}
+
+function parseOptions(args: string[]): FuzzOptions | undefined {
+  let values;
+  try {
+    ({ values } = parseArgs({
+      args,
+      options: {
+        cases: { type: 'string' },
+        seed: { type: 'string' },
+        case: { type: 'string' },
+        mode: { type: 'string', default: 'both' },
+        'slow-ms': { type: 'string' },
+        'hang-ms': { type: 'string' },
+        quiet: { type: 'boolean', short: 'q', default: false },
+        help: { type: 'boolean', short: 'h', default: false }
+      }
+    }));
+  } catch (error) {
+    throw new UsageError(errorMessage(error));
+  }
+
+  if (values.help) {
+    return undefined;
+  }
+  const mode = values.mode as FuzzModeOption;
+  if (!['strict', 'lenient', 'both'].includes(mode)) {
+    throw new UsageError(`--mode must be strict, lenient or both, got '${values.mode}'`);
+  }
+
+  const options: FuzzOptions = {
+    cases: parseNumber(values.cases, 'cases', 1000),
+    seed: parseNumber(values.seed, 'seed', Math.floor(Math.random() * 0xffffffff)),
+    replay: values.case === undefined ? undefined : parseNumber(values.case, 'case', 0),
+    modes: mode === 'both' ? ['strict', 'lenient'] : [mode],
+    slowMs: parseNumber(values['slow-ms'], 'slow-ms', 2000),
+    hangMs: parseNumber(values['hang-ms'], 'hang-ms', 10000),
+    quiet: values.quiet
+  };
+  if (options.seed > 0xffffffff) {
+    throw new UsageError('--seed must fit in 32 bits');
+  }
+  return options;
+}
+
+function sameJson(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Encoded fields that differ between the decoded license and the expected one
+ */
+function fieldDifferences(decoded: DecodeSuccess, expected: EncodableLicense): string[] {
+  return ENCODED_FIELDS
+    .filter(field => !sameJson(decoded.license_data[field], expected[field]))
+    .map(field => `${field}: expected ${JSON.stringify(expected[field])}, got ${JSON.stringify(decoded.license_data[field])}`);
+}
+
+function photoBytes(result: DecodeSuccess): Uint8Array | undefined {
+  return result.image_base64 ? base64ToBytes(result.image_base64) : undefined;
+}
+
+/**
+ * Re-encode a decoded license and decode it again - the fields and photo must come back unchanged
+ * Only shows the decoder agrees with the encoder; fieldDifferences against the case original checks the input
+ * Returns what broke, or undefined when the data round-trips
+ */
+function roundTripProblem(result: DecodeSuccess, decoder: MadagascarLicenseDecoder, encoder: MadagascarLicenseEncoder): string | undefined {
+  const license = Object.fromEntries(ENCODED_FIELDS.map(field => [field, result.license_data[field]])) as unknown as EncodableLicense;
+  let again: DecodedResult;
+  try {
+    again = decoder.decodeBytes(encoder.encode(license, photoBytes(result), { keyId: result.key_id }).encrypted);
+  } catch (error) {
+    return `decoded license cannot be re-encoded: ${errorMessage(error)}`;
+  }
+  if (!again.success) {
+    return `re-encoded license fails to decode: ${again.error_details.code} ${again.error}`;
+  }
+  const differences = fieldDifferences(again, license);
+  if (again.image_base64 !== result.image_base64) {
+    differences.push('photo changed');
+  }
+  return differences.length > 0 ? `re-encoded license decodes differently: ${differences.join('; ')}` : undefined;
+}
+
+/**
+ * Signature status must match what the barcode was built with - and only issuer-signed data may be authentic
+ */
+function signatureProblem(result: DecodeSuccess, fuzzCase: FuzzCase): string | undefined {
+  const { status } = result.signature;
+  const original = fuzzCase.original;
+  if (status === 'authentic' && original?.signature !== 'authentic') {
+    return `authentic signature on data the trusted issuer did not sign (built as ${original?.signature ?? 'a payload without signature'})`;
+  }
+  if (original?.intact && status !== original.signature) {
+    return `intact barcode verified as ${status}, expected ${original.signature}${result.signature.reason ? ` (${result.signature.reason})` : ''}`;
+  }
+  return undefined;
+}
+
+/**
+ * Decode and verify one case in one mode and check every property
+ */
+async function checkCase(fuzzCase: FuzzCase, mode: DecodeMode, decoder: MadagascarLicenseDecoder, encoder: MadagascarLicenseEncoder, options: FuzzOptions): Promise<{ result?: DecodedResult; violations: Violation[] }> {
+  const violations: Violation[] = [];
+  const report = (kind: ViolationKind, detail: string) => violations.push({ kind, index: fuzzCase.index, mode, detail });
+
+  const started = performance.now();
+  let result: DecodedResult;
+  try {
+    result = await decoder.decodeAndVerify(fuzzCase.input);
+  } catch (error) {
+    report('threw', errorMessage(error));
+    return { violations };
+  }
+  const elapsed = performance.now() - started;
+  if (elapsed > options.slowMs) {
+    report('slow', `decode took ${Math.round(elapsed)} ms`);
+  }
+
+  if (!result.success) {
+    if (result.error_details.code === 'UNKNOWN') {
+      report('untyped_error', `${result.error_details.stage}: ${result.error}`);
+    }
+    return { result, violations };
+  }
+
+  if (fuzzCase.original) {
+    const differences = fieldDifferences(result, fuzzCase.original.license);
+    const photo = fuzzCase.original.photo;
+    if (result.confidence === 'high' && !sameJson(photoBytes(result), photo && photo.length > 0 ? photo : undefined)) {
+      differences.push('photo differs from the encoded photo');
+    }
+    if (differences.length > 0) {
+      report('false_success', `${result.confidence} confidence success with wrong data: ${differences.join('; ')}`);
+    }
+  }
+  const signature = signatureProblem(result, fuzzCase);
+  if (signature) {
+    report('signature', signature);
+  }
+  // Lenient results below high confidence may hold fields the encoder rejects (e.g. loose dates)
+  const problem = mode === 'strict' || result.confidence === 'high' ? roundTripProblem(result, decoder, encoder) : undefined;
+  if (problem) {
+    report('round_trip', problem);
+  }
+  return { result, violations };
+}
+
+function createDecoders(options: FuzzOptions): Map<DecodeMode, MadagascarLicenseDecoder> {
+  const keyring = LicenseKeyring.createDefault();
+  const trustStore = new TrustStore([FUZZ_TRUSTED_KEY]);
+  return new Map(options.modes.map(mode => [mode, new MadagascarLicenseDecoder({ keyring, trustStore, mode, jpegDecodeCheck: jpegJsDecodeCheck })]));
+}
+
+/**
+ * Worker side: run cases from `from` onwards, announcing each one before decoding it
+ */
+async function runWorker({ options, from }: WorkerInput): Promise<void> {
+  const port = parentPort!;
+  const decoders = createDecoders(options);
+  const encoder = new MadagascarLicenseEncoder(LicenseKeyring.createDefault());
+  for (let index = from; index < options.cases; index++) {
+    port.postMessage({ type: 'case', index } satisfies WorkerMessage);
+    const fuzzCase = generateCase(options.seed, index);
+    for (const [mode, decoder] of decoders) {
+      const { result, violations } = await checkCase(fuzzCase, mode, decoder, encoder, options);
+      violations.forEach(violation => port.postMessage({ type: 'violation', violation } satisfies WorkerMessage));
+      if (result) {
+        port.postMessage({ type: 'outcome', mode, code: result.success ? undefined : result.error_details.code } satisfies WorkerMessage);
+      }
+    }
+  }
+  port.postMessage({ type: 'done' } satisfies WorkerMessage);
+}
+
+/**
+ * Run cases in a worker from `from` onwards
+ * Resolves with the index of a case that hung (the worker is then stopped), or undefined when all cases ran
+ */
+function runBatch(options: FuzzOptions, from: number, onMessage: (message: WorkerMessage) => void): Promise<number | undefined> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL(import.meta.url), { workerData: { options, from } satisfies WorkerInput });
+    let current = from;
+    let watchdog: ReturnType<typeof setTimeout> | undefined;
+    let settled = false;
+    const finish = (hung: number | undefined) => {
+      settled = true;
+      clearTimeout(watchdog);
+      worker.terminate().then(() => resolve(hung), reject);
+    };
+
+    // Armed per case, so worker start-up time does not count against the first decode
+    worker.on('message', (message: WorkerMessage) => {
+      if (message.type === 'case') {
+        current = message.index;
+        clearTimeout(watchdog);
+        watchdog = setTimeout(() => finish(current), options.hangMs * options.modes.length);
+      }
+      onMessage(message);
+      if (message.type === 'done') {
+        finish(undefined);
+      }
+    });
+    worker.on('error', error => {
+      settled = true;
+      clearTimeout(watchdog);
+      reject(error);
+    });
+    worker.on('exit', code => {
+      if (!settled) {
+        clearTimeout(watchdog);
+        reject(new Error(`Fuzz worker stopped with exit code ${code} during case ${current}`));
+      }
+    });
+  });
+}
+
+function printViolation(violation: Violation, seed: number): void {
+  const fuzzCase = generateCase(seed, violation.index);
+  console.log(`❌ ${violation.kind} - case ${violation.index}${violation.mode ? ` (${violation.mode})` : ''}: ${violation.detail}`);
+  console.log(`   recipe: ${fuzzCase.recipe.join(' > ')}`);
+  console.log(`   input: ${describeInput(fuzzCase.input)}`);
+  console.log(`   replay: linc-fuzz --seed ${seed} --case ${violation.index}`);
+}
+
+function printSummary(stats: Record<string, ModeStats>, violations: Violation[], casesRun: number, seconds: number): void {
+  console.error(`\n📊 ${casesRun} cases in ${seconds.toFixed(1)} s`);
+  for (const [mode, { succeeded, failures }] of Object.entries(stats)) {
+    const codes = Object.entries(failures).sort((a, b) => b[1] - a[1]).map(([code, count]) => `${code} ${count}`).join(', ');
+    console.error(`  ${mode}: ${succeeded} decoded${codes ? `, failed: ${codes}` : ''}`);
+  }
+
+  if (violations.length === 0) {
+    console.error('✅ No property violations');
+    return;
+  }
+  const byKind = new Map<ViolationKind, number>();
+  violations.forEach(violation => byKind.set(violation.kind, (byKind.get(violation.kind) ?? 0) + 1));
+  console.error(`❌ ${violations.length} property violations: ${[...byKind].map(([kind, count]) => `${kind} ${count}`).join(', ')}`);
+}
+
+/**
+ * Decode a single case in the main thread and show everything about it
+ */
+async function replayCase(options: FuzzOptions, index: number): Promise<number> {
+  const fuzzCase = generateCase(options.seed, index);
+  console.log(`🔁 Case ${index} of seed ${options.seed}: ${fuzzCase.recipe.join(' > ')}`);
+  console.log(`Input: ${typeof fuzzCase.input === 'string' ? JSON.stringify(fuzzCase.input) : bytesToBase64(fuzzCase.input) + ' (base64 of raw bytes)'}`);
+
+  const decoders = createDecoders(options);
+  const encoder = new MadagascarLicenseEncoder(LicenseKeyring.createDefault());
+  let violated = false;
+  for (const [mode, decoder] of decoders) {
+    const { result, violations } = await checkCase(fuzzCase, mode, decoder, encoder, options);
+    const outcome = !result ? 'threw'
+      : result.success ? `success (${result.confidence} confidence, ${result.decode_method.decompression}/${result.decode_method.parse}, signature ${result.signature.status})`
+      : `failure ${result.error_details.code}: ${result.error}`;
+    console.log(`\n${mode}: ${outcome}`);
+    violations.forEach(violation => console.log(`  ❌ ${violation.kind}: ${violation.detail}`));
+    violated ||= violations.length > 0;
+  }
+  return violated ? 1 : 0;
+}
+
+/**
+ * Run the fuzzer and return its exit code
+ */
+async function main(args: string[]): Promise<number> {
+  let options: FuzzOptions | undefined;
+  try {
+    options = parseOptions(args);
+  } catch (error) {
+    console.error(USAGE);
+    console.error(`\nerror: ${errorMessage(error)}`);
+    return 2;
+  }
+  if (!options) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (options.replay !== undefined) {
+    return replayCase(options, options.replay);
+  }
+
+  console.error(`🎲 Fuzzing ${options.cases} cases (${options.modes.join(' + ')}) with seed ${options.seed}`);
+  const started = performance.now();
+  const violations: Violation[] = [];
+  const stats: Record<string, ModeStats> = {};
+  let casesRun = 0;
+  const onMessage = (message: WorkerMessage) => {
+    if (message.type === 'case') {
+      casesRun++;
+      if (!options.quiet && casesRun % 100 === 0) {
+        console.error(`🔍 ${casesRun}/${options.cases}`);
+      }
+    } else if (message.type === 'violation') {
+      violations.push(message.violation);
+      printViolation(message.violation, options.seed);
+    } else if (message.type === 'outcome') {
+      const modeStats = stats[message.mode] ??= { succeeded: 0, failures: {} };
+      if (message.code === undefined) {
+        modeStats.succeeded++;
+      } else {
+        modeStats.failures[message.code] = (modeStats.failures[message.code] ?? 0) + 1;
+      }
+    }
+  };
+
+  // A hung case stops its worker - report it and carry on with a fresh worker after it
+  let from = 0;
+  try {
+    while (from < options.cases) {
+      const hung = await runBatch(options, from, onMessage);
+      if (hung === undefined) {
+        break;
+      }
+      const violation: Violation = { kind: 'hang', index: hung, detail: `no result after ${options.hangMs} ms per mode` };
+      violations.push(violation);
+      printViolation(violation, options.seed);
+      from = hung + 1;
+    }
+  } catch (error) {
+    console.error(`ERROR: ${errorMessage(error)}`);
+    return 1;
+  }
+
+  printSummary(stats, violations, casesRun, (performance.now() - started) / 1000);
+  return violations.length === 0 ? 0 : 1;
+}
+
+if (isMainThread) {
+  main(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+  });
+} else {
+  runWorker(workerData as WorkerInput);
+}
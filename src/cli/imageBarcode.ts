@@ -0,0 +1,96 @@
+import {
+  BarcodeFormat,
+  BinaryBitmap,
+  DecodeHintType,
+  HybridBinarizer,
+  MultiFormatReader,
+  PDF417Reader,
+  RGBLuminanceSource,
+  type Result
+} from '@zxing/library';
+import { decode as decodeJpeg } from 'jpeg-js';
+import { PNG } from 'pngjs';
+import { extractScanBytes } from '../utils/scanBytes';
+import { errorMessage } from './cliSupport';
+
+export type BarcodeImageType = 'png' | 'jpeg';
+
+/**
+ * Barcode image that could not be read - code says whether the file or the barcode was the problem
+ */
+export class BarcodeImageError extends Error {
+  public readonly code: 'IMAGE_UNREADABLE' | 'NO_BARCODE';
+
+  constructor(code: 'IMAGE_UNREADABLE' | 'NO_BARCODE', message: string) {
+    super(message);
+    this.name = 'BarcodeImageError';
+    this.code = code;
+  }
+}
+
+/**
+ * Image type from the file's magic bytes (the extension is not trusted)
+ */
+export function detectImageType(bytes: Uint8Array): BarcodeImageType | undefined {
+  if (bytes.length >= 4 && bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) {
+    return 'png';
+  }
+  if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    return 'jpeg';
+  }
+  return undefined;
+}
+
+/**
+ * Read the barcode in a PNG or JPEG photo and return its raw payload bytes
+ * Tries the PDF417 reader first, then the multi-format reader (same order as ImageScanner)
+ */
+export function readBarcodeImage(bytes: Uint8Array): Uint8Array {
+  const { width, height, data } = decodeImage(bytes);
+  const bitmap = new BinaryBitmap(new HybridBinarizer(new RGBLuminanceSource(toLuminance(data, width, height), width, height)));
+
+  const hints = new Map<DecodeHintType, unknown>([[DecodeHintType.TRY_HARDER, true]]);
+  let result: Result;
+  try {
+    result = new PDF417Reader().decode(bitmap, hints);
+  } catch (error) {
+    const reader = new MultiFormatReader();
+    hints.set(DecodeHintType.POSSIBLE_FORMATS, [BarcodeFormat.PDF_417, BarcodeFormat.QR_CODE, BarcodeFormat.DATA_MATRIX]);
+    reader.setHints(hints);
+    try {
+      result = reader.decode(bitmap);
+    } catch (error) {
+      throw new BarcodeImageError('NO_BARCODE', 'No barcode detected in the image');
+    }
+  }
+  return extractScanBytes(result);
+}
+
+function decodeImage(bytes: Uint8Array): { width: number; height: number; data: Uint8Array } {
+  const type = detectImageType(bytes);
+  try {
+    if (type === 'png') {
+      return PNG.sync.read(Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength));
+    }
+    if (type === 'jpeg') {
+      return decodeJpeg(bytes, { useTArray: true, formatAsRGBA: true });
+    }
+  } catch (error) {
+    throw new BarcodeImageError('IMAGE_UNREADABLE', `Image could not be decoded: ${errorMessage(error)}`);
+  }
+  throw new BarcodeImageError('IMAGE_UNREADABLE', 'File is not a PNG or JPEG image');
+}
+
+/**
+ * RGBA pixels to one luminance byte per pixel (transparent pixels count as white paper)
+ */
+function toLuminance(rgba: Uint8Array, width: number, height: number): Uint8ClampedArray {
+  const luminance = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < luminance.length; i++) {
+    const offset = i * 4;
+    const alpha = rgba[offset + 3] / 255;
+    const gray = (rgba[offset] * 306 + rgba[offset + 1] * 601 + rgba[offset + 2] * 117) >> 10;
+    luminance[i] = gray * alpha + 255 * (1 - alpha);
+  }
+  return luminance;
+}
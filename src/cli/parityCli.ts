@@ -0,0 +1,278 @@
+import { spawnSync } from 'node:child_process';
+import { readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { basename, join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { MadagascarLicenseDecoder } from '@linc-scan/decoder';
+import { jpegJsDecodeCheck } from '../utils/jpegDecodeCheck';
+import { UsageError, errorMessage } from './cliSupport';
+import { toReferenceOutcome, type ReferenceOutcome } from './referenceFormat';
+
+/**
+ * Parity harness - runs licenseDecoder.ts and the Python reference decoder (PDF417_Code_py)
+ * over the golden fixtures and reports every field where either one disagrees with the recorded output
+ */
+
+const USAGE = `Parity check between licenseDecoder.ts and the Python reference decoder
+
+Usage:
+  linc-parity [fixture-directory] [options]
+
+Options:
+  --reference PATH   Python reference decoder (default: PDF417_Code_py)
+  --python CMD       Python interpreter (default: python3)
+  --skip-python      Only check licenseDecoder.ts against the golden outputs
+  --update           Re-record every golden output from the Python reference
+  -q, --quiet        Only print fixtures with differences
+  -h, --help         Show this help
+
+Fixtures default to fixtures/parity. Each fixture is a JSON file with the scanned input and the
+reference output; known_differences lists fields where licenseDecoder.ts is allowed to disagree.
+Exit code: 0 when both decoders match every fixture, 1 on any unexpected difference, 2 for bad arguments.`;
+
+// Loads the reference module without running its CLI and decodes every input from stdin.
+// The reference prints its progress to stdout, so that goes to stderr and stdout carries only the JSON.
+const REFERENCE_DRIVER = `
+import contextlib, importlib.machinery, importlib.util, json, sys
+with contextlib.redirect_stdout(sys.stderr):
+    loader = importlib.machinery.SourceFileLoader('reference_decoder', sys.argv[1])
+    module = importlib.util.module_from_spec(importlib.util.spec_from_loader('reference_decoder', loader))
+    loader.exec_module(module)
+    decoder = module.MadagascarLicenseDecoder()
+    results = []
+    for scanned_data in json.load(sys.stdin):
+        try:
+            results.append(decoder.decode_barcode_data(scanned_data))
+        except Exception as error:
+            results.append({'success': False, 'error': str(error)})
+json.dump(results, sys.stdout)
+`;
+
+interface ParityOptions {
+  directory: string;
+  reference: string;
+  python: string;
+  skipPython: boolean;
+  update: boolean;
+  quiet: boolean;
+}
+
+/**
+ * One golden fixture file
+ */
+interface ParityFixture {
+  description: string;
+  input: string;                   // Scanned data, passed unchanged to both decoders
+  expected: ReferenceOutcome;      // Python reference output when the fixture was recorded
+  known_differences?: string[];    // Field paths where licenseDecoder.ts knowingly disagrees (reason in description)
+}
+
+interface FieldDifference {
+  path: string;
+  expected: string;
+  actual: string;
+}
+
+interface FixtureReport {
+  name: string;
+  decoder: FieldDifference[];      // licenseDecoder.ts against the golden output
+  reference: FieldDifference[];    // Python reference against the golden output
+  knownResolved: string[];         // Known differences that no longer occur
+}
+
+function parseOptions(args: string[]): ParityOptions | undefined {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        reference: { type: 'string', default: 'PDF417_Code_py' },
+        python: { type: 'string', default: 'python3' },
+        'skip-python': { type: 'boolean', default: false },
+        update: { type: 'boolean', default: false },
+        quiet: { type: 'boolean', short: 'q', default: false },
+        help: { type: 'boolean', short: 'h', default: false }
+      }
+    });
+  } catch (error) {
+    throw new UsageError(errorMessage(error));
+  }
+
+  const { values, positionals } = parsed;
+  if (values.help) {
+    return undefined;
+  }
+  if (positionals.length > 1) {
+    throw new UsageError('expected at most one fixture directory');
+  }
+  if (values.update && values['skip-python']) {
+    throw new UsageError('--update needs the Python reference, drop --skip-python');
+  }
+
+  return {
+    directory: positionals[0] ?? 'fixtures/parity',
+    reference: values.reference,
+    python: values.python,
+    skipPython: values['skip-python'],
+    update: values.update,
+    quiet: values.quiet
+  };
+}
+
+function loadFixtures(directory: string): Map<string, ParityFixture> {
+  const fixtures = new Map<string, ParityFixture>();
+  const files = readdirSync(directory).filter(file => file.endsWith('.json')).sort();
+  for (const file of files) {
+    let fixture: ParityFixture;
+    try {
+      fixture = JSON.parse(readFileSync(join(directory, file), 'utf-8'));
+    } catch (error) {
+      throw new Error(`Invalid fixture ${file}: ${errorMessage(error)}`);
+    }
+    if (typeof fixture.input !== 'string' || typeof fixture.expected?.success !== 'boolean') {
+      throw new Error(`Invalid fixture ${file}: expected 'input' and 'expected'`);
+    }
+    fixtures.set(basename(file, '.json'), fixture);
+  }
+  return fixtures;
+}
+
+/**
+ * Decode every input with the Python reference in a single interpreter run
+ */
+function runReference(inputs: string[], options: ParityOptions): ReferenceOutcome[] {
+  const run = spawnSync(options.python, ['-c', REFERENCE_DRIVER, options.reference], {
+    input: JSON.stringify(inputs),
+    encoding: 'utf-8',
+    env: { ...process.env, PYTHONIOENCODING: 'utf-8' },
+    maxBuffer: 64 * 1024 * 1024,
+    timeout: 120_000
+  });
+  if (run.error) {
+    throw new Error(`Could not run ${options.python}: ${run.error.message} (use --skip-python to check licenseDecoder.ts only)`);
+  }
+  if (run.status !== 0) {
+    throw new Error(`Python reference exited with status ${run.status}:\n${run.stderr.trim()}`);
+  }
+  return JSON.parse(run.stdout);
+}
+
+/**
+ * Flatten an outcome into field path -> JSON value
+ * Failures only compare on success - the two decoders word their errors differently
+ */
+function flattenOutcome(outcome: ReferenceOutcome): Map<string, string> {
+  const fields = new Map<string, string>();
+  const visit = (value: unknown, path: string): void => {
+    if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+      Object.entries(value).forEach(([key, child]) => visit(child, path ? `${path}.${key}` : key));
+    } else {
+      fields.set(path, JSON.stringify(value));
+    }
+  };
+  visit(outcome.success ? outcome : { success: false }, '');
+  return fields;
+}
+
+function diffOutcomes(expected: ReferenceOutcome, actual: ReferenceOutcome): FieldDifference[] {
+  if (expected.success !== actual.success) {
+    return [{ path: 'success', expected: String(expected.success), actual: String(actual.success) }];
+  }
+  const expectedFields = flattenOutcome(expected);
+  const actualFields = flattenOutcome(actual);
+  const paths = [...new Set([...expectedFields.keys(), ...actualFields.keys()])];
+  return paths
+    .filter(path => expectedFields.get(path) !== actualFields.get(path))
+    .map(path => ({
+      path,
+      expected: expectedFields.get(path) ?? '(missing)',
+      actual: actualFields.get(path) ?? '(missing)'
+    }));
+}
+
+function preview(value: string): string {
+  return value.length > 60 ? `${value.slice(0, 57)}...` : value;
+}
+
+function printReport(report: FixtureReport, fixture: ParityFixture, quiet: boolean): void {
+  const known = new Set(fixture.known_differences ?? []);
+  const unexpected = report.decoder.filter(difference => !known.has(difference.path));
+  if (quiet && unexpected.length === 0 && report.reference.length === 0) {
+    return;
+  }
+
+  const status = unexpected.length > 0 || report.reference.length > 0 ? '❌' : report.decoder.length > 0 ? '⚠️' : '✅';
+  console.log(`${status} ${report.name} - ${fixture.description}`);
+  for (const difference of report.decoder) {
+    const label = known.has(difference.path) ? ' (known)' : '';
+    console.log(`  licenseDecoder.ts ${difference.path}${label}: expected ${preview(difference.expected)}, got ${preview(difference.actual)}`);
+  }
+  for (const difference of report.reference) {
+    console.log(`  PDF417_Code_py ${difference.path}: expected ${preview(difference.expected)}, got ${preview(difference.actual)}`);
+  }
+  for (const path of report.knownResolved) {
+    console.log(`  ℹ️ known difference no longer occurs: ${path}`);
+  }
+}
+
+/**
+ * Run the harness and return its exit code
+ */
+function main(args: string[]): number {
+  let options: ParityOptions | undefined;
+  try {
+    options = parseOptions(args);
+  } catch (error) {
+    console.error(USAGE);
+    console.error(`\nerror: ${errorMessage(error)}`);
+    return 2;
+  }
+  if (!options) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  let fixtures: Map<string, ParityFixture>;
+  let referenceOutcomes: ReferenceOutcome[] | undefined;
+  try {
+    fixtures = loadFixtures(options.directory);
+    if (!options.skipPython) {
+      referenceOutcomes = runReference([...fixtures.values()].map(fixture => fixture.input), options);
+    }
+  } catch (error) {
+    console.error(`ERROR: ${errorMessage(error)}`);
+    return 1;
+  }
+
+  if (options.update && referenceOutcomes) {
+    [...fixtures.entries()].forEach(([name, fixture], index) => {
+      fixture.expected = referenceOutcomes[index];
+      writeFileSync(join(options.directory, `${name}.json`), JSON.stringify(fixture, null, 2) + '\n');
+    });
+    console.error(`📝 Recorded ${fixtures.size} golden outputs from ${options.reference}`);
+  }
+
+  const decoder = new MadagascarLicenseDecoder({ jpegDecodeCheck: jpegJsDecodeCheck });
+  let failures = 0;
+  [...fixtures.entries()].forEach(([name, fixture], index) => {
+    const decoderDifferences = diffOutcomes(fixture.expected, toReferenceOutcome(decoder.decodeBarcodeData(fixture.input)));
+    const report: FixtureReport = {
+      name,
+      decoder: decoderDifferences,
+      reference: referenceOutcomes ? diffOutcomes(fixture.expected, referenceOutcomes[index]) : [],
+      knownResolved: (fixture.known_differences ?? []).filter(path => !decoderDifferences.some(difference => difference.path === path))
+    };
+
+    const known = new Set(fixture.known_differences ?? []);
+    if (report.reference.length > 0 || report.decoder.some(difference => !known.has(difference.path))) {
+      failures++;
+    }
+    printReport(report, fixture, options.quiet);
+  });
+
+  const checked = referenceOutcomes ? 'licenseDecoder.ts and PDF417_Code_py' : 'licenseDecoder.ts';
+  console.error(`\n📊 ${fixtures.size - failures} of ${fixtures.size} fixtures match for ${checked} (${failures} with unexpected differences)`);
+  return failures === 0 ? 0 : 1;
+}
+
+process.exitCode = main(process.argv.slice(2));
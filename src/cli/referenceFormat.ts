@@ -0,0 +1,88 @@
+import type { DecodedResult, DecodeSuccess } from '@linc-scan/decoder';
+
+/**
+ * license_data as the Python reference decoder (PDF417_Code_py) returns it
+ */
+export interface ReferenceLicenseData {
+  person_name: string;
+  id_number: string;
+  date_of_birth: string;
+  license_number: string;
+  valid_from: string;
+  valid_to: string;
+  license_codes: string[];
+  vehicle_restrictions: string[];
+  driver_restrictions: string[];
+  sex: string;
+  country: string;
+  format_version: string;
+}
+
+/**
+ * Decode result in the Python reference decoder's JSON shape (same keys, same order)
+ */
+export interface ReferenceResult {
+  success: true;
+  license_data: ReferenceLicenseData;
+  has_image: boolean;
+  image_size_bytes: number;
+  total_payload_size: number;
+  decoding_format: string;
+  message: string;
+  image_base64?: string;
+  image_format?: string;
+}
+
+/**
+ * A failed decode - the Python tool raises instead of returning a result, so only the message is comparable
+ */
+export interface ReferenceFailure {
+  success: false;
+  error: string;
+}
+
+export type ReferenceOutcome = ReferenceResult | ReferenceFailure;
+
+/**
+ * Trim a decode result down to what the Python reference decoder outputs
+ */
+export function toReferenceResult(result: DecodeSuccess): ReferenceResult {
+  const data = result.license_data;
+  const reference: ReferenceResult = {
+    success: true,
+    license_data: {
+      person_name: data.person_name,
+      id_number: data.id_number,
+      date_of_birth: data.date_of_birth,
+      license_number: data.license_number,
+      valid_from: data.valid_from,
+      valid_to: data.valid_to,
+      license_codes: data.license_codes,
+      vehicle_restrictions: data.vehicle_restrictions,
+      driver_restrictions: data.driver_restrictions,
+      sex: data.sex,
+      country: data.country,
+      format_version: data.format_version
+    },
+    has_image: result.has_image,
+    image_size_bytes: result.image_size_bytes,
+    total_payload_size: result.total_payload_size,
+    decoding_format: result.decoding_format,
+    message: result.message
+  };
+
+  if (result.image_base64) {
+    reference.image_base64 = result.image_base64;
+    reference.image_format = result.image_format;
+  }
+  return reference;
+}
+
+/**
+ * Either outcome of a decode in the reference shape
+ */
+export function toReferenceOutcome(result: DecodedResult): ReferenceOutcome {
+  return result.success
+    ? toReferenceResult(result)
+    : { success: false, error: `${result.message}: ${result.error}` };
+}
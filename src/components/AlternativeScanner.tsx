@@ -1,7 +1,11 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
+import { ScannedData } from '@linc-scan/decoder';
+import { extractScanBytes, bytesPreview } from '../utils/scanBytes';
+import { LocalizedMessage } from '../utils/i18n';
+import { useI18n } from '../i18n/context';
 
 interface AlternativeScannerProps {
-  onScan: (data: string) => void;
+  onScan: (data: ScannedData) => void;
   isScanning: boolean;
   onScanningChange: (scanning: boolean) => void;
 }
@@ -11,20 +15,21 @@ export const AlternativeScanner: React.FC<AlternativeScannerProps> = ({
   isScanning,
   onScanningChange
 }) => {
+  const { t, tMessage, plural } = useI18n();
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const scanningRef = useRef<boolean>(false);
-  const [error, setError] = useState<string>('');
-  const [status, setStatus] = useState<string>('');
+  const [error, setError] = useState<LocalizedMessage | null>(null);
+  const [status, setStatus] = useState<LocalizedMessage | null>(null);
   const [scanAttempts, setScanAttempts] = useState<number>(0);
-  const [rawData, setRawData] = useState<string>('');
+  const [rawData, setRawData] = useState<Uint8Array | null>(null);
 
   // Start camera stream
   const startCamera = useCallback(async () => {
     try {
-      setError('');
-      setStatus('Starting camera...');
+      setError(null);
+      setStatus({ key: 'scanner.status.starting' });
       console.log('🔍 Alternative Scanner: Starting camera...');
       
       const constraints: MediaStreamConstraints = {
@@ -41,11 +46,11 @@ export const AlternativeScanner: React.FC<AlternativeScannerProps> = ({
       if (videoRef.current) {
         videoRef.current.srcObject = stream;
         await videoRef.current.play();
-        setStatus('Camera ready - Try with ANY barcode first');
+        setStatus({ key: 'alternative.status.ready' });
         console.log('🔍 Alternative Scanner: Camera ready');
       }
     } catch (err) {
-      setError('Camera failed: ' + (err instanceof Error ? err.message : 'Unknown error'));
+      setError({ key: 'camera.failed', params: { detail: err instanceof Error ? err.message : String(err) } });
       console.error('🔍 Alternative Scanner: Camera error:', err);
     }
   }, []);
@@ -59,7 +64,7 @@ export const AlternativeScanner: React.FC<AlternativeScannerProps> = ({
     if (videoRef.current) {
       videoRef.current.srcObject = null;
     }
-    setStatus('');
+    setStatus(null);
     console.log('🔍 Alternative Scanner: Camera stopped');
   }, []);
 
@@ -86,17 +91,18 @@ export const AlternativeScanner: React.FC<AlternativeScannerProps> = ({
   }, []);
 
   // Try ZXing with different approach
-  const scanWithZXing = useCallback(async () => {
+  const scanWithZXing = useCallback(async (): Promise<Uint8Array | null> => {
     try {
       // Dynamic import to avoid build issues
       const { BrowserMultiFormatReader } = await import('@zxing/library');
       const reader = new BrowserMultiFormatReader();
       
       if (videoRef.current) {
-        const result = await reader.decodeFromVideoDevice(undefined, videoRef.current);
+        const result = await reader.decodeOnceFromVideoDevice(undefined, videoRef.current);
         if (result) {
-          console.log('🔍 ZXing result:', result.getText());
-          return result.getText();
+          const bytes = extractScanBytes(result);
+          console.log(`🔍 ZXing result: ${bytes.length} bytes`);
+          return bytes;
         }
       }
     } catch (err) {
@@ -114,7 +120,7 @@ export const AlternativeScanner: React.FC<AlternativeScannerProps> = ({
 
     scanningRef.current = true;
     onScanningChange(true);
-    setStatus('🔍 Scanning with multiple methods...');
+    setStatus({ key: 'alternative.status.scanning' });
     setScanAttempts(0);
     console.log('🔍 Starting multi-method scanning');
 
@@ -127,8 +133,8 @@ export const AlternativeScanner: React.FC<AlternativeScannerProps> = ({
         // Method 1: Try ZXing Multi-Format Reader (supports more formats)
         const zxingResult = await scanWithZXing();
         if (zxingResult) {
-          console.log('🔍 ✅ Barcode found with ZXing!', zxingResult);
-          setStatus('✅ Barcode detected!');
+          console.log('🔍 ✅ Barcode found with ZXing!', bytesPreview(zxingResult, 25));
+          setStatus({ key: 'scanner.status.detected' });
           setRawData(zxingResult); // Store raw data for display
           onScan(zxingResult);
           stopScanning();
@@ -161,7 +167,7 @@ export const AlternativeScanner: React.FC<AlternativeScannerProps> = ({
     scanningRef.current = false;
     onScanningChange(false);
     setScanAttempts(0);
-    setStatus('Scanning stopped');
+    setStatus({ key: 'scanner.status.stopped' });
   }, [onScanningChange]);
 
   // Handle scanning state changes
@@ -184,16 +190,16 @@ export const AlternativeScanner: React.FC<AlternativeScannerProps> = ({
   return (
     <div className="card">
       <div className="text-center mb-4">
-        <h2>🔍 Alternative Barcode Scanner</h2>
-        <p>Multi-method approach for better detection</p>
+        <h2>{t('alternative.title')}</h2>
+        <p>{t('alternative.hint')}</p>
       </div>
 
       {error && (
         <div className="error">
-          <strong>Error:</strong> {error}
+          <strong>{t('common.error')}</strong> {tMessage(error)}
           <div className="mt-4">
             <button onClick={startCamera} className="btn btn-secondary">
-              🔄 Try Again
+              {t('common.tryAgain')}
             </button>
           </div>
         </div>
@@ -240,13 +246,13 @@ export const AlternativeScanner: React.FC<AlternativeScannerProps> = ({
           margin: '12px 0',
           border: '1px solid #dee2e6'
         }}>
-          <div style={{ fontWeight: 'bold', color: status.includes('✅') ? '#28a745' : '#666' }}>
+          <div style={{ fontWeight: 'bold', color: status.key === 'scanner.status.detected' ? '#28a745' : '#666' }}>
             {isScanning && <span className="pulse">🔍 </span>}
-            {status}
+            {tMessage(status)}
           </div>
           {scanAttempts > 0 && (
             <div style={{ fontSize: '12px', color: '#666', marginTop: '4px' }}>
-              Scan attempts: {scanAttempts}
+              {t('scanner.attempts', { count: scanAttempts })}
             </div>
           )}
         </div>
@@ -261,7 +267,7 @@ export const AlternativeScanner: React.FC<AlternativeScannerProps> = ({
           padding: '12px',
           margin: '12px 0'
         }}>
-          <h4 style={{ color: '#004085', marginBottom: '8px' }}>📊 Raw Barcode Data Detected</h4>
+          <h4 style={{ color: '#004085', marginBottom: '8px' }}>{t('scanner.raw.title')}</h4>
           <div style={{ 
             fontSize: '12px',
             fontFamily: 'monospace',
@@ -273,14 +279,13 @@ export const AlternativeScanner: React.FC<AlternativeScannerProps> = ({
             maxHeight: '150px',
             overflowY: 'auto'
           }}>
-            <strong>Length:</strong> {rawData.length} characters<br/>
-            <strong>Type:</strong> {rawData.startsWith('http') ? 'URL/QR Code' : 'Data/Barcode'}<br/>
-            <strong>Data:</strong><br/>
-            {rawData}
+            <strong>{t('scanner.raw.length')}</strong> {plural('count.byte', rawData.length)}<br/>
+            <strong>{t('scanner.raw.hex')}</strong><br/>
+            {bytesPreview(rawData)}
           </div>
           <div style={{ textAlign: 'center', marginTop: '8px' }}>
             <button 
-              onClick={() => setRawData('')}
+              onClick={() => setRawData(null)}
               style={{ 
                 background: '#004085', 
                 color: 'white', 
@@ -291,7 +296,7 @@ export const AlternativeScanner: React.FC<AlternativeScannerProps> = ({
                 cursor: 'pointer'
               }}
             >
-              Clear
+              {t('common.clear')}
             </button>
           </div>
         </div>
@@ -300,7 +305,7 @@ export const AlternativeScanner: React.FC<AlternativeScannerProps> = ({
       <div className="text-center mt-4">
         {!streamRef.current ? (
           <button onClick={startCamera} className="btn btn-primary">
-            📹 Start Camera
+            {t('scanner.startCamera')}
           </button>
         ) : (
           <div>
@@ -309,10 +314,10 @@ export const AlternativeScanner: React.FC<AlternativeScannerProps> = ({
               className="btn btn-primary"
               disabled={!!error}
             >
-              {isScanning ? '⏹ Stop Scanning' : '🔍 Start Scanning'}
+              {isScanning ? t('scanner.stopScanning') : t('scanner.startScanning')}
             </button>
             <button onClick={stopCamera} className="btn btn-secondary">
-              📷 Stop Camera
+              {t('scanner.stopCamera')}
             </button>
           </div>
         )}
@@ -321,7 +326,7 @@ export const AlternativeScanner: React.FC<AlternativeScannerProps> = ({
       {/* Manual tests */}
       <div className="mt-4 text-center">
         <div style={{ marginBottom: '8px', fontSize: '14px', color: '#666' }}>
-          <strong>Quick Tests:</strong>
+          <strong>{t('alternative.quickTests')}</strong>
         </div>
         <button 
           onClick={() => {
@@ -331,7 +336,7 @@ export const AlternativeScanner: React.FC<AlternativeScannerProps> = ({
           className="btn btn-secondary"
           style={{ fontSize: '12px', padding: '6px 12px', margin: '4px' }}
         >
-          📱 Test QR
+          {t('alternative.testQr')}
         </button>
         <button 
           onClick={() => {
@@ -341,21 +346,20 @@ export const AlternativeScanner: React.FC<AlternativeScannerProps> = ({
           className="btn btn-secondary"
           style={{ fontSize: '12px', padding: '6px 12px', margin: '4px' }}
         >
-          🧪 Test Decoder
+          {t('scanner.testDecoder')}
         </button>
       </div>
 
       <div className="mt-4" style={{ fontSize: '14px', color: '#666' }}>
-        <p><strong>This scanner tries:</strong></p>
+        <p><strong>{t('alternative.tries.title')}</strong></p>
         <ul style={{ textAlign: 'left', marginLeft: '20px' }}>
-          <li>🔍 ZXing multi-format reader (QR, DataMatrix, PDF417)</li>
-          <li>📸 Higher resolution camera (1920x1080)</li>
-          <li>🎯 Frame capture for analysis</li>
-          <li>⚡ Faster scanning intervals</li>
+          <li>{t('alternative.tries.zxing')}</li>
+          <li>{t('alternative.tries.resolution')}</li>
+          <li>{t('alternative.tries.capture')}</li>
+          <li>{t('alternative.tries.interval')}</li>
         </ul>
         <p style={{ marginTop: '8px' }}>
-          <strong>💡 Try:</strong> First test with a simple QR code to verify scanning works, 
-          then try your PDF417 barcode.
+          <strong>{t('alternative.try.label')}</strong> {t('alternative.try.body')}
         </p>
       </div>
     </div>
@@ -1,8 +1,12 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
 import { BrowserPDF417Reader } from '@zxing/library';
+import { ScannedData } from '@linc-scan/decoder';
+import { extractScanBytes, bytesPreview } from '../utils/scanBytes';
+import { LocalizedMessage } from '../utils/i18n';
+import { useI18n } from '../i18n/context';
 
 interface BarcodeScannerProps {
-  onScan: (data: string) => void;
+  onScan: (data: ScannedData) => void;
   isScanning: boolean;
   onScanningChange: (scanning: boolean) => void;
 }
@@ -12,14 +16,15 @@ export const BarcodeScanner: React.FC<BarcodeScannerProps> = ({
   isScanning,
   onScanningChange
 }) => {
+  const { t, tMessage, plural } = useI18n();
   const videoRef = useRef<HTMLVideoElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const readerRef = useRef<BrowserPDF417Reader | null>(null);
   const scanningRef = useRef<boolean>(false);
-  const [error, setError] = useState<string>('');
-  const [status, setStatus] = useState<string>('');
+  const [error, setError] = useState<LocalizedMessage | null>(null);
+  const [status, setStatus] = useState<LocalizedMessage | null>(null);
   const [scanAttempts, setScanAttempts] = useState<number>(0);
-  const [rawData, setRawData] = useState<string>('');
+  const [rawData, setRawData] = useState<Uint8Array | null>(null);
 
   // Initialize the PDF417 reader
   useEffect(() => {
@@ -36,13 +41,16 @@ export const BarcodeScanner: React.FC<BarcodeScannerProps> = ({
   // Start camera stream
   const startCamera = useCallback(async () => {
     try {
-      setError('');
-      setStatus('Starting camera...');
+      setError(null);
+      setStatus({ key: 'scanner.status.starting' });
       console.log('📱 Scanner: Attempting to start camera...');
       
       // Check if getUserMedia is available
       if (!navigator.mediaDevices?.getUserMedia) {
-        throw new Error('Camera access not supported. Ensure you\'re using HTTPS.');
+        console.error('📱 Scanner: getUserMedia not available - not a secure context?');
+        setError({ key: 'camera.insecure' });
+        setStatus(null);
+        return;
       }
       
       const constraints: MediaStreamConstraints = {
@@ -61,27 +69,27 @@ export const BarcodeScanner: React.FC<BarcodeScannerProps> = ({
       if (videoRef.current) {
         videoRef.current.srcObject = stream;
         await videoRef.current.play();
-        setStatus('Camera ready - Position barcode in viewfinder');
+        setStatus({ key: 'barcode.status.ready' });
         console.log('📱 Scanner: Video element playing, camera ready');
       }
     } catch (err) {
-      let errorMessage = 'Failed to access camera';
+      let errorMessage: LocalizedMessage = { key: 'camera.failed', params: { detail: String(err) } };
       
       if (err instanceof Error) {
         if (err.name === 'NotAllowedError') {
-          errorMessage = 'Camera permission denied. Please allow camera access and refresh.';
+          errorMessage = { key: 'camera.permissionDenied' };
         } else if (err.name === 'NotFoundError') {
-          errorMessage = 'No camera found on this device.';
+          errorMessage = { key: 'camera.notFound' };
         } else if (err.name === 'NotSupportedError') {
-          errorMessage = 'Camera not supported. Try using HTTPS or a different browser.';
+          errorMessage = { key: 'camera.notSupported' };
         } else {
-          errorMessage = err.message;
+          errorMessage = { key: 'camera.failed', params: { detail: err.message } };
         }
       }
       
       setError(errorMessage);
-      setStatus('');
-      console.error('📱 Scanner: Camera error:', errorMessage, err);
+      setStatus(null);
+      console.error('📱 Scanner: Camera error:', errorMessage.key, err);
     }
   }, []);
 
@@ -95,7 +103,7 @@ export const BarcodeScanner: React.FC<BarcodeScannerProps> = ({
     if (videoRef.current) {
       videoRef.current.srcObject = null;
     }
-    setStatus('');
+    setStatus(null);
     console.log('📱 Scanner: Camera stopped');
   }, []);
 
@@ -108,7 +116,7 @@ export const BarcodeScanner: React.FC<BarcodeScannerProps> = ({
 
     scanningRef.current = true;
     onScanningChange(true);
-    setStatus('🔍 Scanning for PDF417 barcode...');
+    setStatus({ key: 'barcode.status.scanning' });
     setScanAttempts(0);
     console.log('📱 Scanner: Starting PDF417 scanning loop');
 
@@ -127,16 +135,16 @@ export const BarcodeScanner: React.FC<BarcodeScannerProps> = ({
       });
       
       try {
-        const result = await readerRef.current!.decodeFromVideoDevice(
+        const result = await readerRef.current!.decodeOnceFromVideoDevice(
           undefined, // Use default device
           videoRef.current!
         );
         
         if (result && result.getText()) {
-          const scannedData = result.getText();
-          console.log(`📱 Scanner: ✅ Barcode detected! Length: ${scannedData.length} chars`);
-          console.log(`📱 Scanner: Data preview: ${scannedData.substring(0, 50)}...`);
-          setStatus('✅ Barcode detected! Processing...');
+          const scannedData = extractScanBytes(result);
+          console.log(`📱 Scanner: ✅ Barcode detected! Length: ${scannedData.length} bytes`);
+          console.log(`📱 Scanner: Data preview: ${bytesPreview(scannedData, 25)}`);
+          setStatus({ key: 'barcode.status.processing' });
           setRawData(scannedData); // Store raw data for display
           onScan(scannedData);
           stopScanning();
@@ -162,7 +170,7 @@ export const BarcodeScanner: React.FC<BarcodeScannerProps> = ({
     if (readerRef.current) {
       readerRef.current.reset();
     }
-    setStatus('Scanning stopped');
+    setStatus({ key: 'scanner.status.stopped' });
     console.log('📱 Scanner: Scanning stopped, reader reset');
   }, [onScanningChange]);
 
@@ -186,30 +194,29 @@ export const BarcodeScanner: React.FC<BarcodeScannerProps> = ({
   return (
     <div className="card">
       <div className="text-center mb-4">
-        <h2>📱 PDF417 Barcode Scanner</h2>
-        <p>Position the barcode within the viewfinder</p>
+        <h2>{t('barcode.title')}</h2>
+        <p>{t('barcode.hint')}</p>
       </div>
 
       {error && (
         <div className="error">
-          <strong>Camera Error:</strong> {error}
+          <strong>{t('camera.error')}</strong> {tMessage(error)}
           
-          {error.includes('permission') && (
+          {error.key === 'camera.permissionDenied' && (
             <div style={{ marginTop: '12px', fontSize: '14px' }}>
-              <strong>🔧 Quick Fixes:</strong>
+              <strong>{t('barcode.fixes.title')}</strong>
               <ul style={{ textAlign: 'left', marginLeft: '16px', marginTop: '8px' }}>
-                <li>Click the 🔒 lock icon in your address bar</li>
-                <li>Set Camera to "Allow"</li>
-                <li>Refresh this page</li>
-                <li>Try in a different browser (Chrome/Safari recommended)</li>
+                <li>{t('barcode.fixes.lock')}</li>
+                <li>{t('barcode.fixes.allow')}</li>
+                <li>{t('barcode.fixes.refresh')}</li>
+                <li>{t('barcode.fixes.browser')}</li>
               </ul>
             </div>
           )}
           
-          {error.includes('HTTPS') && (
+          {(error.key === 'camera.insecure' || error.key === 'camera.notSupported') && (
             <div style={{ marginTop: '12px', fontSize: '14px', background: '#fff3cd', padding: '8px', borderRadius: '4px', color: '#856404' }}>
-              <strong>⚠️ HTTPS Required:</strong> Camera access requires a secure connection. 
-              Deploy to Vercel or use <code>https://localhost:3000</code> for testing.
+              <strong>{t('barcode.https.title')}</strong> {t('barcode.https.body')} <code>https://localhost:3000</code>
             </div>
           )}
           
@@ -218,7 +225,7 @@ export const BarcodeScanner: React.FC<BarcodeScannerProps> = ({
               onClick={startCamera}
               className="btn btn-secondary"
             >
-              🔄 Try Again
+              {t('common.tryAgain')}
             </button>
           </div>
         </div>
@@ -257,13 +264,13 @@ export const BarcodeScanner: React.FC<BarcodeScannerProps> = ({
           margin: '12px 0',
           border: '1px solid #dee2e6'
         }}>
-          <div style={{ fontWeight: 'bold', color: status.includes('✅') ? '#28a745' : '#666' }}>
+          <div style={{ fontWeight: 'bold', color: status.key === 'barcode.status.processing' ? '#28a745' : '#666' }}>
             {isScanning && <span className="pulse">🔍 </span>}
-            {status}
+            {tMessage(status)}
           </div>
           {scanAttempts > 0 && (
             <div style={{ fontSize: '12px', color: '#666', marginTop: '4px' }}>
-              Scan attempts: {scanAttempts}
+              {t('scanner.attempts', { count: scanAttempts })}
             </div>
           )}
         </div>
@@ -278,7 +285,7 @@ export const BarcodeScanner: React.FC<BarcodeScannerProps> = ({
           padding: '12px',
           margin: '12px 0'
         }}>
-          <h4 style={{ color: '#004085', marginBottom: '8px' }}>📊 Raw Barcode Data Detected</h4>
+          <h4 style={{ color: '#004085', marginBottom: '8px' }}>{t('scanner.raw.title')}</h4>
           <div style={{ 
             fontSize: '12px',
             fontFamily: 'monospace',
@@ -290,14 +297,13 @@ export const BarcodeScanner: React.FC<BarcodeScannerProps> = ({
             maxHeight: '150px',
             overflowY: 'auto'
           }}>
-            <strong>Length:</strong> {rawData.length} characters<br/>
-            <strong>Type:</strong> {rawData.startsWith('http') ? 'URL/QR Code' : 'Data/Barcode'}<br/>
-            <strong>Data:</strong><br/>
-            {rawData}
+            <strong>{t('scanner.raw.length')}</strong> {plural('count.byte', rawData.length)}<br/>
+            <strong>{t('scanner.raw.hex')}</strong><br/>
+            {bytesPreview(rawData)}
           </div>
           <div style={{ textAlign: 'center', marginTop: '8px' }}>
             <button 
-              onClick={() => setRawData('')}
+              onClick={() => setRawData(null)}
               style={{ 
                 background: '#004085', 
                 color: 'white', 
@@ -308,7 +314,7 @@ export const BarcodeScanner: React.FC<BarcodeScannerProps> = ({
                 cursor: 'pointer'
               }}
             >
-              Clear
+              {t('common.clear')}
             </button>
           </div>
         </div>
@@ -320,7 +326,7 @@ export const BarcodeScanner: React.FC<BarcodeScannerProps> = ({
             onClick={startCamera}
             className="btn btn-primary"
           >
-            📹 Start Camera
+            {t('scanner.startCamera')}
           </button>
         ) : (
           <div>
@@ -329,13 +335,13 @@ export const BarcodeScanner: React.FC<BarcodeScannerProps> = ({
               className="btn btn-primary"
               disabled={!!error}
             >
-              {isScanning ? '⏹ Stop Scanning' : '🔍 Start Scanning'}
+              {isScanning ? t('scanner.stopScanning') : t('scanner.startScanning')}
             </button>
             <button 
               onClick={stopCamera}
               className="btn btn-secondary"
             >
-              📷 Stop Camera
+              {t('scanner.stopCamera')}
             </button>
           </div>
         )}
@@ -353,19 +359,19 @@ export const BarcodeScanner: React.FC<BarcodeScannerProps> = ({
           className="btn btn-secondary"
           style={{ fontSize: '12px', padding: '6px 12px' }}
         >
-          🧪 Test Decoder
+          {t('scanner.testDecoder')}
         </button>
       </div>
 
       <div className="mt-4" style={{ fontSize: '14px', color: '#666' }}>
-        <p><strong>Tips:</strong></p>
+        <p><strong>{t('common.tips')}</strong></p>
         <ul style={{ textAlign: 'left', marginLeft: '20px' }}>
-          <li>Ensure good lighting</li>
-          <li>Hold device steady</li>
-          <li>Position barcode fully within the green frame</li>
-          <li>Keep about 6-12 inches from the barcode</li>
-          <li>Try different angles if not detecting</li>
-          <li>Check the debug log above for scanning activity</li>
+          <li>{t('barcode.tips.lighting')}</li>
+          <li>{t('barcode.tips.steady')}</li>
+          <li>{t('barcode.tips.frame')}</li>
+          <li>{t('barcode.tips.distance')}</li>
+          <li>{t('barcode.tips.angles')}</li>
+          <li>{t('barcode.tips.log')}</li>
         </ul>
       </div>
     </div>
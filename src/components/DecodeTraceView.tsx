@@ -0,0 +1,63 @@
+import React from 'react';
+import { DecodeTrace } from '@linc-scan/decoder';
+import { useI18n } from '../i18n/context';
+
+interface DecodeTraceViewProps {
+  trace: DecodeTrace;
+}
+
+const cellStyle: React.CSSProperties = {
+  padding: '6px 8px',
+  borderBottom: '1px solid #e2e8f0',
+  textAlign: 'left',
+  verticalAlign: 'top'
+};
+
+export const DecodeTraceView: React.FC<DecodeTraceViewProps> = ({ trace }) => {
+  const { t } = useI18n();
+  return (
+    <div style={{
+      background: '#f8f9fa',
+      padding: '12px',
+      borderRadius: '8px',
+      fontSize: '12px',
+      marginTop: '12px',
+      overflowX: 'auto'
+    }}>
+      <div style={{ marginBottom: '8px' }}>
+        <strong>{t(trace.success ? 'trace.succeeded' : 'trace.failed')}</strong>
+        {' '}{t('trace.summary', { duration: trace.duration_ms.toFixed(1), steps: trace.steps.length })}
+      </div>
+      <table style={{ width: '100%', borderCollapse: 'collapse', fontFamily: 'monospace' }}>
+        <thead>
+          <tr>
+            <th style={cellStyle}>{t('trace.stage')}</th>
+            <th style={cellStyle}>{t('trace.step')}</th>
+            <th style={cellStyle}>{t('trace.method')}</th>
+            <th style={cellStyle}>{t('trace.lengths')}</th>
+            <th style={cellStyle}>{t('trace.time')}</th>
+            <th style={cellStyle}>{t('trace.preview')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {trace.steps.map((step, index) => (
+            <tr key={index} style={{ color: step.error ? '#dc3545' : undefined }}>
+              <td style={cellStyle}>{step.stage}</td>
+              <td style={cellStyle}>{step.name}</td>
+              <td style={cellStyle}>{step.method || '-'}</td>
+              <td style={cellStyle}>
+                {step.input_length} → {step.output_length ?? '-'}
+              </td>
+              <td style={cellStyle}>{step.duration_ms.toFixed(1)} ms</td>
+              <td style={{ ...cellStyle, wordBreak: 'break-all' }}>
+                <div>{t('trace.input', { preview: step.input_preview })}</div>
+                {step.output_preview !== undefined && <div>{t('trace.output', { preview: step.output_preview })}</div>}
+                {step.error && <div>{t('trace.error', { error: step.error })}</div>}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -1,14 +1,23 @@
 import React, { useState, useEffect } from 'react';
-import { MadagascarLicenseDecoder } from '../utils/licenseDecoder';
+import { MadagascarLicenseDecoder, ScannedData, createConsoleLogger, DecodeTrace, inspectJpeg } from '@linc-scan/decoder';
+import { DecodeTraceView } from './DecodeTraceView';
+import { jpegJsDecodeCheck } from '../utils/jpegDecodeCheck';
+import { useI18n } from '../i18n/context';
 
 interface DiagnosticPanelProps {
-  onScan: (data: string) => void;
+  onScan: (data: ScannedData) => void;
 }
 
 export const DiagnosticPanel: React.FC<DiagnosticPanelProps> = ({ onScan }) => {
+  const { t } = useI18n();
   const [browserInfo, setBrowserInfo] = useState<any>({});
   const [cameraInfo, setCameraInfo] = useState<any>({});
-  const decoder = new MadagascarLicenseDecoder();
+  const [trace, setTrace] = useState<DecodeTrace | null>(null);
+  const decoder = new MadagascarLicenseDecoder({
+    trace: true,
+    logger: createConsoleLogger(import.meta.env.DEV ? 'debug' : 'silent'),
+    jpegDecodeCheck: jpegJsDecodeCheck
+  });
 
   useEffect(() => {
     // Get browser info
@@ -30,7 +39,7 @@ export const DiagnosticPanel: React.FC<DiagnosticPanelProps> = ({ onScan }) => {
         setCameraInfo({
           totalDevices: devices.length,
           videoDevices: videoDevices.length,
-          videoDeviceLabels: videoDevices.map(d => d.label || 'Unknown Camera'),
+          videoDeviceLabels: videoDevices.map(d => d.label),
           hasGetUserMedia: !!navigator.mediaDevices?.getUserMedia,
           protocol: window.location.protocol,
         });
@@ -49,42 +58,42 @@ export const DiagnosticPanel: React.FC<DiagnosticPanelProps> = ({ onScan }) => {
   // Test data samples
   const testSamples = [
     {
-      name: 'Simple Text',
+      name: t('diag.samples.simpleText'),
       data: 'Hello World',
-      description: 'Basic text to test decoder flow'
+      description: t('diag.samples.simpleText.description')
     },
     {
-      name: 'JSON Sample',
+      name: t('diag.samples.json'),
       data: '{"name":"John Doe","id":"123456789"}',
-      description: 'JSON-like structure'
+      description: t('diag.samples.json.description')
     },
     {
-      name: 'Sample Hex (Short)',
+      name: t('diag.samples.hex'),
       data: '48656c6c6f20576f726c64',
-      description: 'Hex encoded "Hello World"'
+      description: t('diag.samples.hex.description')
     },
     {
-      name: 'Compressed Data Sample',
+      name: t('diag.samples.compressed'),
       data: '78da4d8db10ac2300c06e0b3a4e80a75b41b8e8a1c38c46a89a12c29c6a826c6b24d',
-      description: 'Zlib compressed data sample'
+      description: t('diag.samples.compressed.description')
     },
     {
-      name: 'PDF417 Sample',
+      name: t('diag.samples.pdf417'),
       data: '78da016f0390fc424a20534348555454457c343536373430323239363234',
-      description: 'Typical PDF417 barcode data'
+      description: t('diag.samples.pdf417.description')
     }
   ];
 
   return (
     <div className="card">
       <div className="text-center mb-4">
-        <h3>🔧 System Diagnostics</h3>
-        <p>Debugging information for scanner issues</p>
+        <h3>{t('diag.title')}</h3>
+        <p>{t('diag.hint')}</p>
       </div>
 
       {/* Browser Info */}
       <div style={{ marginBottom: '20px' }}>
-        <h4>🌐 Browser Information</h4>
+        <h4>{t('diag.browser.title')}</h4>
         <div style={{ 
           background: '#f8f9fa', 
           padding: '12px', 
@@ -92,18 +101,18 @@ export const DiagnosticPanel: React.FC<DiagnosticPanelProps> = ({ onScan }) => {
           fontSize: '12px',
           fontFamily: 'monospace'
         }}>
-          <div><strong>Protocol:</strong> {window.location.protocol}</div>
-          <div><strong>User Agent:</strong> {browserInfo.userAgent}</div>
-          <div><strong>Platform:</strong> {browserInfo.platform}</div>
-          <div><strong>Language:</strong> {browserInfo.language}</div>
-          <div><strong>Online:</strong> {browserInfo.onLine ? 'Yes' : 'No'}</div>
-          <div><strong>Hardware Concurrency:</strong> {browserInfo.hardwareConcurrency}</div>
+          <div><strong>{t('diag.browser.protocol')}</strong> {window.location.protocol}</div>
+          <div><strong>{t('diag.browser.userAgent')}</strong> {browserInfo.userAgent}</div>
+          <div><strong>{t('diag.browser.platform')}</strong> {browserInfo.platform}</div>
+          <div><strong>{t('diag.browser.language')}</strong> {browserInfo.language}</div>
+          <div><strong>{t('diag.browser.online')}</strong> {browserInfo.onLine ? t('common.yes') : t('common.no')}</div>
+          <div><strong>{t('diag.browser.concurrency')}</strong> {browserInfo.hardwareConcurrency}</div>
         </div>
       </div>
 
       {/* Camera Info */}
       <div style={{ marginBottom: '20px' }}>
-        <h4>📹 Camera Information</h4>
+        <h4>{t('diag.camera.title')}</h4>
         <div style={{ 
           background: '#f8f9fa', 
           padding: '12px', 
@@ -113,16 +122,16 @@ export const DiagnosticPanel: React.FC<DiagnosticPanelProps> = ({ onScan }) => {
         }}>
           {cameraInfo.error ? (
             <div style={{ color: '#dc3545' }}>
-              <strong>Error:</strong> {cameraInfo.error}
+              <strong>{t('common.error')}</strong> {cameraInfo.error}
             </div>
           ) : (
             <>
-              <div><strong>Protocol:</strong> {cameraInfo.protocol}</div>
-              <div><strong>getUserMedia Available:</strong> {cameraInfo.hasGetUserMedia ? 'Yes' : 'No'}</div>
-              <div><strong>Total Devices:</strong> {cameraInfo.totalDevices}</div>
-              <div><strong>Video Devices:</strong> {cameraInfo.videoDevices}</div>
+              <div><strong>{t('diag.browser.protocol')}</strong> {cameraInfo.protocol}</div>
+              <div><strong>{t('diag.camera.getUserMedia')}</strong> {cameraInfo.hasGetUserMedia ? t('common.yes') : t('common.no')}</div>
+              <div><strong>{t('diag.camera.totalDevices')}</strong> {cameraInfo.totalDevices}</div>
+              <div><strong>{t('diag.camera.videoDevices')}</strong> {cameraInfo.videoDevices}</div>
               {cameraInfo.videoDeviceLabels && (
-                <div><strong>Cameras:</strong> {cameraInfo.videoDeviceLabels.join(', ')}</div>
+                <div><strong>{t('diag.camera.cameras')}</strong> {cameraInfo.videoDeviceLabels.map((label: string) => label || t('diag.camera.unnamed')).join(', ')}</div>
               )}
             </>
           )}
@@ -131,7 +140,7 @@ export const DiagnosticPanel: React.FC<DiagnosticPanelProps> = ({ onScan }) => {
 
       {/* Library Tests */}
       <div style={{ marginBottom: '20px' }}>
-        <h4>📚 Library Availability</h4>
+        <h4>{t('diag.libraries.title')}</h4>
         <div style={{ 
           background: '#f8f9fa', 
           padding: '12px', 
@@ -143,16 +152,16 @@ export const DiagnosticPanel: React.FC<DiagnosticPanelProps> = ({ onScan }) => {
               try {
                 const { BrowserPDF417Reader } = await import('@zxing/library');
                 console.log('✅ ZXing PDF417Reader loaded successfully');
-                alert('✅ ZXing PDF417Reader: Available');
+                alert(t('diag.libraries.available', { name: 'ZXing PDF417Reader' }));
               } catch (err) {
                 console.error('❌ ZXing PDF417Reader failed:', err);
-                alert('❌ ZXing PDF417Reader: Failed to load');
+                alert(t('diag.libraries.failed', { name: 'ZXing PDF417Reader' }));
               }
             }}
             className="btn btn-secondary"
             style={{ fontSize: '12px', margin: '4px' }}
           >
-            Test ZXing PDF417
+            {t('diag.libraries.test', { name: 'ZXing PDF417' })}
           </button>
           
           <button 
@@ -160,16 +169,16 @@ export const DiagnosticPanel: React.FC<DiagnosticPanelProps> = ({ onScan }) => {
               try {
                 const { BrowserMultiFormatReader } = await import('@zxing/library');
                 console.log('✅ ZXing MultiFormatReader loaded successfully');
-                alert('✅ ZXing MultiFormatReader: Available');
+                alert(t('diag.libraries.available', { name: 'ZXing MultiFormatReader' }));
               } catch (err) {
                 console.error('❌ ZXing MultiFormatReader failed:', err);
-                alert('❌ ZXing MultiFormatReader: Failed to load');
+                alert(t('diag.libraries.failed', { name: 'ZXing MultiFormatReader' }));
               }
             }}
             className="btn btn-secondary"
             style={{ fontSize: '12px', margin: '4px' }}
           >
-            Test ZXing Multi
+            {t('diag.libraries.test', { name: 'ZXing Multi' })}
           </button>
 
           <button 
@@ -177,25 +186,25 @@ export const DiagnosticPanel: React.FC<DiagnosticPanelProps> = ({ onScan }) => {
               try {
                 const pako = await import('pako');
                 console.log('✅ Pako (zlib) loaded successfully');
-                alert('✅ Pako (zlib): Available');
+                alert(t('diag.libraries.available', { name: 'Pako (zlib)' }));
               } catch (err) {
                 console.error('❌ Pako failed:', err);
-                alert('❌ Pako: Failed to load');
+                alert(t('diag.libraries.failed', { name: 'Pako' }));
               }
             }}
             className="btn btn-secondary"
             style={{ fontSize: '12px', margin: '4px' }}
           >
-            Test Pako
+            {t('diag.libraries.test', { name: 'Pako' })}
           </button>
         </div>
       </div>
 
       {/* Enhanced Debugging */}
       <div style={{ marginBottom: '20px' }}>
-        <h4>🔍 Enhanced Decoder Debugging</h4>
+        <h4>{t('diag.debug.title')}</h4>
         <p style={{ fontSize: '14px', color: '#666', marginBottom: '12px' }}>
-          These tools help identify exactly where the decoding fails:
+          {t('diag.debug.hint')}
         </p>
         
         <div style={{ 
@@ -210,47 +219,34 @@ export const DiagnosticPanel: React.FC<DiagnosticPanelProps> = ({ onScan }) => {
                 console.log('🧪 Testing with known working sample...');
                 const result = decoder.testWithKnownSample();
                 console.log('Known sample result:', result);
+                setTrace(result.trace ?? null);
                 if (result.success) {
-                  alert('✅ Known sample test: SUCCESS! Decoder is working correctly.');
+                  alert(t('diag.debug.knownSample.success'));
                 } else {
-                  alert(`❌ Known sample test failed: ${result.error}`);
+                  alert(t('diag.debug.knownSample.failed', { error: result.error }));
                 }
               } catch (err) {
                 console.error('Known sample test error:', err);
-                alert(`❌ Known sample test error: ${err}`);
+                alert(t('diag.debug.knownSample.error', { error: String(err) }));
               }
             }}
             className="btn btn-secondary"
             style={{ fontSize: '12px', margin: '4px' }}
           >
-            🧪 Test Known Working Sample
+            {t('diag.debug.knownSample')}
           </button>
 
           <button 
             onClick={() => {
               const testData = "78da4d8db10ac2300c06e0b3a4e80a75b41b8e8a1c38c46a89a12c29c6a826c6b24d";
               console.log('🔍 Running step-by-step debug...');
-              const debug = decoder.debugDecoding(testData);
-              console.log('Debug results:', debug);
-              
-              // Show detailed results
-              let message = "🔍 STEP-BY-STEP DEBUG RESULTS:\n\n";
-              message += `Step 1 (Hex decode): ${debug.step1_success ? '✅ SUCCESS' : '❌ FAILED'}\n`;
-              message += `Step 2 (XOR decrypt): ${debug.step2_success ? '✅ SUCCESS' : '❌ FAILED'}\n`;
-              message += `  - First byte: ${debug.step2_first_byte} (should be 0x78 for zlib)\n`;
-              message += `  - Is zlib header: ${debug.step2_is_zlib_header ? 'YES' : 'NO'}\n`;
-              message += `Step 3 (zlib decompress): ${debug.step3_success ? '✅ SUCCESS' : '❌ FAILED'}\n`;
-              if (!debug.step3_success) {
-                message += `  - Error: ${debug.step3_error}\n`;
-              }
-              message += `Step 4 (Parse): ${debug.step4_success ? '✅ SUCCESS' : '❌ FAILED'}\n`;
-              
-              alert(message);
+              const result = decoder.decodeBarcodeData(testData);
+              setTrace(result.trace ?? null);
             }}
             className="btn btn-secondary"
             style={{ fontSize: '12px', margin: '4px' }}
           >
-            🔍 Step-by-Step Debug
+            {t('diag.debug.stepByStep')}
           </button>
 
           <button 
@@ -260,54 +256,22 @@ export const DiagnosticPanel: React.FC<DiagnosticPanelProps> = ({ onScan }) => {
               try {
                 const result = decoder.decodeBarcodeData(testData, true); // Skip XOR
                 console.log('No-XOR result:', result);
+                setTrace(result.trace ?? null);
                 if (result.success) {
-                  alert('✅ SUCCESS! Data is NOT XOR encrypted!\n\nYour barcode is just zlib compressed.');
+                  alert(t('diag.debug.noXor.success'));
                   onScan(testData); // Show the successful result
                 } else {
-                  alert(`❌ Still failed without XOR: ${result.error}`);
+                  alert(t('diag.debug.noXor.failed', { error: result.error }));
                 }
               } catch (err) {
                 console.error('No-XOR test error:', err);
-                alert(`❌ No-XOR test error: ${err}`);
+                alert(t('diag.debug.noXor.error', { error: String(err) }));
               }
             }}
             className="btn btn-secondary"
             style={{ fontSize: '12px', margin: '4px', background: '#28a745', color: 'white' }}
           >
-            🔓 Test Without XOR
-          </button>
-
-          <button 
-            onClick={() => {
-              // Test with the actual scanned binary data
-              const testData = "AéDV;©Ê{dbr§gìltJéqrùñtpùôñÙìOtìùÚòóÿssM|îvs\tðñâps¢ò}>évôî\tìuèüìæ§qtìâ}NÞârJsÞò§vjËìá÷J~urájðjJt=8x|âNöÇéÉÒDTssì3G7992E889ÉâA¢1!O>M4;&<IJ+$TQ+n,!/%]ÙÖò+æ{w«}î{íq~nè}bäuÞò[hnl'^P^ìt0=AU<n&_RÉòDO15ËB§G7(9Ì÷9#968DE01D2C8162DD95FA7C08>Ì÷9â)6;CE32C0E;162DD94FB0W2è<!tö+-àxÿ%cªvæ2JCÇðò¤¥ÆïDJ2G69ì3±1zyâÈ<Z¬ûSþäpªw¡ ­|§¢êžx)ÑXªc{(½Úý§ãöþc‚ÿ­¹Ð§\"¾i¤ÅœÂ\\â‰,¤eÝ)í{fD¦6nàÀ¼8øoñ8¿ VLì|xÔƒ‰íàÁUçù¬sï%µ¿påì3*(ëµèëàØLà!¨Ùt°Cà1ìc¥®òbr}ÆüjÞ|>váÔ'*v'î¯Øn3ÀÑË¯£OYnK¨k1+¥(²Œã¼œ$Eì£ÎàÁßn³[š¥`©á¶›ˆ{)BìÀ¡²ÙSò£C—)á¬÷c×o×ì—`g{æ6Â»éë2Ýï¿å !3(L©¬àÕŸ¤ÖzÚ¤y@'âîØº×·Á\t~1`Ä²Sîô‰§S¬P'G.öv‰å‹áäï}D\\›Sì+äÐìú®$ÈõjzýÃŸèøk¨yæêÒ¦°£/í°„=ýÕgâðÂôdR‚tl8èŸhìÞîè\"¦5ƒ½ÞGü³ôV\tQÞ'™Ê4v‰¨{<žDì4ëÿú‚2S¯qý÷øï¬I{åó¡@›ÀúÈ´Ó®Ö+ ×æ_QÊdëä`ÀíàfëlEy_lüìNr\"›Ofáƒêª‡FóQ$ZæJ?öpG~¬°lšá×_ð•~Ž\"ˆOüÏ‰­õìˆ‡+é½¹÷•;ÿÞ6Oæˆo~2%X7&ì%Eú ®u€²ÿ¿{½Ô\\nBCF5ˆ¬ªõÃv¹_[â´áJ iÅ«6©Ÿâ@zGZã¬áRáo§³È8ÜíO4š9¢p }¸í)h'Ÿèæƒì¿à±";
-              console.log('🔍 Testing with actual scanned binary data...');
-              try {
-                const result = decoder.decodeBarcodeData(testData, false); // Try with XOR first
-                console.log('Binary data result (with XOR):', result);
-                if (result.success) {
-                  alert('✅ SUCCESS! Binary data decoded with XOR!');
-                  onScan(testData);
-                } else {
-                  // Try without XOR
-                  console.log('🔄 Trying without XOR...');
-                  const resultNoXor = decoder.decodeBarcodeData(testData, true);
-                  if (resultNoXor.success) {
-                    alert('✅ SUCCESS! Binary data decoded WITHOUT XOR!');
-                    onScan(testData);
-                  } else {
-                    alert(`❌ Binary data failed both ways:\nWith XOR: ${result.error}\nWithout XOR: ${resultNoXor.error}`);
-                  }
-                }
-              } catch (err) {
-                console.error('Binary data test error:', err);
-                alert(`❌ Binary data test error: ${err}`);
-              }
-            }}
-            className="btn btn-secondary"
-            style={{ fontSize: '12px', margin: '4px', background: '#6f42c1', color: 'white' }}
-          >
-            🔄 Test Binary Data
+            {t('diag.debug.noXor')}
           </button>
 
           <button 
@@ -332,15 +296,15 @@ export const DiagnosticPanel: React.FC<DiagnosticPanelProps> = ({ onScan }) => {
                 const charCodes = Array.from(binaryString.substring(0, 20)).map(c => c.charCodeAt(0));
                 console.log('🔢 First 20 char codes:', charCodes);
                 
-                alert(`Image Analysis:\nText: ${binaryString.substring(0, 50)}...\nLength: ${binaryString.length}\nSee console for full details`);
+                alert(t('diag.debug.analyzeImage.result', { text: binaryString.substring(0, 50), length: binaryString.length }));
               } catch (err) {
-                alert(`Error analyzing image: ${err}`);
+                alert(t('diag.debug.analyzeImage.error', { error: String(err) }));
               }
             }}
             className="btn btn-secondary"
             style={{ fontSize: '12px', margin: '4px', background: '#dc3545', color: 'white' }}
           >
-            🔬 Analyze Image Data
+            {t('diag.debug.analyzeImage')}
           </button>
 
           <button 
@@ -360,90 +324,49 @@ export const DiagnosticPanel: React.FC<DiagnosticPanelProps> = ({ onScan }) => {
                 console.log('🔢 First 20 bytes (hex):', Array.from(bytes.slice(0, 20)).map(b => '0x' + b.toString(16).padStart(2, '0')).join(' '));
                 console.log('🔢 Last 10 bytes (hex):', Array.from(bytes.slice(-10)).map(b => '0x' + b.toString(16).padStart(2, '0')).join(' '));
                 
-                // Check for JPEG signature
-                if (bytes[0] === 0xFF && bytes[1] === 0xD8) {
-                  console.log('✅ Valid JPEG start signature (FF D8)');
-                } else {
-                  console.log('❌ Invalid JPEG start signature:', bytes[0].toString(16), bytes[1].toString(16));
-                }
-                
-                // Check for JPEG end signature
-                if (bytes[bytes.length-2] === 0xFF && bytes[bytes.length-1] === 0xD9) {
-                  console.log('✅ Valid JPEG end signature (FF D9)');
-                } else {
-                  console.log('❌ Invalid JPEG end signature:', bytes[bytes.length-2].toString(16), bytes[bytes.length-1].toString(16));
-                }
-                
-                // Analyze JPEG structure
+                // Walk the JPEG segments
+                const inspection = inspectJpeg(bytes);
                 console.log('🔍 JPEG Structure Analysis:');
-                let pos = 0;
-                let segments = 0;
-                while (pos < bytes.length - 1 && segments < 20) {
-                  if (bytes[pos] === 0xFF) {
-                    const marker = bytes[pos + 1];
-                    console.log(`   Segment ${segments}: 0xFF${marker.toString(16).padStart(2, '0')} at position ${pos}`);
-                    
-                    if (marker === 0xD8) { // SOI
-                      pos += 2;
-                    } else if (marker === 0xD9) { // EOI
-                      pos += 2;
-                      break;
-                    } else if (marker >= 0xE0 && marker <= 0xEF) { // APPn
-                      if (pos + 3 < bytes.length) {
-                        const length = (bytes[pos + 2] << 8) | bytes[pos + 3];
-                        console.log(`      APP segment length: ${length}`);
-                        pos += 2 + length;
-                      } else {
-                        console.log('      Truncated APP segment');
-                        break;
-                      }
-                    } else if (marker === 0xDB) { // DQT
-                      if (pos + 3 < bytes.length) {
-                        const length = (bytes[pos + 2] << 8) | bytes[pos + 3];
-                        console.log(`      DQT segment length: ${length}`);
-                        pos += 2 + length;
-                      } else {
-                        console.log('      Truncated DQT segment');
-                        break;
-                      }
-                    } else {
-                      console.log(`      Unknown/unsupported marker: 0x${marker.toString(16)}`);
-                      pos += 2;
-                    }
-                    segments++;
-                  } else {
-                    console.log(`   Non-marker byte at ${pos}: 0x${bytes[pos].toString(16)}`);
-                    break;
-                  }
-                }
-                
-                if (segments >= 20) {
-                  console.log('   ... (truncated analysis, too many segments)');
-                }
+                console.table(inspection.segments.map(segment => ({
+                  marker: segment.name,
+                  offset: segment.offset,
+                  length: segment.length
+                })));
+                console.log('📐 Dimensions:', inspection.dimensions ?? 'none');
+                console.log(inspection.structurallyComplete ? '✅ Structurally complete' : '❌ Structurally broken', inspection.truncated ? '(cut off)' : '');
+                inspection.problems.forEach(problem => console.log(`   ⚠️ ${problem}`));
                 
                 // Try to view the image
                 const testUri = `data:image/jpeg;base64,${userBase64}`;
                 window.open(testUri, '_blank');
                 
-                alert(`Base64 Analysis Complete!\nBytes: ${bytes.length}\nSegments: ${segments}\nSee console and new tab for details`);
+                const size = inspection.dimensions ? `${inspection.dimensions.width}x${inspection.dimensions.height}` : t('common.unknown');
+                alert(t('diag.debug.userBase64.result', {
+                  bytes: bytes.length,
+                  segments: inspection.segments.length,
+                  dimensions: size,
+                  structure: inspection.structurallyComplete ? t('common.yes') : t('common.no')
+                }));
               } catch (err) {
                 console.error('Base64 analysis error:', err);
-                alert(`Error analyzing base64: ${err}`);
+                alert(t('diag.debug.userBase64.error', { error: String(err) }));
               }
             }}
             className="btn btn-secondary"
             style={{ fontSize: '12px', margin: '4px', background: '#17a2b8', color: 'white' }}
           >
-            🧪 Test User Base64
+            {t('diag.debug.userBase64')}
           </button>
+
+          {trace && <DecodeTraceView trace={trace} />}
         </div>
       </div>
 
       {/* Test Data */}
       <div style={{ marginBottom: '20px' }}>
-        <h4>🧪 Test Decoder with Sample Data</h4>
+        <h4>{t('diag.samples.title')}</h4>
         <p style={{ fontSize: '14px', color: '#666', marginBottom: '12px' }}>
-          Test the decoder with various data types to isolate scanner vs decoder issues:
+          {t('diag.samples.hint')}
         </p>
         
         {testSamples.map((sample, index) => (
@@ -483,7 +406,7 @@ export const DiagnosticPanel: React.FC<DiagnosticPanelProps> = ({ onScan }) => {
                 className="btn btn-secondary"
                 style={{ fontSize: '12px', padding: '4px 8px' }}
               >
-                Test
+                {t('diag.samples.test')}
               </button>
             </div>
           </div>
@@ -497,14 +420,14 @@ export const DiagnosticPanel: React.FC<DiagnosticPanelProps> = ({ onScan }) => {
         borderRadius: '8px',
         border: '1px solid #b8daff'
       }}>
-        <h4 style={{ color: '#004085' }}>💡 Troubleshooting Steps</h4>
+        <h4 style={{ color: '#004085' }}>{t('diag.troubleshooting.title')}</h4>
         <ol style={{ fontSize: '14px', color: '#004085', marginLeft: '20px' }}>
-          <li>Ensure you're using <strong>HTTPS</strong> (required for camera)</li>
-          <li>Test the <strong>🔍 Enhanced Scanner</strong> instead of PDF417-only</li>
-          <li>Try the decoder tests above to verify decoding works</li>
-          <li>Test with a <strong>simple QR code</strong> first</li>
-          <li>Check browser console for detailed error messages</li>
-          <li>Try a different browser (Chrome/Safari recommended)</li>
+          <li>{t('diag.troubleshooting.https')}</li>
+          <li>{t('diag.troubleshooting.enhanced')}</li>
+          <li>{t('diag.troubleshooting.decoder')}</li>
+          <li>{t('diag.troubleshooting.qr')}</li>
+          <li>{t('diag.troubleshooting.console')}</li>
+          <li>{t('diag.troubleshooting.browser')}</li>
         </ol>
       </div>
     </div>
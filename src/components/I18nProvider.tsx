@@ -0,0 +1,24 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { I18nContext, createI18nValue } from '../i18n/context';
+import { Locale, loadLocale, storeLocale } from '../utils/i18n';
+
+/**
+ * Supplies the UI language to useI18n and remembers the choice between visits
+ */
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocaleState] = useState<Locale>(() => loadLocale());
+
+  const setLocale = useCallback((updated: Locale) => {
+    storeLocale(updated);
+    setLocaleState(updated);
+  }, []);
+
+  // Screen readers and the browser's own widgets follow the page language
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const value = useMemo(() => createI18nValue(locale, setLocale), [locale, setLocale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
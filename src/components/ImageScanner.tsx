@@ -1,17 +1,22 @@
 import React, { useRef, useState, useCallback } from 'react';
 import { BrowserPDF417Reader, BrowserMultiFormatReader } from '@zxing/library';
+import { ScannedData } from '@linc-scan/decoder';
+import { extractScanBytes, bytesPreview } from '../utils/scanBytes';
+import { LocalizedMessage } from '../utils/i18n';
+import { useI18n } from '../i18n/context';
 
 interface ImageScannerProps {
-  onScan: (data: string) => void;
+  onScan: (data: ScannedData) => void;
 }
 
 export const ImageScanner: React.FC<ImageScannerProps> = ({ onScan }) => {
+  const { t, tMessage, plural } = useI18n();
   const fileInputRef = useRef<HTMLInputElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [uploadedImage, setUploadedImage] = useState<string>('');
   const [isScanning, setIsScanning] = useState(false);
-  const [result, setResult] = useState<string>('');
-  const [error, setError] = useState<string>('');
+  const [result, setResult] = useState<Uint8Array | null>(null);
+  const [error, setError] = useState<LocalizedMessage | null>(null);
 
   // Handle file upload
   const handleFileUpload = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
@@ -20,7 +25,7 @@ export const ImageScanner: React.FC<ImageScannerProps> = ({ onScan }) => {
 
     // Check if it's an image
     if (!file.type.startsWith('image/')) {
-      setError('Please select an image file');
+      setError({ key: 'image.error.notImage' });
       return;
     }
 
@@ -28,8 +33,8 @@ export const ImageScanner: React.FC<ImageScannerProps> = ({ onScan }) => {
     reader.onload = (e) => {
       const imageDataUrl = e.target?.result as string;
       setUploadedImage(imageDataUrl);
-      setError('');
-      setResult('');
+      setError(null);
+      setResult(null);
       console.log('📸 Image uploaded successfully');
     };
     reader.readAsDataURL(file);
@@ -38,13 +43,13 @@ export const ImageScanner: React.FC<ImageScannerProps> = ({ onScan }) => {
   // Scan the uploaded image
   const scanImage = useCallback(async () => {
     if (!uploadedImage || !canvasRef.current) {
-      setError('No image to scan');
+      setError({ key: 'image.error.noImage' });
       return;
     }
 
     setIsScanning(true);
-    setError('');
-    setResult('');
+    setError(null);
+    setResult(null);
     
     try {
       console.log('🔍 Starting image scan...');
@@ -93,23 +98,25 @@ export const ImageScanner: React.FC<ImageScannerProps> = ({ onScan }) => {
           console.log('✅ Multi-format scan successful');
         } catch (multiError) {
           console.log('❌ Multi-format scan failed:', multiError);
-          throw new Error('No barcode detected in image');
+          setError({ key: 'image.error.noBarcode' });
+          return;
         }
       }
 
       if (scanResult && scanResult.getText()) {
-        const scannedData = scanResult.getText();
-        console.log(`✅ Barcode detected! Data: ${scannedData.substring(0, 50)}...`);
+        const scannedData = extractScanBytes(scanResult);
+        console.log(`✅ Barcode detected! Data: ${bytesPreview(scannedData, 25)}`);
         setResult(scannedData);
         onScan(scannedData);
       } else {
-        throw new Error('No barcode data found');
+        console.error('🔍 Barcode detected without any data');
+        setError({ key: 'image.error.noBarcode' });
       }
 
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Scan failed';
+      const errorMessage = err instanceof Error ? err.message : String(err);
       console.error('🔍 Image scan error:', errorMessage);
-      setError(errorMessage);
+      setError({ key: 'image.error.failed', params: { detail: errorMessage } });
     } finally {
       setIsScanning(false);
     }
@@ -118,8 +125,8 @@ export const ImageScanner: React.FC<ImageScannerProps> = ({ onScan }) => {
   // Clear uploaded image
   const clearImage = useCallback(() => {
     setUploadedImage('');
-    setResult('');
-    setError('');
+    setResult(null);
+    setError(null);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
@@ -128,8 +135,8 @@ export const ImageScanner: React.FC<ImageScannerProps> = ({ onScan }) => {
   return (
     <div className="card">
       <div className="text-center mb-4">
-        <h2>📸 Image Barcode Scanner</h2>
-        <p>Upload a photo of your barcode to scan it</p>
+        <h2>{t('image.title')}</h2>
+        <p>{t('image.hint')}</p>
       </div>
 
       {/* File Upload */}
@@ -147,7 +154,7 @@ export const ImageScanner: React.FC<ImageScannerProps> = ({ onScan }) => {
             className="btn btn-primary"
             style={{ margin: '4px' }}
           >
-            📁 Upload Barcode Image
+            {t('image.upload')}
           </button>
           {uploadedImage && (
             <button 
@@ -155,7 +162,7 @@ export const ImageScanner: React.FC<ImageScannerProps> = ({ onScan }) => {
               className="btn btn-secondary"
               style={{ margin: '4px' }}
             >
-              🗑️ Clear Image
+              {t('image.clear')}
             </button>
           )}
         </div>
@@ -173,7 +180,7 @@ export const ImageScanner: React.FC<ImageScannerProps> = ({ onScan }) => {
           }}>
             <img 
               src={uploadedImage} 
-              alt="Uploaded barcode" 
+              alt={t('image.alt')}
               style={{ 
                 maxWidth: '100%', 
                 maxHeight: '300px',
@@ -200,7 +207,7 @@ export const ImageScanner: React.FC<ImageScannerProps> = ({ onScan }) => {
             className="btn btn-primary"
             style={{ fontSize: '16px', padding: '12px 24px' }}
           >
-            {isScanning ? '🔍 Scanning...' : '🔍 Scan Barcode'}
+            {isScanning ? t('image.scanning') : t('image.scan')}
           </button>
         </div>
       )}
@@ -208,14 +215,14 @@ export const ImageScanner: React.FC<ImageScannerProps> = ({ onScan }) => {
       {/* Error Display */}
       {error && (
         <div className="error">
-          <strong>Scan Error:</strong> {error}
+          <strong>{t('image.error.title')}</strong> {tMessage(error)}
           <div style={{ marginTop: '8px', fontSize: '14px' }}>
-            <strong>Tips:</strong>
+            <strong>{t('common.tips')}</strong>
             <ul style={{ textAlign: 'left', marginLeft: '16px', marginTop: '4px' }}>
-              <li>Ensure the barcode is clearly visible</li>
-              <li>Good lighting and focus in the photo</li>
-              <li>Try cropping closer to just the barcode</li>
-              <li>Make sure the image isn't blurry</li>
+              <li>{t('image.tips.visible')}</li>
+              <li>{t('image.tips.lighting')}</li>
+              <li>{t('image.tips.crop')}</li>
+              <li>{t('image.tips.blur')}</li>
             </ul>
           </div>
         </div>
@@ -230,7 +237,7 @@ export const ImageScanner: React.FC<ImageScannerProps> = ({ onScan }) => {
           padding: '12px',
           margin: '12px 0'
         }}>
-          <h4 style={{ color: '#155724', marginBottom: '8px' }}>✅ Barcode Scanned Successfully!</h4>
+          <h4 style={{ color: '#155724', marginBottom: '8px' }}>{t('image.success')}</h4>
           <div style={{ 
             fontSize: '12px',
             fontFamily: 'monospace',
@@ -242,10 +249,9 @@ export const ImageScanner: React.FC<ImageScannerProps> = ({ onScan }) => {
             maxHeight: '150px',
             overflowY: 'auto'
           }}>
-            <strong>Length:</strong> {result.length} characters<br/>
-            <strong>Type:</strong> {result.startsWith('http') ? 'URL/QR Code' : 'Data/Barcode'}<br/>
-            <strong>Data:</strong><br/>
-            {result}
+            <strong>{t('scanner.raw.length')}</strong> {plural('count.byte', result.length)}<br/>
+            <strong>{t('scanner.raw.hex')}</strong><br/>
+            {bytesPreview(result)}
           </div>
         </div>
       )}
@@ -258,15 +264,15 @@ export const ImageScanner: React.FC<ImageScannerProps> = ({ onScan }) => {
         padding: '12px',
         fontSize: '14px'
       }}>
-        <h4 style={{ color: '#004085' }}>📱 How to Use:</h4>
+        <h4 style={{ color: '#004085' }}>{t('image.howTo.title')}</h4>
         <ol style={{ color: '#004085', marginLeft: '20px' }}>
-          <li>Take a clear photo of your barcode with your phone</li>
-          <li>Click "📁 Upload Barcode Image" and select the photo</li>
-          <li>Click "🔍 Scan Barcode" to process it</li>
-          <li>The decoded data will appear below</li>
+          <li>{t('image.howTo.photo')}</li>
+          <li>{t('image.howTo.upload', { button: t('image.upload') })}</li>
+          <li>{t('image.howTo.scan', { button: t('image.scan') })}</li>
+          <li>{t('image.howTo.result')}</li>
         </ol>
         <p style={{ color: '#004085', marginTop: '8px' }}>
-          <strong>💡 Tip:</strong> This works with PDF417, QR codes, and most other barcode formats!
+          <strong>{t('image.tip.label')}</strong> {t('image.tip.body')}
         </p>
       </div>
     </div>
@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { LicenseKeyring } from '@linc-scan/decoder';
+import { LocalizedMessage } from '../utils/i18n';
+import { useI18n } from '../i18n/context';
+
+interface KeyringManagerProps {
+  keyring: LicenseKeyring;
+  onKeyringChange: (keyring: LicenseKeyring) => void;
+}
+
+export const KeyringManager: React.FC<KeyringManagerProps> = ({ keyring, onKeyringChange }) => {
+  const { t, tMessage, plural } = useI18n();
+  const [keyId, setKeyId] = useState('');
+  const [keyValue, setKeyValue] = useState('');
+  const [keyLabel, setKeyLabel] = useState('');
+  const [importJson, setImportJson] = useState('');
+  const [error, setError] = useState<LocalizedMessage | null>(null);
+  const [status, setStatus] = useState<LocalizedMessage | null>(null);
+  const bundled = LicenseKeyring.createDefault();
+
+  const applyChange = (update: () => LicenseKeyring, message: LocalizedMessage | (() => LocalizedMessage)): boolean => {
+    try {
+      onKeyringChange(update());
+      setError(null);
+      setStatus(typeof message === 'function' ? message() : message);
+      return true;
+    } catch (err) {
+      setStatus(null);
+      setError({ key: 'keys.failed', params: { detail: err instanceof Error ? err.message : String(err) } });
+      return false;
+    }
+  };
+
+  const handleAddKey = () => {
+    const added = applyChange(() => {
+      const updated = new LicenseKeyring(keyring.list());
+      updated.add({ id: keyId, key: keyValue, label: keyLabel || undefined });
+      return updated;
+    }, { key: 'keys.added', params: { id: keyId } });
+
+    if (added) {
+      setKeyId('');
+      setKeyValue('');
+      setKeyLabel('');
+    }
+  };
+
+  const handleImport = () => {
+    // merge() keeps the existing key when an ID is taken - tell the officer which ones were left out
+    let skipped: string[] = [];
+    const imported = applyChange(() => {
+      const importedKeys = LicenseKeyring.fromJson(importJson);
+      skipped = importedKeys.list().filter(key => keyring.has(key.id)).map(key => key.id);
+      return keyring.merge(importedKeys);
+    }, () => skipped.length > 0
+      ? { key: 'keys.imported.skipped', params: { ids: skipped.join(', ') } }
+      : { key: 'keys.imported' });
+
+    if (imported) {
+      setImportJson('');
+    }
+  };
+
+  return (
+    <div className="card">
+      <div className="text-center mb-4">
+        <h2>{t('keys.title')}</h2>
+        <p>{t('keys.hint')}</p>
+      </div>
+
+      {/* Current Keys */}
+      <div className="license-section">
+        <h3>{t('keys.keyring', { keys: plural('count.key', keyring.size) })}</h3>
+        {keyring.list().map(key => (
+          <div key={key.id} className="license-field">
+            <label>{key.id}:</label>
+            <span>
+              {key.label || t('keys.noLabel')}
+              <span style={{ fontFamily: 'monospace', color: '#666', marginLeft: '8px' }}>
+                {key.key.substring(0, 4)}…{key.key.substring(key.key.length - 4)}
+              </span>
+              {bundled.has(key.id) ? (
+                <span style={{ fontSize: '12px', color: '#666', marginLeft: '8px' }}>{t('keys.bundled')}</span>
+              ) : (
+                <button
+                  onClick={() => applyChange(() => keyring.without(key.id), { key: 'keys.removed', params: { id: key.id } })}
+                  className="btn btn-secondary"
+                  style={{ fontSize: '12px', padding: '2px 8px', marginLeft: '8px' }}
+                >
+                  {t('keys.remove')}
+                </button>
+              )}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {/* Add Single Key */}
+      <div className="license-section">
+        <h3>{t('keys.add.title')}</h3>
+        <input
+          value={keyId}
+          onChange={(e) => setKeyId(e.target.value)}
+          placeholder={t('keys.add.id')}
+          style={{ width: '100%', padding: '8px', marginBottom: '8px', border: '2px solid #e2e8f0', borderRadius: '8px' }}
+        />
+        <input
+          value={keyValue}
+          onChange={(e) => setKeyValue(e.target.value)}
+          placeholder={t('keys.add.key')}
+          style={{ width: '100%', padding: '8px', marginBottom: '8px', border: '2px solid #e2e8f0', borderRadius: '8px', fontFamily: 'monospace' }}
+        />
+        <input
+          value={keyLabel}
+          onChange={(e) => setKeyLabel(e.target.value)}
+          placeholder={t('keys.add.label')}
+          style={{ width: '100%', padding: '8px', marginBottom: '8px', border: '2px solid #e2e8f0', borderRadius: '8px' }}
+        />
+        <button
+          onClick={handleAddKey}
+          disabled={!keyId.trim() || !keyValue}
+          className="btn btn-primary"
+        >
+          {t('keys.add.button')}
+        </button>
+      </div>
+
+      {/* Import Keyring JSON */}
+      <div className="license-section">
+        <h3>{t('keys.import.title')}</h3>
+        <textarea
+          value={importJson}
+          onChange={(e) => setImportJson(e.target.value)}
+          placeholder={'{ "keys": [{ "id": "mg-pilot-2024", "key": "...", "label": "Pilot batch" }] }'}
+          style={{
+            width: '100%',
+            height: '100px',
+            padding: '12px',
+            border: '2px solid #e2e8f0',
+            borderRadius: '8px',
+            fontSize: '14px',
+            fontFamily: 'monospace',
+            resize: 'vertical'
+          }}
+        />
+        <button
+          onClick={handleImport}
+          disabled={!importJson.trim()}
+          className="btn btn-primary"
+        >
+          {t('keys.import.button')}
+        </button>
+      </div>
+
+      {error && <div className="error">{tMessage(error)}</div>}
+      {status && <div className={status.key === 'keys.imported.skipped' ? 'warning' : 'success'}>{tMessage(status)}</div>}
+    </div>
+  );
+};
@@ -0,0 +1,22 @@
+import React from 'react';
+import { useI18n } from '../i18n/context';
+import { LOCALES, isLocale } from '../utils/i18n';
+
+export const LanguageSwitcher: React.FC = () => {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <label style={{ fontSize: '14px' }}>
+      🌐 {t('app.language')}{' '}
+      <select
+        value={locale}
+        onChange={(e) => isLocale(e.target.value) && setLocale(e.target.value)}
+        style={{ marginLeft: '6px', padding: '2px 6px', borderRadius: '4px' }}
+      >
+        {LOCALES.map(option => (
+          <option key={option.locale} value={option.locale}>{option.label}</option>
+        ))}
+      </select>
+    </label>
+  );
+};
@@ -1,197 +1,529 @@
-import React from 'react';
-import { DecodedResult } from '../utils/licenseDecoder';
+import React, { useState } from 'react';
+import { ConfidenceNote, DecodedResult, DecodeFailure, DecodeSuccess, LicenseData, PhotoRepair, RecoveryReport, ValidationIssue, assertNever, ValidityState, ValidityStatus, SignatureCheck, SignatureStatus, CodeLookup, LicenseCodeCatalog, localizedDescription } from '@linc-scan/decoder';
+import { describeCategoryLimits } from '../utils/codeDescriptions';
+import { MessageKey } from '../utils/i18n';
+import { useI18n } from '../i18n/context';
+import { PhotoViewer } from './PhotoViewer';
 
 interface LicenseResultsProps {
   result: DecodedResult;
   onClear: () => void;
 }
 
+interface DecodeSuccessProps {
+  result: DecodeSuccess;
+  onClear: () => void;
+}
+
+interface DecodeFailureProps {
+  result: DecodeFailure;
+  onClear: () => void;
+}
+
 export const LicenseResults: React.FC<LicenseResultsProps> = ({ result, onClear }) => {
-  if (!result.success) {
-    return (
-      <div className="card">
-        <div className="error">
-          <h3>❌ Decoding Failed</h3>
-          <p>{result.error || 'Unknown error occurred'}</p>
-          <div className="mt-4">
-            <button onClick={onClear} className="btn btn-secondary">
-              🔄 Try Again
-            </button>
-          </div>
-        </div>
+  switch (result.success) {
+    case true:
+      return <LicenseDetails result={result} onClear={onClear} />;
+    case false:
+      return <DecodeFailureDetails result={result} onClear={onClear} />;
+    default:
+      return assertNever(result);
+  }
+};
+
+const VALIDITY_BANNER_CLASS: Record<ValidityState, string> = {
+  valid: 'success',
+  expired: 'error',
+  not_yet_valid: 'warning',
+  unknown: 'warning'
+};
+
+/**
+ * Prominent license validity status with the days remaining / since expiry
+ */
+const ValidityBanner: React.FC<{ validity: ValidityStatus; licenseData: LicenseData }> = ({ validity, licenseData }) => {
+  const { t, plural, formatDate } = useI18n();
+  let detail: string;
+  switch (validity.state) {
+    case 'valid':
+      detail = validity.days_until_expiry === 0
+        ? t('validity.expiresToday', { date: formatDate(licenseData.valid_to) })
+        : t('validity.expiresIn', { days: plural('count.day', validity.days_until_expiry ?? 0), date: formatDate(licenseData.valid_to) });
+      break;
+    case 'expired':
+      detail = t('validity.expiredAgo', { days: plural('count.day', validity.days_since_expiry ?? 0), date: formatDate(licenseData.valid_to) });
+      break;
+    case 'not_yet_valid':
+      detail = t('validity.validIn', { days: plural('count.day', validity.days_until_valid ?? 0), date: formatDate(licenseData.valid_from) });
+      break;
+    case 'unknown':
+      detail = t('validity.unreadable');
+      break;
+    default:
+      detail = assertNever(validity.state);
+  }
+
+  return (
+    <div className={VALIDITY_BANNER_CLASS[validity.state]} style={{ textAlign: 'center', marginBottom: '16px' }}>
+      <h2 style={{ fontSize: '28px', letterSpacing: '2px' }}>{t(`validity.${validity.state}`)}</h2>
+      <div style={{ fontSize: '16px', marginTop: '4px' }}>{detail}</div>
+      <div style={{ fontSize: '14px', marginTop: '4px' }}>
+        {validity.holder_age !== undefined && <>{t('validity.holderAge', { age: validity.holder_age })} · </>}
+        {t('validity.asOf', { date: formatDate(validity.as_of) })}
       </div>
-    );
+    </div>
+  );
+};
+
+const SIGNATURE_BANNER_CLASS: Record<SignatureStatus, string> = {
+  authentic: 'success',
+  unsigned: 'warning',
+  unknown_issuer: 'warning',
+  invalid: 'error',
+  unverified: 'warning'
+};
+
+/**
+ * Whether the barcode was signed by a trusted issuer - XOR encryption alone does not prove that
+ */
+const SignatureBanner: React.FC<{ signature: SignatureCheck }> = ({ signature }) => {
+  const { t } = useI18n();
+  return (
+    <div className={SIGNATURE_BANNER_CLASS[signature.status]} style={{ textAlign: 'center', marginBottom: '16px' }}>
+      <h2 style={{ fontSize: '24px', letterSpacing: '2px' }}>{t(`signature.${signature.status}`)}</h2>
+      <div style={{ fontSize: '16px', marginTop: '4px' }}>
+        {signature.status === 'authentic' || signature.status === 'unknown_issuer'
+          ? t(`signature.${signature.status}.detail`, { issuer: signature.issuer ?? signature.key_id ?? '', key: signature.key_id ?? '' })
+          : t(`signature.${signature.status}.detail`)}
+      </div>
+      {signature.problem && (
+        <div style={{ fontSize: '14px', marginTop: '4px' }}>{t(`signature.problem.${signature.problem}`, { algorithm: signature.algorithm ?? '' })}</div>
+      )}
+    </div>
+  );
+};
+
+const codeCatalog = LicenseCodeCatalog.createDefault();
+
+/**
+ * Codes with their catalog descriptions - codes the catalog does not know are flagged
+ */
+const CodeList = <T,>({ codes, lookup, describe }: {
+  codes: string[];
+  lookup: (code: string) => CodeLookup<T>;
+  describe: (entry: T) => string;
+}) => {
+  const { t } = useI18n();
+  if (codes.length === 0) {
+    return <span>{t('common.none')}</span>;
   }
+  return (
+    <span>
+      {codes.map(code => lookup(code)).map((item, index) => (
+        <div key={index}>
+          {item.known ? (
+            <><strong>{item.code}</strong> - {describe(item.entry)}</>
+          ) : (
+            <span style={{ color: '#dc3545' }}>⚠️ <strong>{item.code}</strong> - {t('codes.unknown')}</span>
+          )}
+        </div>
+      ))}
+    </span>
+  );
+};
+
+const PHOTO_STATUS: Record<RecoveryReport['photo'], MessageKey> = {
+  complete: 'results.recovery.photo.complete',
+  truncated: 'results.recovery.photo.truncated',
+  missing: 'results.recovery.photo.missing'
+};
+
+const FIELD_LABELS: Record<keyof LicenseData, MessageKey> = {
+  person_name: 'results.field.name',
+  person_initials: 'results.field.initials',
+  person_surname: 'results.field.surname',
+  id_number: 'results.field.idNumber',
+  date_of_birth: 'results.field.dateOfBirth',
+  license_number: 'results.field.licenseNumber',
+  valid_from: 'results.field.validFrom',
+  valid_to: 'results.field.validTo',
+  license_codes: 'results.field.licenseCodes',
+  vehicle_restrictions: 'results.field.vehicleRestrictions',
+  driver_restrictions: 'results.field.driverRestrictions',
+  sex: 'results.field.sex',
+  country: 'results.field.country',
+  format_version: 'results.field.formatVersion'
+};
+
+/**
+ * What survived of a payload that was cut short
+ */
+const RecoveryDetails: React.FC<{ recovery: RecoveryReport }> = ({ recovery }) => {
+  const { t, plural } = useI18n();
+  return (
+    <div className="license-section">
+      <h3>{t('results.recovery.title')}</h3>
+      <div className="license-field">
+        <label>{t('results.recovery.recovered')}</label>
+        <span>{plural('count.byte', recovery.recovered_bytes)}</span>
+      </div>
+      <div className="license-field">
+        <label>{t('results.recovery.intactFields')}</label>
+        <span>{recovery.intact_fields.join(', ') || t('common.none')}</span>
+      </div>
+      {recovery.truncated_field && (
+        <div className="license-field field-warning">
+          <label>{t('results.recovery.cutOffIn')}</label>
+          <span>{recovery.truncated_field}</span>
+        </div>
+      )}
+      {recovery.missing_fields.length > 0 && (
+        <div className="license-field field-error">
+          <label>{t('results.recovery.missingFields')}</label>
+          <span>{recovery.missing_fields.join(', ')}</span>
+        </div>
+      )}
+      <div className="license-field">
+        <label>{t('results.recovery.photo')}</label>
+        <span>{t(PHOTO_STATUS[recovery.photo])}</span>
+      </div>
+    </div>
+  );
+};
+
+const DecodeFailureDetails: React.FC<DecodeFailureProps> = ({ result, onClear }) => {
+  const { t, plural } = useI18n();
+  const { error_details: details, partial } = result;
+  return (
+    <div className="card">
+      <div className="error">
+        <h3>{t('results.failure.title')}</h3>
+        <p>{t(`decodeError.${details.code}`)}</p>
+        <div style={{ marginTop: '12px', fontSize: '14px' }}>
+          <div><strong>{t('common.error')}</strong> {details.code} ({t('results.failure.stage', { stage: details.stage })}
+            {details.offset !== undefined && `, ${t('results.failure.offset', { offset: details.offset })}`})</div>
+          <div style={{ marginTop: '8px' }}><strong>{t('results.failure.remedy')}</strong> {t(`remediation.${details.code}`)}</div>
+        </div>
+        <div className="mt-4">
+          <button onClick={onClear} className="btn btn-secondary">
+            {t('common.tryAgain')}
+          </button>
+        </div>
+      </div>
 
+      {/* Whatever the pipeline got through before failing */}
+      {partial && (
+        <div className="license-section">
+          <h3>{t('results.partial.title')}</h3>
+          {partial.key_id && (
+            <div className="license-field">
+              <label>{t('results.field.keyId')}</label>
+              <span>{partial.key_id}</span>
+            </div>
+          )}
+          {partial.total_payload_size !== undefined && (
+            <div className="license-field">
+              <label>{t('results.field.payloadSize')}</label>
+              <span>{plural('count.byte', partial.total_payload_size)}</span>
+            </div>
+          )}
+          {partial.license_data && Object.entries(partial.license_data).map(([field, value]) => (
+            <div className="license-field" key={field}>
+              <label>{t(FIELD_LABELS[field as keyof LicenseData])}</label>
+              <span>{Array.isArray(value) ? value.join(', ') : value}</span>
+            </div>
+          ))}
+          {partial.license_text && (
+            <pre style={{
+              background: '#f5f5f5',
+              padding: '12px',
+              borderRadius: '8px',
+              fontSize: '12px',
+              overflow: 'auto',
+              whiteSpace: 'pre-wrap',
+              wordBreak: 'break-all'
+            }}>
+              {partial.license_text}
+            </pre>
+          )}
+        </div>
+      )}
+
+      {partial?.recovery && <RecoveryDetails recovery={partial.recovery} />}
+    </div>
+  );
+};
+
+const LicenseDetails: React.FC<DecodeSuccessProps> = ({ result, onClear }) => {
+  const { t, plural, formatDate, locale } = useI18n();
   const { license_data } = result;
+  const inspection = result.image_inspection;
+  // Whether the browser actually managed to draw the photo (null until the viewer has tried)
+  const [photoRenders, setPhotoRenders] = useState<boolean | null>(null);
+  const issues = result.validation.issues;
+
+  // The decoder's messages are English only - findings are shown by code
+  const issueText = (issue: ValidationIssue) =>
+    t(`validation.${issue.code}`, issue.code === 'DATE_MISSING' || issue.code === 'DATE_FORMAT'
+      ? { ...issue.params, field: t(`validation.date.${issue.field}` as MessageKey) }
+      : issue.params);
+  const repairsText = (repairs: PhotoRepair[]) =>
+    repairs.map(repair => t(`photoRepair.${repair.code}`, repair.params)).join('; ');
+  const noteText = (note: ConfidenceNote) => {
+    if (note.code === 'PHOTO_CUT_OFF' && result.recovery) {
+      return t('confidence.PHOTO_CUT_OFF', { photo: t(PHOTO_STATUS[result.recovery.photo]) });
+    }
+    if (note.code === 'PHOTO_REPAIRED' && result.image_repairs) {
+      return t('confidence.PHOTO_REPAIRED', { repairs: repairsText(result.image_repairs) });
+    }
+    return t(`confidence.${note.code}`, note.params);
+  };
+
+  // Highlight fields that failed validation
+  const fieldClass = (field: keyof LicenseData) => {
+    const fieldIssues = issues.filter(issue => issue.field === field);
+    if (fieldIssues.some(issue => issue.severity === 'error')) return 'license-field field-error';
+    if (fieldIssues.length > 0) return 'license-field field-warning';
+    return 'license-field';
+  };
+  const fieldTitle = (field: keyof LicenseData) =>
+    issues.filter(issue => issue.field === field).map(issueText).join('\n') || undefined;
 
   return (
     <div className="card">
       <div className="text-center mb-4">
-        <h2>✅ License Decoded Successfully</h2>
-        <p className="success">{result.message}</p>
+        <h2>{t('results.success.title')}</h2>
+        <p className="success">{t('results.success.message', { license: license_data.license_number })}</p>
       </div>
 
+      <ValidityBanner validity={result.validity} licenseData={license_data} />
+      <SignatureBanner signature={result.signature} />
+
+      {/* Anything short of a clean decode needs checking against the card */}
+      {result.confidence !== 'high' && (
+        <div className={result.confidence === 'low' ? 'error' : 'warning'}>
+          <h3>{t(result.confidence === 'low' ? 'results.confidence.low.title' : 'results.confidence.medium.title')}</h3>
+          <p>{t('results.confidence.body')}</p>
+          <ul style={{ marginLeft: '20px', marginTop: '8px' }}>
+            {result.confidence_notes.map((note, index) => (
+              <li key={index}>{noteText(note)}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {result.recovery && <RecoveryDetails recovery={result.recovery} />}
+
+      {/* Validation Report */}
+      {issues.length > 0 && (
+        <div className={result.validation.valid ? 'warning' : 'error'}>
+          <h3>{t(result.validation.valid ? 'results.validation.warnings' : 'results.validation.errors')}</h3>
+          <ul style={{ marginLeft: '20px', marginTop: '8px' }}>
+            {issues.map((issue, index) => (
+              <li key={index}>
+                <strong>{t(issue.severity === 'error' ? 'results.validation.error' : 'results.validation.warning')}</strong> {issueText(issue)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       <div className="results-grid">
         <div className="license-info">
           {/* Personal Information */}
           <div className="license-section">
-            <h3>👤 Personal Information</h3>
-            <div className="license-field">
-              <label>Name:</label>
-              <span>{license_data.person_name || 'N/A'}</span>
+            <h3>{t('results.personal.title')}</h3>
+            <div className={fieldClass('person_name')} title={fieldTitle('person_name')}>
+              <label>{t('results.field.name')}</label>
+              <span>{license_data.person_name || t('common.notAvailable')}</span>
             </div>
             <div className="license-field">
-              <label>ID Number:</label>
-              <span>{license_data.id_number || 'N/A'}</span>
+              <label>{t('results.field.initials')}</label>
+              <span>{license_data.person_initials || t('common.notAvailable')}</span>
             </div>
             <div className="license-field">
-              <label>Sex:</label>
-              <span>{license_data.sex || 'N/A'}</span>
+              <label>{t('results.field.surname')}</label>
+              <span>{license_data.person_surname || t('common.notAvailable')}</span>
             </div>
-            <div className="license-field">
-              <label>Date of Birth:</label>
-              <span>{license_data.date_of_birth || 'N/A'}</span>
+            <div className={fieldClass('id_number')} title={fieldTitle('id_number')}>
+              <label>{t('results.field.idNumber')}</label>
+              <span>{license_data.id_number || t('common.notAvailable')}</span>
+            </div>
+            <div className={fieldClass('sex')} title={fieldTitle('sex')}>
+              <label>{t('results.field.sex')}</label>
+              <span>{license_data.sex || t('common.notAvailable')}</span>
+            </div>
+            <div className={fieldClass('date_of_birth')} title={fieldTitle('date_of_birth')}>
+              <label>{t('results.field.dateOfBirth')}</label>
+              <span>{license_data.date_of_birth ? formatDate(license_data.date_of_birth) : t('common.notAvailable')}</span>
             </div>
           </div>
 
           {/* License Information */}
           <div className="license-section">
-            <h3>🪪 License Information</h3>
-            <div className="license-field">
-              <label>License Number:</label>
-              <span>{license_data.license_number || 'N/A'}</span>
+            <h3>{t('results.license.title')}</h3>
+            <div className={fieldClass('license_number')} title={fieldTitle('license_number')}>
+              <label>{t('results.field.licenseNumber')}</label>
+              <span>{license_data.license_number || t('common.notAvailable')}</span>
+            </div>
+            <div className={fieldClass('license_codes')} title={fieldTitle('license_codes')}>
+              <label>{t('results.field.licenseCodes')}</label>
+              <CodeList
+                codes={license_data.license_codes}
+                lookup={code => codeCatalog.category(code)}
+                describe={category => `${localizedDescription(category, locale)} (${describeCategoryLimits(category, locale)})`}
+              />
+            </div>
+            <div className={fieldClass('valid_from')} title={fieldTitle('valid_from')}>
+              <label>{t('results.field.validFrom')}</label>
+              <span>{license_data.valid_from ? formatDate(license_data.valid_from) : t('common.notAvailable')}</span>
+            </div>
+            <div className={fieldClass('valid_to')} title={fieldTitle('valid_to')}>
+              <label>{t('results.field.validTo')}</label>
+              <span>{license_data.valid_to ? formatDate(license_data.valid_to) : t('common.notAvailable')}</span>
+            </div>
+            <div className={fieldClass('vehicle_restrictions')} title={fieldTitle('vehicle_restrictions')}>
+              <label>{t('results.field.vehicleRestrictions')}</label>
+              <CodeList
+                codes={license_data.vehicle_restrictions}
+                lookup={code => codeCatalog.vehicleRestriction(code)}
+                describe={restriction => localizedDescription(restriction, locale)}
+              />
+            </div>
+            <div className={fieldClass('driver_restrictions')} title={fieldTitle('driver_restrictions')}>
+              <label>{t('results.field.driverRestrictions')}</label>
+              <CodeList
+                codes={license_data.driver_restrictions}
+                lookup={code => codeCatalog.driverRestriction(code)}
+                describe={restriction => localizedDescription(restriction, locale)}
+              />
             </div>
+          </div>
+
+          {/* Technical Information */}
+          <div className="license-section">
+            <h3>{t('results.technical.title')}</h3>
             <div className="license-field">
-              <label>License Codes:</label>
-              <span>{license_data.license_codes?.join(', ') || 'None'}</span>
+              <label>{t('results.field.formatVersion')}</label>
+              <span>{license_data.format_version || t('common.notAvailable')}</span>
             </div>
             <div className="license-field">
-              <label>Valid From:</label>
-              <span>{license_data.valid_from || 'N/A'}</span>
+              <label>{t('results.field.formatParser')}</label>
+              <span>{result.format_parser}</span>
             </div>
             <div className="license-field">
-              <label>Valid Until:</label>
-              <span>{license_data.valid_to || 'N/A'}</span>
+              <label>{t('results.field.codeCatalog')}</label>
+              <span>{codeCatalog.version}</span>
             </div>
             <div className="license-field">
-              <label>Vehicle Restrictions:</label>
-              <span>{license_data.vehicle_restrictions?.join(', ') || 'None'}</span>
+              <label>{t('results.field.country')}</label>
+              <span>{license_data.country || t('common.notAvailable')}</span>
             </div>
             <div className="license-field">
-              <label>Driver Restrictions:</label>
-              <span>{license_data.driver_restrictions?.join(', ') || 'None'}</span>
+              <label>{t('results.field.decodingFormat')}</label>
+              <span>{result.decoding_format || t('common.notAvailable')}</span>
             </div>
-          </div>
-
-          {/* Technical Information */}
-          <div className="license-section">
-            <h3>🔧 Technical Information</h3>
             <div className="license-field">
-              <label>Format Version:</label>
-              <span>{license_data.format_version || 'N/A'}</span>
+              <label>{t('results.field.decodeMode')}</label>
+              <span>{result.decode_mode}</span>
             </div>
             <div className="license-field">
-              <label>Country:</label>
-              <span>{license_data.country || 'N/A'}</span>
+              <label>{t('results.field.decodeMethod')}</label>
+              <span>
+                {result.decode_method.decompression} / {result.decode_method.parse}
+                {result.decode_method.image && ` / ${t('results.field.decodeMethod.photo', { method: result.decode_method.image })}`}
+              </span>
             </div>
             <div className="license-field">
-              <label>Decoding Format:</label>
-              <span>{result.decoding_format || 'N/A'}</span>
+              <label>{t('results.field.confidence')}</label>
+              <span>{t(`results.confidence.${result.confidence}`)}</span>
             </div>
             <div className="license-field">
-              <label>Payload Size:</label>
-              <span>{result.total_payload_size} bytes</span>
+              <label>{t('results.field.payloadSize')}</label>
+              <span>{plural('count.byte', result.total_payload_size)}</span>
             </div>
           </div>
 
           {/* Security Information */}
           <div className="license-section">
-            <h3>🔐 Security</h3>
+            <h3>{t('results.security.title')}</h3>
             <div className="license-field">
-              <label>Encryption:</label>
-              <span>Static Key XOR</span>
+              <label>{t('results.field.encryption')}</label>
+              <span>{t('results.field.encryption.value')}</span>
             </div>
             <div className="license-field">
-              <label>Compression:</label>
-              <span>zlib level 9</span>
+              <label>{t('results.field.keyId')}</label>
+              <span>{result.key_id || t('common.notAvailable')}</span>
             </div>
             <div className="license-field">
-              <label>Data Format:</label>
-              <span>9-field pipe-delimited</span>
+              <label>{t('results.field.compression')}</label>
+              <span>{t('results.field.compression.value')}</span>
             </div>
+            <div className="license-field">
+              <label>{t('results.field.dataFormat')}</label>
+              <span>{t('results.field.dataFormat.value')}</span>
+            </div>
+            <div className="license-field">
+              <label>{t('results.field.signature')}</label>
+              <span>{t(`signature.${result.signature.status}`)}</span>
+            </div>
+            {result.signature.key_id && (
+              <div className="license-field">
+                <label>{t('results.field.signingKey')}</label>
+                <span>{result.signature.key_id}</span>
+              </div>
+            )}
           </div>
         </div>
 
         {/* Photo Section */}
         <div className="license-photo">
           <div className="license-section">
-            <h3>📷 Embedded Photo</h3>
+            <h3>{t('results.photo.title')}</h3>
             {result.has_image && result.image_base64 ? (
               <div>
-                <img
-                  src={`data:image/${result.image_format?.toLowerCase() || 'jpeg'};base64,${result.image_base64}`}
-                  alt="License Photo"
-                  style={{ maxWidth: '150px', maxHeight: '200px' }}
-                  onLoad={() => console.log("✅ Image loaded successfully!")}
-                  onError={(e) => {
-                    console.error("❌ Image failed to load:", e);
-                    console.log("🔍 Image data details:");
-                    console.log("- has_image:", result.has_image);
-                    console.log("- image_format:", result.image_format);
-                    console.log("- image_size_bytes:", result.image_size_bytes);
-                    console.log("- base64 length:", result.image_base64?.length);
-                    console.log("- base64 preview:", result.image_base64?.substring(0, 50));
-                    console.log("- data URI:", `data:image/${result.image_format?.toLowerCase() || 'jpeg'};base64,${result.image_base64?.substring(0, 50)}...`);
-                  }}
+                <PhotoViewer
+                  imageBase64={result.image_base64}
+                  mimeType={`image/${result.image_format?.toLowerCase() || 'jpeg'}`}
+                  exportName={`license-photo-${license_data.license_number || 'unknown'}.png`}
+                  onRenderResult={setPhotoRenders}
                 />
                 <div style={{ fontSize: '12px', color: '#666', marginTop: '8px' }}>
-                  <div>Format: {result.image_format || 'Unknown'}</div>
-                  <div>Size: {result.image_size_bytes} bytes</div>
-                  <div>Base64 Length: {result.image_base64?.length || 0} chars</div>
-                  <div style={{ display: 'flex', gap: '4px', marginTop: '8px' }}>
-                    <button 
-                      onClick={() => {
-                        const dataUri = `data:image/${result.image_format?.toLowerCase() || 'jpeg'};base64,${result.image_base64}`;
-                        window.open(dataUri, '_blank');
-                      }}
-                      style={{
-                        padding: '4px 8px',
-                        fontSize: '10px',
-                        backgroundColor: '#007bff',
-                        color: 'white',
-                        border: 'none',
-                        borderRadius: '4px',
-                        cursor: 'pointer'
-                      }}
-                    >
-                      🔍 Test Image in New Tab
-                    </button>
-                    <button 
-                      onClick={() => {
-                        // Test with a tiny valid JPEG (1x1 pixel red dot)
-                        const testJpeg = "/9j/4AAQSkZJRgABAQEAYABgAAD/2wBDAAEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQH/2wBDAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQH/wAARCAABAAEDASIAAhEBAxEB/8QAFQABAQAAAAAAAAAAAAAAAAAAAAv/xAAUEAEAAAAAAAAAAAAAAAAAAAAA/8QAFQEBAQAAAAAAAAAAAAAAAAAAAAX/xAAUEQEAAAAAAAAAAAAAAAAAAAAA/9oADAMBAAIRAxEAPwA/AB//2Q==";
-                        const testUri = `data:image/jpeg;base64,${testJpeg}`;
-                        window.open(testUri, '_blank');
-                      }}
-                      style={{
-                        padding: '4px 8px',
-                        fontSize: '10px',
-                        backgroundColor: '#28a745',
-                        color: 'white',
-                        border: 'none',
-                        borderRadius: '4px',
-                        cursor: 'pointer'
-                      }}
-                    >
-                      🧪 Test Valid JPEG
-                    </button>
+                  <div>{t('results.photo.format', { format: result.image_format || t('common.unknown') })}</div>
+                  <div>{t('results.photo.size', { size: plural('count.byte', result.image_size_bytes) })}</div>
+                  {inspection?.dimensions && (
+                    <div>{t('results.photo.dimensions', { width: inspection.dimensions.width, height: inspection.dimensions.height })}</div>
+                  )}
+                  {inspection && (
+                    <div>
+                      {t('results.photo.structure', {
+                        state: t(!inspection.structurallyComplete
+                          ? 'results.photo.structure.damaged'
+                          : inspection.truncated ? 'results.photo.structure.cutOff' : 'results.photo.structure.intact')
+                      })}
+                    </div>
+                  )}
+                  <div>
+                    {t('results.photo.renders', {
+                      state: t(photoRenders === null
+                        ? 'results.photo.renders.checking'
+                        : photoRenders ? 'results.photo.renders.yes' : 'results.photo.renders.no')
+                    })}
                   </div>
+                  {result.image_repairs && (
+                    <div style={{ color: '#856404' }}>{t('results.photo.repaired', { repairs: repairsText(result.image_repairs) })}</div>
+                  )}
                 </div>
               </div>
             ) : (
               <div style={{ color: '#666', fontStyle: 'italic' }}>
-                No photo embedded
+                {t('results.photo.none')}
+              </div>
+            )}
+            {result.image_error && (
+              <div className="warning" style={{ fontSize: '12px', marginTop: '8px' }}>
+                <div><strong>{t('results.photo.error', { code: result.image_error.code })}</strong></div>
+                <div>{t(`remediation.${result.image_error.code}`)}</div>
               </div>
             )}
           </div>
@@ -201,7 +533,7 @@ export const LicenseResults: React.FC<LicenseResultsProps> = ({ result, onClear
       {/* Action Buttons */}
       <div className="text-center mt-4">
         <button onClick={onClear} className="btn btn-primary">
-          🔍 Scan Another License
+          {t('results.scanAnother')}
         </button>
         <button 
           onClick={() => {
@@ -218,14 +550,14 @@ export const LicenseResults: React.FC<LicenseResultsProps> = ({ result, onClear
           }}
           className="btn btn-secondary"
         >
-          📥 Download JSON
+          {t('results.downloadJson')}
         </button>
       </div>
 
       {/* Raw Data Section - Collapsible */}
       <details style={{ marginTop: '20px' }}>
         <summary style={{ cursor: 'pointer', fontWeight: 'bold', color: '#666' }}>
-          🔍 Raw Decoded Data (JSON)
+          {t('results.rawJson')}
         </summary>
         <pre style={{ 
           background: '#f5f5f5', 
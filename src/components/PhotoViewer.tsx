@@ -0,0 +1,195 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import {
+  DEFAULT_ENHANCE_SETTINGS,
+  PhotoEnhanceSettings,
+  PixelImage,
+  decodePhoto,
+  drawPhoto,
+  enhancePhoto,
+  exportCanvasPng
+} from '../utils/photoEnhance';
+import { useI18n } from '../i18n/context';
+
+interface PhotoViewerProps {
+  imageBase64: string;
+  mimeType: string;
+  exportName: string;                          // File name for the PNG export
+  onRenderResult?: (renders: boolean) => void; // Whether the browser could decode the photo
+}
+
+const sliderRowStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: '8px',
+  fontSize: '12px',
+  marginTop: '6px'
+};
+
+/**
+ * Draw pixels on a canvas whenever the image or scaling changes
+ */
+const PhotoCanvas: React.FC<{ image: PixelImage; scale: number; smooth: boolean; canvasRef?: React.RefObject<HTMLCanvasElement> }> = ({ image, scale, smooth, canvasRef }) => {
+  const ownRef = useRef<HTMLCanvasElement>(null);
+  const ref = canvasRef ?? ownRef;
+
+  useEffect(() => {
+    if (ref.current) {
+      drawPhoto(ref.current, image, scale, smooth);
+    }
+  }, [ref, image, scale, smooth]);
+
+  return <canvas ref={ref} style={{ display: 'block', maxWidth: '100%', border: '1px solid #e2e8f0', borderRadius: '4px' }} />;
+};
+
+/**
+ * License photo on a canvas with upscaling, equalization and contrast controls
+ */
+export const PhotoViewer: React.FC<PhotoViewerProps> = ({ imageBase64, mimeType, exportName, onRenderResult }) => {
+  const { t } = useI18n();
+  const [source, setSource] = useState<PixelImage | null>(null);
+  const [decodeError, setDecodeError] = useState<string | null>(null);
+  const [settings, setSettings] = useState<PhotoEnhanceSettings>(DEFAULT_ENHANCE_SETTINGS);
+  const [scale, setScale] = useState(3);
+  const [smooth, setSmooth] = useState(true);
+  const [compareOpen, setCompareOpen] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  // Decode once per photo
+  useEffect(() => {
+    let cancelled = false;
+    setSource(null);
+    setDecodeError(null);
+    decodePhoto(imageBase64, mimeType)
+      .then(image => {
+        if (cancelled) return;
+        setSource(image);
+        onRenderResult?.(true);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.error('❌ Photo could not be decoded:', error);
+        setDecodeError(error instanceof Error ? error.message : String(error));
+        onRenderResult?.(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [imageBase64, mimeType, onRenderResult]);
+
+  const enhanced = useMemo(() => source && enhancePhoto(source, settings), [source, settings]);
+
+  // Close the compare view with Escape
+  useEffect(() => {
+    if (!compareOpen) return;
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setCompareOpen(false);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [compareOpen]);
+
+  if (decodeError) {
+    return (
+      <div className="error" style={{ fontSize: '12px' }}>
+        {t('photo.error', { error: decodeError })}
+      </div>
+    );
+  }
+
+  if (!source || !enhanced) {
+    return <div style={{ color: '#666', fontSize: '12px' }}>{t('photo.decoding')}</div>;
+  }
+
+  const updateSetting = <K extends keyof PhotoEnhanceSettings>(key: K, value: PhotoEnhanceSettings[K]) => {
+    setSettings(current => ({ ...current, [key]: value }));
+  };
+
+  // Fit both photos side by side in the window
+  const compareScale = Math.max(1, Math.min(
+    (window.innerHeight - 140) / source.height,
+    (window.innerWidth / 2 - 48) / source.width
+  ));
+
+  return (
+    <div>
+      <PhotoCanvas image={enhanced} scale={scale} smooth={smooth} canvasRef={canvasRef} />
+      <div style={{ fontSize: '12px', color: '#666', marginTop: '4px' }}>
+        {t('photo.size', { width: source.width, height: source.height, scale })}
+      </div>
+
+      <div style={{ marginTop: '8px' }}>
+        <label style={sliderRowStyle}>
+          <span style={{ width: '70px' }}>{t('photo.zoom')}</span>
+          <input type="range" min={1} max={8} step={1} value={scale} onChange={(e) => setScale(Number(e.target.value))} />
+          <span>{scale}×</span>
+        </label>
+        <label style={sliderRowStyle}>
+          <span style={{ width: '70px' }}>{t('photo.contrast')}</span>
+          <input type="range" min={-100} max={100} value={settings.contrast} onChange={(e) => updateSetting('contrast', Number(e.target.value))} />
+          <span>{settings.contrast}</span>
+        </label>
+        <label style={sliderRowStyle}>
+          <span style={{ width: '70px' }}>{t('photo.brightness')}</span>
+          <input type="range" min={-100} max={100} value={settings.brightness} onChange={(e) => updateSetting('brightness', Number(e.target.value))} />
+          <span>{settings.brightness}</span>
+        </label>
+        <label style={sliderRowStyle}>
+          <input type="checkbox" checked={settings.equalize} onChange={(e) => updateSetting('equalize', e.target.checked)} />
+          {t('photo.equalize')}
+        </label>
+        <label style={sliderRowStyle}>
+          <input type="checkbox" checked={smooth} onChange={(e) => setSmooth(e.target.checked)} />
+          {t('photo.smooth')}
+        </label>
+      </div>
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px', marginTop: '8px' }}>
+        <button onClick={() => setCompareOpen(true)} className="btn btn-secondary" style={{ fontSize: '12px', padding: '4px 8px' }}>
+          {t('photo.compare')}
+        </button>
+        <button
+          onClick={() => canvasRef.current && exportCanvasPng(canvasRef.current, exportName)}
+          className="btn btn-secondary"
+          style={{ fontSize: '12px', padding: '4px 8px' }}
+        >
+          {t('photo.export')}
+        </button>
+        <button onClick={() => setSettings(DEFAULT_ENHANCE_SETTINGS)} className="btn btn-secondary" style={{ fontSize: '12px', padding: '4px 8px' }}>
+          {t('photo.reset')}
+        </button>
+      </div>
+
+      {compareOpen && (
+        <div
+          onClick={() => setCompareOpen(false)}
+          style={{
+            position: 'fixed',
+            inset: 0,
+            zIndex: 1000,
+            background: 'rgba(0, 0, 0, 0.92)',
+            color: 'white',
+            display: 'flex',
+            flexDirection: 'column',
+            alignItems: 'center',
+            justifyContent: 'center',
+            padding: '16px'
+          }}
+        >
+          <div style={{ display: 'flex', gap: '24px', alignItems: 'flex-start' }}>
+            <div className="text-center">
+              <div style={{ marginBottom: '8px' }}>{t('photo.original')}</div>
+              <PhotoCanvas image={source} scale={compareScale} smooth={smooth} />
+            </div>
+            <div className="text-center">
+              <div style={{ marginBottom: '8px' }}>{t('photo.enhanced')}</div>
+              <PhotoCanvas image={enhanced} scale={compareScale} smooth={smooth} />
+            </div>
+          </div>
+          <div style={{ marginTop: '16px', fontSize: '14px', color: '#ccc' }}>
+            {t('photo.closeHint')}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,108 @@
+import React, { useRef, useState } from 'react';
+import { ScannedData, MadagascarLicenseEncoder, EncodableLicense, EncodedLicense } from '@linc-scan/decoder';
+import { renderBarcodeToCanvas } from '../utils/barcodeRenderer';
+import { useI18n } from '../i18n/context';
+
+interface TestBarcodeGeneratorProps {
+  onScan: (data: ScannedData) => void;
+}
+
+const SAMPLE_LICENSE: EncodableLicense = {
+  person_name: 'BJ SCHUTTE',
+  id_number: '456740229624',
+  date_of_birth: '1980-01-15',
+  license_number: 'MGD0154747899',
+  valid_from: '2024-01-01',
+  valid_to: '2029-01-01',
+  license_codes: ['B', 'C'],
+  vehicle_restrictions: [],
+  driver_restrictions: [],
+  sex: 'M',
+  country: 'MG',
+  format_version: 'standardized_madagascar_v5'
+};
+
+export const TestBarcodeGenerator: React.FC<TestBarcodeGeneratorProps> = ({ onScan }) => {
+  const { t, plural } = useI18n();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [licenseJson, setLicenseJson] = useState(JSON.stringify(SAMPLE_LICENSE, null, 2));
+  const [encoded, setEncoded] = useState<EncodedLicense | null>(null);
+  const [error, setError] = useState('');
+
+  const generate = () => {
+    try {
+      const licenseData: EncodableLicense = JSON.parse(licenseJson);
+      const result = new MadagascarLicenseEncoder().encode(licenseData);
+      if (canvasRef.current) {
+        renderBarcodeToCanvas(canvasRef.current, result);
+      }
+      setEncoded(result);
+      setError('');
+      console.log(`🖨️ Test barcode generated: ${result.encrypted.length} bytes (key ${result.key_id})`);
+    } catch (err) {
+      setEncoded(null);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const downloadPng = () => {
+    if (!canvasRef.current || !encoded) return;
+    const a = document.createElement('a');
+    a.href = canvasRef.current.toDataURL('image/png');
+    a.download = `test_barcode_${JSON.parse(licenseJson).license_number || 'license'}.png`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+  };
+
+  return (
+    <div className="card">
+      <div className="text-center mb-4">
+        <h3>{t('generator.title')}</h3>
+        <p>{t('generator.hint')}</p>
+      </div>
+
+      <textarea
+        value={licenseJson}
+        onChange={(e) => setLicenseJson(e.target.value)}
+        style={{
+          width: '100%',
+          height: '200px',
+          padding: '12px',
+          border: '2px solid #e2e8f0',
+          borderRadius: '8px',
+          fontSize: '12px',
+          fontFamily: 'monospace',
+          resize: 'vertical'
+        }}
+      />
+
+      <div className="text-center mt-4">
+        <button onClick={generate} className="btn btn-primary">
+          {t('generator.generate')}
+        </button>
+        {encoded && (
+          <>
+            <button onClick={() => onScan(encoded.encrypted)} className="btn btn-secondary">
+              {t('generator.decode')}
+            </button>
+            <button onClick={downloadPng} className="btn btn-secondary">
+              {t('generator.download')}
+            </button>
+          </>
+        )}
+      </div>
+
+      {error && <div className="error">{t('generator.failed', { detail: error })}</div>}
+
+      <div className="text-center mt-4" style={{ display: encoded ? 'block' : 'none' }}>
+        <canvas ref={canvasRef} style={{ maxWidth: '100%', background: '#fff' }} />
+        {encoded && (
+          <div style={{ fontSize: '12px', color: '#666', marginTop: '8px' }}>
+            {t('generator.summary', { size: plural('count.byte', encoded.encrypted.length), key: encoded.key_id ?? t('common.none') })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,31 @@
+import { createContext, useContext } from 'react';
+import { Locale, LocalizedMessage, MessageKey, MessageParams, PluralKey, formatDate, translate, translatePlural } from '../utils/i18n';
+
+export interface I18nContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  tMessage: (message: LocalizedMessage) => string;
+  plural: (key: PluralKey, count: number, params?: MessageParams) => string;
+  formatDate: (isoDate: string) => string;
+}
+
+/**
+ * English until an I18nProvider supplies the chosen language
+ */
+export const I18nContext = createContext<I18nContextValue>(createI18nValue('en', () => undefined));
+
+export function createI18nValue(locale: Locale, setLocale: (locale: Locale) => void): I18nContextValue {
+  return {
+    locale,
+    setLocale,
+    t: (key, params) => translate(locale, key, params),
+    tMessage: message => translate(locale, message.key, message.params),
+    plural: (key, count, params) => translatePlural(locale, key, count, params),
+    formatDate: isoDate => formatDate(locale, isoDate)
+  };
+}
+
+export function useI18n(): I18nContextValue {
+  return useContext(I18nContext);
+}
@@ -0,0 +1,431 @@
+/**
+ * English UI messages - the reference catalog every other locale must cover
+ * Keys with .one / .other are count forms, see translatePlural
+ */
+export const en = {
+  // App shell
+  'app.title': '🇲🇬 Madagascar License Scanner',
+  'app.subtitle': 'Offline PDF417 Barcode Decoder for Driver\'s Licenses',
+  'app.language': 'Language',
+  'app.decoding.title': '🔍 Decoding License Data...',
+  'app.decoding.body': 'Please wait while we decrypt and parse the barcode information.',
+  'app.cancel': '✖️ Cancel',
+  'app.scannerOptions': '📱 Scanner Options',
+  'app.scanner.original': '📄 Original PDF417',
+  'app.scanner.alternative': '🔍 Enhanced Scanner',
+  'app.scanner.image': '📸 Image Upload',
+  'app.scanner.original.hint': 'Using ZXing PDF417 Reader (may have issues)',
+  'app.scanner.alternative.hint': 'Using Enhanced Multi-Format Scanner (recommended)',
+  'app.scanner.image.hint': 'Upload and scan barcode images (best for testing)',
+  'app.lenient': 'Lenient decoding (try recovery heuristics on damaged scans)',
+  'app.asOf': 'Check validity as of',
+  'app.asOf.today': 'Today',
+  'app.otherInput': 'Alternative Input Methods',
+  'app.otherInput.manual': '⌨️ Enter Hex Data Manually',
+  'app.otherInput.diagnostics': '🔧 Run Diagnostics',
+  'app.otherInput.keys': '🔑 Manage Keys',
+  'app.backToScanner': '📷 Back to Scanner',
+  'app.manual.title': '⌨️ Manual Hex Input',
+  'app.manual.hint': 'Paste the hex-encoded barcode data below',
+  'app.manual.label': 'Hex Data:',
+  'app.manual.decode': '🔍 Decode Data',
+  'app.footer.title': '🔐 Security Information',
+  'app.footer.privacy': 'This app processes data entirely in your browser - no data is sent to any server. All decryption and parsing happens locally on your device.',
+  'app.footer.format': 'Supported Format:',
+  'app.footer.format.value': 'Standardized Madagascar v5 (9-field pipe-delimited)',
+  'app.footer.encryption': 'Encryption:',
+  'app.footer.encryption.value': 'Static Key XOR ({keys} loaded) + zlib compression',
+
+  // Shared words and count forms
+  'common.yes': 'Yes',
+  'common.no': 'No',
+  'common.none': 'None',
+  'common.notAvailable': 'N/A',
+  'common.unknown': 'Unknown',
+  'common.error': 'Error:',
+  'common.tryAgain': '🔄 Try Again',
+  'common.clear': 'Clear',
+  'common.tips': 'Tips:',
+  'count.day.one': '{count} day',
+  'count.day.other': '{count} days',
+  'count.byte.one': '{count} byte',
+  'count.byte.other': '{count} bytes',
+  'count.key.one': '{count} key',
+  'count.key.other': '{count} keys',
+
+  // Camera scanners
+  'camera.error': 'Camera Error:',
+  'camera.permissionDenied': 'Camera permission denied. Please allow camera access and refresh.',
+  'camera.notFound': 'No camera found on this device.',
+  'camera.notSupported': 'Camera not supported. Try using HTTPS or a different browser.',
+  'camera.insecure': 'Camera access not supported. Ensure you\'re using HTTPS.',
+  'camera.failed': 'Camera failed: {detail}',
+  'scanner.startCamera': '📹 Start Camera',
+  'scanner.stopCamera': '📷 Stop Camera',
+  'scanner.startScanning': '🔍 Start Scanning',
+  'scanner.stopScanning': '⏹ Stop Scanning',
+  'scanner.testDecoder': '🧪 Test Decoder',
+  'scanner.attempts': 'Scan attempts: {count}',
+  'scanner.raw.title': '📊 Raw Barcode Data Detected',
+  'scanner.raw.length': 'Length:',
+  'scanner.raw.hex': 'Data (hex):',
+  'scanner.status.starting': 'Starting camera...',
+  'scanner.status.stopped': 'Scanning stopped',
+  'scanner.status.detected': '✅ Barcode detected!',
+
+  'barcode.title': '📱 PDF417 Barcode Scanner',
+  'barcode.hint': 'Position the barcode within the viewfinder',
+  'barcode.status.ready': 'Camera ready - Position barcode in viewfinder',
+  'barcode.status.scanning': '🔍 Scanning for PDF417 barcode...',
+  'barcode.status.processing': '✅ Barcode detected! Processing...',
+  'barcode.fixes.title': '🔧 Quick Fixes:',
+  'barcode.fixes.lock': 'Click the 🔒 lock icon in your address bar',
+  'barcode.fixes.allow': 'Set Camera to "Allow"',
+  'barcode.fixes.refresh': 'Refresh this page',
+  'barcode.fixes.browser': 'Try in a different browser (Chrome/Safari recommended)',
+  'barcode.https.title': '⚠️ HTTPS Required:',
+  'barcode.https.body': 'Camera access requires a secure connection. Deploy to Vercel or test on',
+  'barcode.tips.lighting': 'Ensure good lighting',
+  'barcode.tips.steady': 'Hold device steady',
+  'barcode.tips.frame': 'Position barcode fully within the green frame',
+  'barcode.tips.distance': 'Keep about 6-12 inches from the barcode',
+  'barcode.tips.angles': 'Try different angles if not detecting',
+  'barcode.tips.log': 'Check the debug log above for scanning activity',
+
+  'alternative.title': '🔍 Alternative Barcode Scanner',
+  'alternative.hint': 'Multi-method approach for better detection',
+  'alternative.status.ready': 'Camera ready - Try with ANY barcode first',
+  'alternative.status.scanning': '🔍 Scanning with multiple methods...',
+  'alternative.quickTests': 'Quick Tests:',
+  'alternative.testQr': '📱 Test QR',
+  'alternative.tries.title': 'This scanner tries:',
+  'alternative.tries.zxing': '🔍 ZXing multi-format reader (QR, DataMatrix, PDF417)',
+  'alternative.tries.resolution': '📸 Higher resolution camera (1920x1080)',
+  'alternative.tries.capture': '🎯 Frame capture for analysis',
+  'alternative.tries.interval': '⚡ Faster scanning intervals',
+  'alternative.try.label': '💡 Try:',
+  'alternative.try.body': 'First test with a simple QR code to verify scanning works, then try your PDF417 barcode.',
+
+  'image.title': '📸 Image Barcode Scanner',
+  'image.hint': 'Upload a photo of your barcode to scan it',
+  'image.upload': '📁 Upload Barcode Image',
+  'image.clear': '🗑️ Clear Image',
+  'image.alt': 'Uploaded barcode',
+  'image.scan': '🔍 Scan Barcode',
+  'image.scanning': '🔍 Scanning...',
+  'image.error.title': 'Scan Error:',
+  'image.error.notImage': 'Please select an image file',
+  'image.error.noImage': 'No image to scan',
+  'image.error.noBarcode': 'No barcode detected in image',
+  'image.error.failed': 'Scan failed: {detail}',
+  'image.tips.visible': 'Ensure the barcode is clearly visible',
+  'image.tips.lighting': 'Good lighting and focus in the photo',
+  'image.tips.crop': 'Try cropping closer to just the barcode',
+  'image.tips.blur': 'Make sure the image isn\'t blurry',
+  'image.success': '✅ Barcode Scanned Successfully!',
+  'image.howTo.title': '📱 How to Use:',
+  'image.howTo.photo': 'Take a clear photo of your barcode with your phone',
+  'image.howTo.upload': 'Click "{button}" and select the photo',
+  'image.howTo.scan': 'Click "{button}" to process it',
+  'image.howTo.result': 'The decoded data will appear below',
+  'image.tip.label': '💡 Tip:',
+  'image.tip.body': 'This works with PDF417, QR codes, and most other barcode formats!',
+
+  // Diagnostics
+  'diag.title': '🔧 System Diagnostics',
+  'diag.hint': 'Debugging information for scanner issues',
+  'diag.browser.title': '🌐 Browser Information',
+  'diag.browser.protocol': 'Protocol:',
+  'diag.browser.userAgent': 'User Agent:',
+  'diag.browser.platform': 'Platform:',
+  'diag.browser.language': 'Language:',
+  'diag.browser.online': 'Online:',
+  'diag.browser.concurrency': 'Hardware Concurrency:',
+  'diag.camera.title': '📹 Camera Information',
+  'diag.camera.getUserMedia': 'getUserMedia Available:',
+  'diag.camera.totalDevices': 'Total Devices:',
+  'diag.camera.videoDevices': 'Video Devices:',
+  'diag.camera.cameras': 'Cameras:',
+  'diag.camera.unnamed': 'Unknown Camera',
+  'diag.libraries.title': '📚 Library Availability',
+  'diag.libraries.test': 'Test {name}',
+  'diag.libraries.available': '✅ {name}: Available',
+  'diag.libraries.failed': '❌ {name}: Failed to load',
+  'diag.debug.title': '🔍 Enhanced Decoder Debugging',
+  'diag.debug.hint': 'These tools help identify exactly where the decoding fails:',
+  'diag.debug.knownSample': '🧪 Test Known Working Sample',
+  'diag.debug.knownSample.success': '✅ Known sample test: SUCCESS! Decoder is working correctly.',
+  'diag.debug.knownSample.failed': '❌ Known sample test failed: {error}',
+  'diag.debug.knownSample.error': '❌ Known sample test error: {error}',
+  'diag.debug.stepByStep': '🔍 Step-by-Step Debug',
+  'diag.debug.noXor': '🔓 Test Without XOR',
+  'diag.debug.noXor.success': '✅ SUCCESS! Data is NOT XOR encrypted!\n\nYour barcode is just zlib compressed.',
+  'diag.debug.noXor.failed': '❌ Still failed without XOR: {error}',
+  'diag.debug.noXor.error': '❌ No-XOR test error: {error}',
+  'diag.debug.analyzeImage': '🔬 Analyze Image Data',
+  'diag.debug.analyzeImage.result': 'Image Analysis:\nText: {text}...\nLength: {length}\nSee console for full details',
+  'diag.debug.analyzeImage.error': 'Error analyzing image: {error}',
+  'diag.debug.userBase64': '🧪 Test User Base64',
+  'diag.debug.userBase64.result': 'Base64 Analysis Complete!\nBytes: {bytes}\nSegments: {segments}\nDimensions: {dimensions}\nStructurally complete: {structure}\nSee console and new tab for details',
+  'diag.debug.userBase64.error': 'Error analyzing base64: {error}',
+  'diag.samples.title': '🧪 Test Decoder with Sample Data',
+  'diag.samples.hint': 'Test the decoder with various data types to isolate scanner vs decoder issues:',
+  'diag.samples.test': 'Test',
+  'diag.samples.simpleText': 'Simple Text',
+  'diag.samples.simpleText.description': 'Basic text to test decoder flow',
+  'diag.samples.json': 'JSON Sample',
+  'diag.samples.json.description': 'JSON-like structure',
+  'diag.samples.hex': 'Sample Hex (Short)',
+  'diag.samples.hex.description': 'Hex encoded "Hello World"',
+  'diag.samples.compressed': 'Compressed Data Sample',
+  'diag.samples.compressed.description': 'Zlib compressed data sample',
+  'diag.samples.pdf417': 'PDF417 Sample',
+  'diag.samples.pdf417.description': 'Typical PDF417 barcode data',
+  'diag.troubleshooting.title': '💡 Troubleshooting Steps',
+  'diag.troubleshooting.https': 'Ensure you\'re using HTTPS (required for camera)',
+  'diag.troubleshooting.enhanced': 'Test the 🔍 Enhanced Scanner instead of PDF417-only',
+  'diag.troubleshooting.decoder': 'Try the decoder tests above to verify decoding works',
+  'diag.troubleshooting.qr': 'Test with a simple QR code first',
+  'diag.troubleshooting.console': 'Check browser console for detailed error messages',
+  'diag.troubleshooting.browser': 'Try a different browser (Chrome/Safari recommended)',
+
+  // Key management, test barcodes and decode traces
+  'keys.title': '🔑 Encryption Keys',
+  'keys.hint': 'The decoder tries each key and uses the one that yields a valid zlib stream',
+  'keys.keyring': 'Keyring ({keys})',
+  'keys.noLabel': 'No label',
+  'keys.bundled': '(bundled)',
+  'keys.remove': '🗑️ Remove',
+  'keys.removed': '🗑️ Key \'{id}\' removed',
+  'keys.add.title': '➕ Add Key',
+  'keys.add.id': 'Key ID (e.g. mg-pilot-2024)',
+  'keys.add.key': 'Key',
+  'keys.add.label': 'Label (optional)',
+  'keys.add.button': '➕ Add Key',
+  'keys.added': '✅ Key \'{id}\' added',
+  'keys.import.title': '📥 Import Keyring',
+  'keys.import.button': '📥 Import',
+  'keys.imported': '✅ Keyring imported',
+  'keys.imported.skipped': '⚠️ Keyring imported, but these keys were skipped because their ID is already in use: {ids}',
+  'keys.failed': '❌ The keyring was not changed: {detail}',
+  'generator.title': '🖨️ Test Barcode Generator',
+  'generator.hint': 'Encode license data into a printable PDF417 barcode',
+  'generator.generate': '🖨️ Generate Barcode',
+  'generator.decode': '🔍 Decode It',
+  'generator.download': '📥 Download PNG',
+  'generator.failed': '❌ The barcode could not be generated: {detail}',
+  'generator.summary': '{size} · key {key}',
+  'trace.succeeded': '✅ Decode succeeded',
+  'trace.failed': '❌ Decode failed',
+  'trace.summary': 'in {duration} ms ({steps} steps)',
+  'trace.stage': 'Stage',
+  'trace.step': 'Step',
+  'trace.method': 'Method',
+  'trace.lengths': 'In → Out',
+  'trace.time': 'Time',
+  'trace.preview': 'Preview',
+  'trace.input': 'in: {preview}',
+  'trace.output': 'out: {preview}',
+  'trace.error': 'error: {error}',
+
+  // Decode results
+  'results.success.title': '✅ License Decoded Successfully',
+  'results.success.message': 'Madagascar license decoded successfully: {license}',
+  'results.failure.title': '❌ Decoding Failed',
+  'results.failure.stage': 'stage: {stage}',
+  'results.failure.offset': 'byte offset {offset}',
+  'results.failure.remedy': 'What to do:',
+  'results.partial.title': '🧩 Partially Decoded',
+  'results.confidence.medium.title': '⚠️ Medium Confidence Decode',
+  'results.confidence.low.title': '⚠️ Low Confidence Decode',
+  'results.confidence.body': 'This result did not come from a clean decode. Verify the details against the physical card.',
+  'results.confidence.high': 'high',
+  'results.confidence.medium': 'medium',
+  'results.confidence.low': 'low',
+  'results.validation.warnings': '⚠️ Validation Warnings',
+  'results.validation.errors': '❌ Validation Errors',
+  'results.validation.error': 'Error:',
+  'results.validation.warning': 'Warning:',
+  'results.personal.title': '👤 Personal Information',
+  'results.field.name': 'Name:',
+  'results.field.initials': 'Initials:',
+  'results.field.surname': 'Surname:',
+  'results.field.idNumber': 'ID Number:',
+  'results.field.sex': 'Sex:',
+  'results.field.dateOfBirth': 'Date of Birth:',
+  'results.license.title': '🪪 License Information',
+  'results.field.licenseNumber': 'License Number:',
+  'results.field.licenseCodes': 'License Codes:',
+  'results.field.validFrom': 'Valid From:',
+  'results.field.validTo': 'Valid Until:',
+  'results.field.vehicleRestrictions': 'Vehicle Restrictions:',
+  'results.field.driverRestrictions': 'Driver Restrictions:',
+  'results.technical.title': '🔧 Technical Information',
+  'results.field.formatVersion': 'Format Version:',
+  'results.field.formatParser': 'Format Parser:',
+  'results.field.codeCatalog': 'Code Catalog:',
+  'results.field.country': 'Country:',
+  'results.field.decodingFormat': 'Decoding Format:',
+  'results.field.decodeMode': 'Decode Mode:',
+  'results.field.decodeMethod': 'Decode Method:',
+  'results.field.decodeMethod.photo': 'photo: {method}',
+  'results.field.confidence': 'Confidence:',
+  'results.field.payloadSize': 'Payload Size:',
+  'results.field.keyId': 'Key ID:',
+  'results.security.title': '🔐 Security',
+  'results.field.encryption': 'Encryption:',
+  'results.field.encryption.value': 'Static Key XOR',
+  'results.field.compression': 'Compression:',
+  'results.field.compression.value': 'zlib level 9',
+  'results.field.dataFormat': 'Data Format:',
+  'results.field.dataFormat.value': '9-field pipe-delimited',
+  'results.field.signature': 'Signature:',
+  'results.field.signingKey': 'Signing Key:',
+  'results.photo.title': '📷 Embedded Photo',
+  'results.photo.format': 'Format: {format}',
+  'results.photo.size': 'Size: {size}',
+  'results.photo.dimensions': 'Dimensions: {width} × {height}',
+  'results.photo.structure': 'Structure: {state}',
+  'results.photo.structure.damaged': '❌ Damaged',
+  'results.photo.structure.cutOff': '⚠️ Cut off',
+  'results.photo.structure.intact': '✅ Intact',
+  'results.photo.renders': 'Renders: {state}',
+  'results.photo.renders.checking': '⏳ Checking...',
+  'results.photo.renders.yes': '✅ Yes',
+  'results.photo.renders.no': '❌ No',
+  'results.photo.repaired': 'Repaired: {repairs}',
+  'results.photo.none': 'No photo embedded',
+  'results.photo.error': '⚠️ The embedded photo could not be loaded ({code})',
+  'results.scanAnother': '🔍 Scan Another License',
+  'results.downloadJson': '📥 Download JSON',
+  'results.rawJson': '🔍 Raw Decoded Data (JSON)',
+  'results.recovery.title': '🩹 Recovered From Damaged Scan',
+  'results.recovery.recovered': 'Recovered:',
+  'results.recovery.intactFields': 'Intact Fields:',
+  'results.recovery.cutOffIn': 'Cut Off In:',
+  'results.recovery.missingFields': 'Missing Fields:',
+  'results.recovery.photo': 'Photo:',
+  'results.recovery.photo.complete': '✅ Complete',
+  'results.recovery.photo.truncated': '⚠️ Cut off',
+  'results.recovery.photo.missing': '❌ Missing',
+
+  // Validity banner
+  'validity.valid': '✅ VALID',
+  'validity.expired': '❌ EXPIRED',
+  'validity.not_yet_valid': '⏳ NOT YET VALID',
+  'validity.unknown': '❓ VALIDITY UNKNOWN',
+  'validity.expiresToday': 'Expires today ({date})',
+  'validity.expiresIn': 'Expires in {days} ({date})',
+  'validity.expiredAgo': 'Expired {days} ago ({date})',
+  'validity.validIn': 'Becomes valid in {days} ({date})',
+  'validity.unreadable': 'The validity dates could not be read',
+  'validity.holderAge': 'Holder age: {age}',
+  'validity.asOf': 'As of {date}',
+
+  // Issuer signature
+  'signature.authentic': '🔏 AUTHENTIC',
+  'signature.unsigned': '⚠️ UNSIGNED',
+  'signature.invalid': '🚫 SIGNATURE INVALID',
+  'signature.unverified': '❔ SIGNATURE NOT VERIFIED',
+  'signature.authentic.detail': 'Signed by {issuer}',
+  'signature.unsigned.detail': 'No issuer signature - anyone with the encryption key could have made this barcode. Check the card itself.',
+  'signature.invalid.detail': 'Do not trust this barcode - its data or signature was altered after the issuer signed it.',
+  'signature.unverified.detail': 'The signature could not be checked on this device.',
+  'signature.unknown_issuer': '❓ UNKNOWN ISSUER',
+  'signature.unknown_issuer.detail': 'Signed with key {key}, which is not in this app\'s trust store, so the signature cannot be checked. Update the app\'s issuer keys.',
+  'signature.problem.malformed_block': 'The signature block in the barcode is damaged or malformed.',
+  'signature.problem.wrong_length': 'The signature has the wrong length for the issuer\'s key.',
+  'signature.problem.mismatch': 'The signature does not match the license data and photo.',
+  'signature.problem.check_failed': 'The signature check failed.',
+  'signature.problem.no_webcrypto': 'This browser does not support WebCrypto.',
+  'signature.problem.key_unusable': 'This browser cannot use the issuer\'s {algorithm} key.',
+
+  // Decoder findings, translated by code (the decoder's own messages are English only)
+  'validation.NAME_MISSING': 'Name is empty',
+  'validation.NAME_CHARACTERS': 'Name has characters other than letters, spaces, hyphens and apostrophes: \'{value}\'',
+  'validation.ID_NUMBER_FORMAT': 'ID number must be 12 digits, got \'{value}\'',
+  'validation.LICENSE_NUMBER_FORMAT': 'License number must be 13 characters (A-Z, 0-9), got \'{value}\'',
+  'validation.CHECK_DIGIT': 'Check digit ({validator}) does not match',
+  'validation.SEX_INVALID': 'Sex must be M or F, got \'{value}\'',
+  'validation.DATE_MISSING': '{field} is empty',
+  'validation.DATE_FORMAT': '{field} must be a valid YYYYMMDD date, got \'{value}\'',
+  'validation.date.date_of_birth': 'Date of birth',
+  'validation.date.valid_from': 'Valid from',
+  'validation.date.valid_to': 'Valid until',
+  'validation.VALIDITY_RANGE': 'Valid until ({validTo}) must be after valid from ({validFrom})',
+  'validation.DOB_IN_FUTURE': 'Date of birth {value} is in the future',
+  'validation.DOB_IMPLAUSIBLE': 'Holder would be over {age} years old',
+  'validation.UNDERAGE_AT_ISSUE': 'Holder was under {age} when the license became valid',
+  'validation.NO_LICENSE_CODES': 'No license category codes',
+  'validation.UNKNOWN_CATEGORY_CODE': 'Category code \'{code}\' is not in code catalog {catalog}',
+  'validation.UNDERAGE_FOR_CATEGORY': 'Holder was under {age}, the minimum age for category {code}, when the license became valid',
+  'validation.UNKNOWN_RESTRICTION_CODE': 'Restriction code \'{code}\' is not in code catalog {catalog}',
+  'confidence.SCRAPED_TEXT': 'License text was scraped from data that did not decompress - fields may be made up',
+  'confidence.FIELDS_CUT_OFF': 'Payload was cut off - incomplete fields: {fields}',
+  'confidence.PHOTO_CUT_OFF': 'Payload was cut off after the license fields (photo: {photo})',
+  'confidence.LOOSE_PARSE': 'Fields did not fully match the format; missing fields were left empty',
+  'confidence.PHOTO_RECONSTRUCTED': 'Photo was reconstructed from pipe-separated data',
+  'confidence.PHOTO_REPAIRED': 'Photo was repaired: {repairs}',
+  'confidence.PHOTO_DAMAGED': 'The photo could not be loaded ({error})',
+  'photoRepair.DROPPED_LEADING_BYTES': 'dropped {bytes} bytes before the start of the image',
+  'photoRepair.ADDED_END_MARKER': 'added the missing end marker (the photo is cut off)',
+  'photoRepair.REBUILT_FROM_PIPES': 'rebuilt the JPEG from pipe-separated data',
+
+  // License codes
+  'codes.unknown': 'unknown code',
+  'codes.limit.weightRange': '{min}-{max} kg',
+  'codes.limit.maxWeight': 'up to {max} kg',
+  'codes.limit.minWeight': 'over {min} kg',
+  'codes.limit.maxSeats': 'up to {seats} passenger seats',
+  'codes.limit.minimumAge': 'minimum age {age}',
+
+  // Photo viewer
+  'photo.error': '❌ The photo data could not be drawn: {error}',
+  'photo.decoding': '⏳ Decoding photo...',
+  'photo.size': '{width} × {height} px, shown at {scale}×',
+  'photo.zoom': 'Zoom',
+  'photo.contrast': 'Contrast',
+  'photo.brightness': 'Brightness',
+  'photo.equalize': 'Equalize histogram',
+  'photo.smooth': 'Smooth upscaling',
+  'photo.compare': '⛶ Compare Full Screen',
+  'photo.export': '💾 Export PNG',
+  'photo.reset': '↺ Reset',
+  'photo.original': 'Original',
+  'photo.enhanced': 'Enhanced',
+  'photo.closeHint': 'Tap anywhere or press Esc to close',
+
+  // What went wrong, by decode error code (the decoder's error text is English only)
+  'decodeError.EMPTY_PAYLOAD': 'No data was read from the barcode.',
+  'decodeError.INPUT_TOO_LARGE': 'The scanned data is too large to be a license barcode.',
+  'decodeError.INVALID_HEX': 'The entered data is not valid hex.',
+  'decodeError.KEY_MISMATCH': 'None of the encryption keys decrypts this barcode.',
+  'decodeError.ZLIB_CORRUPT': 'The compressed license data is damaged.',
+  'decodeError.TRUNCATED_PAYLOAD': 'The barcode data is cut off.',
+  'decodeError.INFLATE_LIMIT': 'The barcode decompresses to more data than a license can hold.',
+  'decodeError.TIME_BUDGET': 'Recovering the damaged scan took too long.',
+  'decodeError.FIELD_COUNT': 'The license data has the wrong number of fields.',
+  'decodeError.UNKNOWN_FORMAT': 'The license data is in a format this app does not know.',
+  'decodeError.UNRELIABLE_RECOVERY': 'The license fields recovered from the damaged scan are not reliable.',
+  'decodeError.IMAGE_CORRUPT': 'The embedded photo is damaged.',
+  'decodeError.IMAGE_TOO_LARGE': 'The embedded photo is too large.',
+  'decodeError.UNKNOWN': 'The barcode could not be decoded.',
+
+  // What to do about each decode error code (mirrors the decoder's remediation text)
+  'remediation.EMPTY_PAYLOAD': 'No data was read from the barcode. Rescan it.',
+  'remediation.INPUT_TOO_LARGE': 'The scanned data is far larger than a license barcode can hold. Check that the right barcode or file was scanned.',
+  'remediation.INVALID_HEX': 'Check the pasted data: hex input may only contain 0-9 and A-F, with an even number of characters.',
+  'remediation.KEY_MISMATCH': 'None of the keyring keys decrypts this barcode. Import the issuer\'s key under Manage Keys, or check that this is a Madagascar license barcode.',
+  'remediation.ZLIB_CORRUPT': 'The compressed data is damaged. Rescan with better lighting and focus; if it keeps failing, the barcode on the card may be damaged.',
+  'remediation.TRUNCATED_PAYLOAD': 'The barcode data ends early. Make sure the whole barcode is inside the viewfinder and rescan.',
+  'remediation.INFLATE_LIMIT': 'The barcode decompresses to far more data than a license holds and was rejected as unsafe. Do not trust this card.',
+  'remediation.TIME_BUDGET': 'Recovering this damaged scan took too long and was stopped. Rescan the barcode, or switch off lenient decoding.',
+  'remediation.FIELD_COUNT': 'The license data does not have the expected fields. The card may use a format version this app does not support.',
+  'remediation.UNKNOWN_FORMAT': 'No format parser recognises this license data. The card may use a newer format version.',
+  'remediation.UNRELIABLE_RECOVERY': 'The scan could only be partly recovered and the recovered fields do not pass validation. Rescan the barcode - do not rely on the recovered fields.',
+  'remediation.IMAGE_CORRUPT': 'The embedded photo could not be read. The license fields are still usable - compare against the photo printed on the card.',
+  'remediation.IMAGE_TOO_LARGE': 'The embedded photo is larger than a license photo can be and was not loaded. The license fields are still usable - compare against the photo printed on the card.',
+  'remediation.UNKNOWN': 'Rescan the barcode. If the problem persists, run the diagnostics and check the browser console.'
+};
+
+export type MessageKey = keyof typeof en;
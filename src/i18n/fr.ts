@@ -0,0 +1,430 @@
+import type { MessageKey } from './en';
+
+/**
+ * French UI messages
+ */
+export const fr: Record<MessageKey, string> = {
+  // App shell
+  'app.title': '🇲🇬 Lecteur de permis de Madagascar',
+  'app.subtitle': 'Décodeur hors ligne des codes-barres PDF417 des permis de conduire',
+  'app.language': 'Langue',
+  'app.decoding.title': '🔍 Décodage des données du permis...',
+  'app.decoding.body': 'Veuillez patienter pendant le déchiffrement et l’analyse du code-barres.',
+  'app.cancel': '✖️ Annuler',
+  'app.scannerOptions': '📱 Options du lecteur',
+  'app.scanner.original': '📄 PDF417 d’origine',
+  'app.scanner.alternative': '🔍 Lecteur amélioré',
+  'app.scanner.image': '📸 Import d’image',
+  'app.scanner.original.hint': 'Lecteur PDF417 ZXing (peut poser problème)',
+  'app.scanner.alternative.hint': 'Lecteur multi-format amélioré (recommandé)',
+  'app.scanner.image.hint': 'Importer et lire des images de codes-barres (idéal pour les tests)',
+  'app.lenient': 'Décodage tolérant (tenter de récupérer les lectures endommagées)',
+  'app.asOf': 'Vérifier la validité au',
+  'app.asOf.today': 'Aujourd’hui',
+  'app.otherInput': 'Autres modes de saisie',
+  'app.otherInput.manual': '⌨️ Saisir les données hexadécimales',
+  'app.otherInput.diagnostics': '🔧 Lancer le diagnostic',
+  'app.otherInput.keys': '🔑 Gérer les clés',
+  'app.backToScanner': '📷 Retour au lecteur',
+  'app.manual.title': '⌨️ Saisie hexadécimale manuelle',
+  'app.manual.hint': 'Collez ci-dessous les données du code-barres encodées en hexadécimal',
+  'app.manual.label': 'Données hexadécimales :',
+  'app.manual.decode': '🔍 Décoder les données',
+  'app.footer.title': '🔐 Informations de sécurité',
+  'app.footer.privacy': 'Cette application traite les données uniquement dans votre navigateur - rien n’est envoyé à un serveur. Le déchiffrement et l’analyse se font localement sur votre appareil.',
+  'app.footer.format': 'Format pris en charge :',
+  'app.footer.format.value': 'Madagascar v5 normalisé (9 champs séparés par des barres verticales)',
+  'app.footer.encryption': 'Chiffrement :',
+  'app.footer.encryption.value': 'XOR à clé statique ({keys} chargées) + compression zlib',
+
+  // Shared words and count forms
+  'common.yes': 'Oui',
+  'common.no': 'Non',
+  'common.none': 'Aucune',
+  'common.notAvailable': 'N/D',
+  'common.unknown': 'Inconnu',
+  'common.error': 'Erreur :',
+  'common.tryAgain': '🔄 Réessayer',
+  'common.clear': 'Effacer',
+  'common.tips': 'Conseils :',
+  'count.day.one': '{count} jour',
+  'count.day.other': '{count} jours',
+  'count.byte.one': '{count} octet',
+  'count.byte.other': '{count} octets',
+  'count.key.one': '{count} clé',
+  'count.key.other': '{count} clés',
+
+  // Camera scanners
+  'camera.error': 'Erreur de caméra :',
+  'camera.permissionDenied': 'Accès à la caméra refusé. Autorisez l’accès à la caméra puis actualisez la page.',
+  'camera.notFound': 'Aucune caméra trouvée sur cet appareil.',
+  'camera.notSupported': 'Caméra non prise en charge. Utilisez HTTPS ou un autre navigateur.',
+  'camera.insecure': 'Accès à la caméra non pris en charge. Vérifiez que vous utilisez HTTPS.',
+  'camera.failed': 'Échec de la caméra : {detail}',
+  'scanner.startCamera': '📹 Démarrer la caméra',
+  'scanner.stopCamera': '📷 Arrêter la caméra',
+  'scanner.startScanning': '🔍 Lancer la lecture',
+  'scanner.stopScanning': '⏹ Arrêter la lecture',
+  'scanner.testDecoder': '🧪 Tester le décodeur',
+  'scanner.attempts': 'Tentatives de lecture : {count}',
+  'scanner.raw.title': '📊 Données brutes du code-barres détectées',
+  'scanner.raw.length': 'Longueur :',
+  'scanner.raw.hex': 'Données (hexadécimal) :',
+  'scanner.status.starting': 'Démarrage de la caméra...',
+  'scanner.status.stopped': 'Lecture arrêtée',
+  'scanner.status.detected': '✅ Code-barres détecté !',
+
+  'barcode.title': '📱 Lecteur de code-barres PDF417',
+  'barcode.hint': 'Placez le code-barres dans le viseur',
+  'barcode.status.ready': 'Caméra prête - placez le code-barres dans le viseur',
+  'barcode.status.scanning': '🔍 Recherche d’un code-barres PDF417...',
+  'barcode.status.processing': '✅ Code-barres détecté ! Traitement...',
+  'barcode.fixes.title': '🔧 Solutions rapides :',
+  'barcode.fixes.lock': 'Cliquez sur l’icône 🔒 dans la barre d’adresse',
+  'barcode.fixes.allow': 'Réglez la caméra sur « Autoriser »',
+  'barcode.fixes.refresh': 'Actualisez cette page',
+  'barcode.fixes.browser': 'Essayez un autre navigateur (Chrome/Safari recommandés)',
+  'barcode.https.title': '⚠️ HTTPS requis :',
+  'barcode.https.body': 'L’accès à la caméra nécessite une connexion sécurisée. Déployez sur Vercel ou testez sur',
+  'barcode.tips.lighting': 'Assurez un bon éclairage',
+  'barcode.tips.steady': 'Tenez l’appareil immobile',
+  'barcode.tips.frame': 'Placez tout le code-barres dans le cadre vert',
+  'barcode.tips.distance': 'Restez à environ 15-30 cm du code-barres',
+  'barcode.tips.angles': 'Essayez d’autres angles si rien n’est détecté',
+  'barcode.tips.log': 'Consultez le journal de débogage ci-dessus pour suivre la lecture',
+
+  'alternative.title': '🔍 Lecteur de code-barres alternatif',
+  'alternative.hint': 'Plusieurs méthodes pour une meilleure détection',
+  'alternative.status.ready': 'Caméra prête - essayez d’abord avec N’IMPORTE QUEL code-barres',
+  'alternative.status.scanning': '🔍 Lecture avec plusieurs méthodes...',
+  'alternative.quickTests': 'Tests rapides :',
+  'alternative.testQr': '📱 Tester un QR',
+  'alternative.tries.title': 'Ce lecteur essaie :',
+  'alternative.tries.zxing': '🔍 Le lecteur multi-format ZXing (QR, DataMatrix, PDF417)',
+  'alternative.tries.resolution': '📸 Une caméra en plus haute résolution (1920x1080)',
+  'alternative.tries.capture': '🎯 La capture d’images pour analyse',
+  'alternative.tries.interval': '⚡ Des intervalles de lecture plus courts',
+  'alternative.try.label': '💡 Essayez :',
+  'alternative.try.body': 'Testez d’abord avec un simple QR code pour vérifier que la lecture fonctionne, puis essayez votre code-barres PDF417.',
+
+  'image.title': '📸 Lecteur de code-barres sur image',
+  'image.hint': 'Importez une photo de votre code-barres pour le lire',
+  'image.upload': '📁 Importer une image du code-barres',
+  'image.clear': '🗑️ Effacer l’image',
+  'image.alt': 'Code-barres importé',
+  'image.scan': '🔍 Lire le code-barres',
+  'image.scanning': '🔍 Lecture...',
+  'image.error.title': 'Erreur de lecture :',
+  'image.error.notImage': 'Veuillez sélectionner un fichier image',
+  'image.error.noImage': 'Aucune image à lire',
+  'image.error.noBarcode': 'Aucun code-barres détecté dans l’image',
+  'image.error.failed': 'Échec de la lecture : {detail}',
+  'image.tips.visible': 'Vérifiez que le code-barres est bien visible',
+  'image.tips.lighting': 'Photo bien éclairée et nette',
+  'image.tips.crop': 'Recadrez au plus près du code-barres',
+  'image.tips.blur': 'Vérifiez que l’image n’est pas floue',
+  'image.success': '✅ Code-barres lu avec succès !',
+  'image.howTo.title': '📱 Mode d’emploi :',
+  'image.howTo.photo': 'Prenez une photo nette du code-barres avec votre téléphone',
+  'image.howTo.upload': 'Cliquez sur « {button} » et choisissez la photo',
+  'image.howTo.scan': 'Cliquez sur « {button} » pour la traiter',
+  'image.howTo.result': 'Les données décodées s’afficheront ci-dessous',
+  'image.tip.label': '💡 Astuce :',
+  'image.tip.body': 'Fonctionne avec le PDF417, les QR codes et la plupart des autres formats de code-barres !',
+
+  // Diagnostics
+  'diag.title': '🔧 Diagnostic du système',
+  'diag.hint': 'Informations de débogage pour les problèmes de lecture',
+  'diag.browser.title': '🌐 Informations sur le navigateur',
+  'diag.browser.protocol': 'Protocole :',
+  'diag.browser.userAgent': 'Agent utilisateur :',
+  'diag.browser.platform': 'Plateforme :',
+  'diag.browser.language': 'Langue :',
+  'diag.browser.online': 'En ligne :',
+  'diag.browser.concurrency': 'Cœurs du processeur :',
+  'diag.camera.title': '📹 Informations sur la caméra',
+  'diag.camera.getUserMedia': 'getUserMedia disponible :',
+  'diag.camera.totalDevices': 'Nombre de périphériques :',
+  'diag.camera.videoDevices': 'Périphériques vidéo :',
+  'diag.camera.cameras': 'Caméras :',
+  'diag.camera.unnamed': 'Caméra inconnue',
+  'diag.libraries.title': '📚 Disponibilité des bibliothèques',
+  'diag.libraries.test': 'Tester {name}',
+  'diag.libraries.available': '✅ {name} : disponible',
+  'diag.libraries.failed': '❌ {name} : échec du chargement',
+  'diag.debug.title': '🔍 Débogage avancé du décodeur',
+  'diag.debug.hint': 'Ces outils aident à identifier précisément où le décodage échoue :',
+  'diag.debug.knownSample': '🧪 Tester un échantillon connu',
+  'diag.debug.knownSample.success': '✅ Test de l’échantillon connu : RÉUSSI ! Le décodeur fonctionne correctement.',
+  'diag.debug.knownSample.failed': '❌ Échec du test de l’échantillon connu : {error}',
+  'diag.debug.knownSample.error': '❌ Erreur du test de l’échantillon connu : {error}',
+  'diag.debug.stepByStep': '🔍 Débogage pas à pas',
+  'diag.debug.noXor': '🔓 Tester sans XOR',
+  'diag.debug.noXor.success': '✅ RÉUSSI ! Les données ne sont PAS chiffrées en XOR !\n\nVotre code-barres est seulement compressé avec zlib.',
+  'diag.debug.noXor.failed': '❌ Échec même sans XOR : {error}',
+  'diag.debug.noXor.error': '❌ Erreur du test sans XOR : {error}',
+  'diag.debug.analyzeImage': '🔬 Analyser les données d’image',
+  'diag.debug.analyzeImage.result': 'Analyse de l’image :\nTexte : {text}...\nLongueur : {length}\nVoir la console pour le détail',
+  'diag.debug.analyzeImage.error': 'Erreur lors de l’analyse de l’image : {error}',
+  'diag.debug.userBase64': '🧪 Tester le base64 utilisateur',
+  'diag.debug.userBase64.result': 'Analyse base64 terminée !\nOctets : {bytes}\nSegments : {segments}\nDimensions : {dimensions}\nStructure complète : {structure}\nVoir la console et le nouvel onglet pour le détail',
+  'diag.debug.userBase64.error': 'Erreur lors de l’analyse du base64 : {error}',
+  'diag.samples.title': '🧪 Tester le décodeur avec des exemples',
+  'diag.samples.hint': 'Testez le décodeur avec différents types de données pour distinguer les problèmes du lecteur de ceux du décodeur :',
+  'diag.samples.test': 'Tester',
+  'diag.samples.simpleText': 'Texte simple',
+  'diag.samples.simpleText.description': 'Texte basique pour tester le décodeur',
+  'diag.samples.json': 'Exemple JSON',
+  'diag.samples.json.description': 'Structure de type JSON',
+  'diag.samples.hex': 'Exemple hexadécimal (court)',
+  'diag.samples.hex.description': '« Hello World » encodé en hexadécimal',
+  'diag.samples.compressed': 'Exemple de données compressées',
+  'diag.samples.compressed.description': 'Données compressées avec zlib',
+  'diag.samples.pdf417': 'Exemple PDF417',
+  'diag.samples.pdf417.description': 'Données typiques d’un code-barres PDF417',
+  'diag.troubleshooting.title': '💡 Étapes de dépannage',
+  'diag.troubleshooting.https': 'Vérifiez que vous utilisez HTTPS (requis pour la caméra)',
+  'diag.troubleshooting.enhanced': 'Essayez le 🔍 Lecteur amélioré plutôt que le PDF417 seul',
+  'diag.troubleshooting.decoder': 'Lancez les tests du décodeur ci-dessus pour vérifier qu’il fonctionne',
+  'diag.troubleshooting.qr': 'Testez d’abord avec un simple QR code',
+  'diag.troubleshooting.console': 'Consultez la console du navigateur pour le détail des erreurs',
+  'diag.troubleshooting.browser': 'Essayez un autre navigateur (Chrome/Safari recommandés)',
+
+  // Key management, test barcodes and decode traces
+  'keys.title': '🔑 Clés de chiffrement',
+  'keys.hint': 'Le décodeur essaie chaque clé et retient celle qui donne un flux zlib valide',
+  'keys.keyring': 'Trousseau ({keys})',
+  'keys.noLabel': 'Sans libellé',
+  'keys.bundled': '(intégrée)',
+  'keys.remove': '🗑️ Supprimer',
+  'keys.removed': '🗑️ Clé « {id} » supprimée',
+  'keys.add.title': '➕ Ajouter une clé',
+  'keys.add.id': 'Identifiant de clé (ex. mg-pilot-2024)',
+  'keys.add.key': 'Clé',
+  'keys.add.label': 'Libellé (facultatif)',
+  'keys.add.button': '➕ Ajouter la clé',
+  'keys.added': '✅ Clé « {id} » ajoutée',
+  'keys.import.title': '📥 Importer un trousseau',
+  'keys.import.button': '📥 Importer',
+  'keys.imported': '✅ Trousseau importé',
+  'keys.imported.skipped': '⚠️ Trousseau importé, mais ces clés ont été ignorées car leur identifiant est déjà utilisé : {ids}',
+  'keys.failed': '❌ Le trousseau n’a pas été modifié : {detail}',
+  'generator.title': '🖨️ Générateur de code-barres de test',
+  'generator.hint': 'Encodez des données de permis dans un code-barres PDF417 imprimable',
+  'generator.generate': '🖨️ Générer le code-barres',
+  'generator.decode': '🔍 Le décoder',
+  'generator.download': '📥 Télécharger le PNG',
+  'generator.failed': '❌ Le code-barres n’a pas pu être généré : {detail}',
+  'generator.summary': '{size} · clé {key}',
+  'trace.succeeded': '✅ Décodage réussi',
+  'trace.failed': '❌ Échec du décodage',
+  'trace.summary': 'en {duration} ms ({steps} étapes)',
+  'trace.stage': 'Phase',
+  'trace.step': 'Étape',
+  'trace.method': 'Méthode',
+  'trace.lengths': 'Entrée → Sortie',
+  'trace.time': 'Durée',
+  'trace.preview': 'Aperçu',
+  'trace.input': 'entrée : {preview}',
+  'trace.output': 'sortie : {preview}',
+  'trace.error': 'erreur : {error}',
+
+  // Decode results
+  'results.success.title': '✅ Permis décodé avec succès',
+  'results.success.message': 'Permis de Madagascar décodé avec succès : {license}',
+  'results.failure.title': '❌ Échec du décodage',
+  'results.failure.stage': 'étape : {stage}',
+  'results.failure.offset': 'position {offset}',
+  'results.failure.remedy': 'Que faire :',
+  'results.partial.title': '🧩 Décodage partiel',
+  'results.confidence.medium.title': '⚠️ Décodage de confiance moyenne',
+  'results.confidence.low.title': '⚠️ Décodage de faible confiance',
+  'results.confidence.body': 'Ce résultat ne provient pas d’un décodage sans erreur. Vérifiez les informations sur la carte physique.',
+  'results.confidence.high': 'élevée',
+  'results.confidence.medium': 'moyenne',
+  'results.confidence.low': 'faible',
+  'results.validation.warnings': '⚠️ Avertissements de validation',
+  'results.validation.errors': '❌ Erreurs de validation',
+  'results.validation.error': 'Erreur :',
+  'results.validation.warning': 'Avertissement :',
+  'results.personal.title': '👤 Informations personnelles',
+  'results.field.name': 'Nom :',
+  'results.field.initials': 'Initiales :',
+  'results.field.surname': 'Nom de famille :',
+  'results.field.idNumber': 'N° d’identité :',
+  'results.field.sex': 'Sexe :',
+  'results.field.dateOfBirth': 'Date de naissance :',
+  'results.license.title': '🪪 Informations du permis',
+  'results.field.licenseNumber': 'N° de permis :',
+  'results.field.licenseCodes': 'Catégories :',
+  'results.field.validFrom': 'Valide du :',
+  'results.field.validTo': 'Valide jusqu’au :',
+  'results.field.vehicleRestrictions': 'Restrictions véhicule :',
+  'results.field.driverRestrictions': 'Restrictions conducteur :',
+  'results.technical.title': '🔧 Informations techniques',
+  'results.field.formatVersion': 'Version du format :',
+  'results.field.formatParser': 'Analyseur de format :',
+  'results.field.codeCatalog': 'Catalogue des codes :',
+  'results.field.country': 'Pays :',
+  'results.field.decodingFormat': 'Format de décodage :',
+  'results.field.decodeMode': 'Mode de décodage :',
+  'results.field.decodeMethod': 'Méthode de décodage :',
+  'results.field.decodeMethod.photo': 'photo : {method}',
+  'results.field.confidence': 'Confiance :',
+  'results.field.payloadSize': 'Taille des données :',
+  'results.field.keyId': 'ID de clé :',
+  'results.security.title': '🔐 Sécurité',
+  'results.field.encryption': 'Chiffrement :',
+  'results.field.encryption.value': 'XOR à clé statique',
+  'results.field.compression': 'Compression :',
+  'results.field.compression.value': 'zlib niveau 9',
+  'results.field.dataFormat': 'Format des données :',
+  'results.field.dataFormat.value': '9 champs séparés par des barres verticales',
+  'results.field.signature': 'Signature :',
+  'results.field.signingKey': 'Clé de signature :',
+  'results.photo.title': '📷 Photo intégrée',
+  'results.photo.format': 'Format : {format}',
+  'results.photo.size': 'Taille : {size}',
+  'results.photo.dimensions': 'Dimensions : {width} × {height}',
+  'results.photo.structure': 'Structure : {state}',
+  'results.photo.structure.damaged': '❌ Endommagée',
+  'results.photo.structure.cutOff': '⚠️ Tronquée',
+  'results.photo.structure.intact': '✅ Intacte',
+  'results.photo.renders': 'Affichage : {state}',
+  'results.photo.renders.checking': '⏳ Vérification...',
+  'results.photo.renders.yes': '✅ Oui',
+  'results.photo.renders.no': '❌ Non',
+  'results.photo.repaired': 'Réparée : {repairs}',
+  'results.photo.none': 'Aucune photo intégrée',
+  'results.photo.error': '⚠️ La photo intégrée n’a pas pu être chargée ({code})',
+  'results.scanAnother': '🔍 Lire un autre permis',
+  'results.downloadJson': '📥 Télécharger le JSON',
+  'results.rawJson': '🔍 Données décodées brutes (JSON)',
+  'results.recovery.title': '🩹 Récupéré d’une lecture endommagée',
+  'results.recovery.recovered': 'Récupéré :',
+  'results.recovery.intactFields': 'Champs intacts :',
+  'results.recovery.cutOffIn': 'Coupé dans :',
+  'results.recovery.missingFields': 'Champs manquants :',
+  'results.recovery.photo': 'Photo :',
+  'results.recovery.photo.complete': '✅ Complète',
+  'results.recovery.photo.truncated': '⚠️ Tronquée',
+  'results.recovery.photo.missing': '❌ Manquante',
+
+  // Validity banner
+  'validity.valid': '✅ VALIDE',
+  'validity.expired': '❌ EXPIRÉ',
+  'validity.not_yet_valid': '⏳ PAS ENCORE VALIDE',
+  'validity.unknown': '❓ VALIDITÉ INCONNUE',
+  'validity.expiresToday': 'Expire aujourd’hui ({date})',
+  'validity.expiresIn': 'Expire dans {days} ({date})',
+  'validity.expiredAgo': 'Expiré depuis {days} ({date})',
+  'validity.validIn': 'Valide dans {days} ({date})',
+  'validity.unreadable': 'Les dates de validité n’ont pas pu être lues',
+  'validity.holderAge': 'Âge du titulaire : {age} ans',
+  'validity.asOf': 'Au {date}',
+
+  // Issuer signature
+  'signature.authentic': '🔏 AUTHENTIQUE',
+  'signature.unsigned': '⚠️ NON SIGNÉ',
+  'signature.invalid': '🚫 SIGNATURE INVALIDE',
+  'signature.unverified': '❔ SIGNATURE NON VÉRIFIÉE',
+  'signature.authentic.detail': 'Signé par {issuer}',
+  'signature.unsigned.detail': 'Aucune signature de l’émetteur - toute personne possédant la clé de chiffrement a pu créer ce code-barres. Vérifiez le permis lui-même.',
+  'signature.invalid.detail': 'Ne vous fiez pas à ce code-barres - ses données ou sa signature ont été modifiées après la signature de l’émetteur.',
+  'signature.unverified.detail': 'La signature n’a pas pu être vérifiée sur cet appareil.',
+  'signature.unknown_issuer': '❓ ÉMETTEUR INCONNU',
+  'signature.unknown_issuer.detail': 'Signé avec la clé {key}, absente du magasin de confiance de l’application : la signature ne peut pas être vérifiée. Mettez à jour les clés d’émetteur de l’application.',
+  'signature.problem.malformed_block': 'Le bloc de signature du code-barres est endommagé ou mal formé.',
+  'signature.problem.wrong_length': 'La signature n’a pas la bonne longueur pour la clé de l’émetteur.',
+  'signature.problem.mismatch': 'La signature ne correspond pas aux données du permis et à la photo.',
+  'signature.problem.check_failed': 'La vérification de la signature a échoué.',
+  'signature.problem.no_webcrypto': 'Ce navigateur ne prend pas en charge WebCrypto.',
+  'signature.problem.key_unusable': 'Ce navigateur ne peut pas utiliser la clé {algorithm} de l’émetteur.',
+
+  // Decoder findings, translated by code
+  'validation.NAME_MISSING': 'Le nom est vide',
+  'validation.NAME_CHARACTERS': 'Le nom contient d’autres caractères que des lettres, espaces, traits d’union et apostrophes : « {value} »',
+  'validation.ID_NUMBER_FORMAT': 'Le numéro d’identité doit comporter 12 chiffres, reçu « {value} »',
+  'validation.LICENSE_NUMBER_FORMAT': 'Le numéro de permis doit comporter 13 caractères (A-Z, 0-9), reçu « {value} »',
+  'validation.CHECK_DIGIT': 'La clé de contrôle ({validator}) ne correspond pas',
+  'validation.SEX_INVALID': 'Le sexe doit être M ou F, reçu « {value} »',
+  'validation.DATE_MISSING': '{field} : champ vide',
+  'validation.DATE_FORMAT': '{field} : date AAAAMMJJ invalide, reçu « {value} »',
+  'validation.date.date_of_birth': 'Date de naissance',
+  'validation.date.valid_from': 'Valable du',
+  'validation.date.valid_to': 'Valable jusqu’au',
+  'validation.VALIDITY_RANGE': 'La fin de validité ({validTo}) doit être postérieure au début ({validFrom})',
+  'validation.DOB_IN_FUTURE': 'La date de naissance {value} est dans le futur',
+  'validation.DOB_IMPLAUSIBLE': 'Le titulaire aurait plus de {age} ans',
+  'validation.UNDERAGE_AT_ISSUE': 'Le titulaire avait moins de {age} ans au début de validité du permis',
+  'validation.NO_LICENSE_CODES': 'Aucune catégorie de permis',
+  'validation.UNKNOWN_CATEGORY_CODE': 'La catégorie « {code} » n’est pas dans le catalogue de codes {catalog}',
+  'validation.UNDERAGE_FOR_CATEGORY': 'Le titulaire avait moins de {age} ans, l’âge minimum pour la catégorie {code}, au début de validité du permis',
+  'validation.UNKNOWN_RESTRICTION_CODE': 'La restriction « {code} » n’est pas dans le catalogue de codes {catalog}',
+  'confidence.SCRAPED_TEXT': 'Le texte du permis a été extrait de données qui ne se décompressent pas - des champs peuvent être inventés',
+  'confidence.FIELDS_CUT_OFF': 'Les données sont coupées - champs incomplets : {fields}',
+  'confidence.PHOTO_CUT_OFF': 'Les données sont coupées après les champs du permis (photo : {photo})',
+  'confidence.LOOSE_PARSE': 'Les champs ne correspondent pas entièrement au format ; les champs manquants sont laissés vides',
+  'confidence.PHOTO_RECONSTRUCTED': 'La photo a été reconstruite à partir de données séparées par des barres verticales',
+  'confidence.PHOTO_REPAIRED': 'La photo a été réparée : {repairs}',
+  'confidence.PHOTO_DAMAGED': 'La photo n’a pas pu être chargée ({error})',
+  'photoRepair.DROPPED_LEADING_BYTES': '{bytes} octets supprimés avant le début de l’image',
+  'photoRepair.ADDED_END_MARKER': 'marqueur de fin manquant ajouté (la photo est coupée)',
+  'photoRepair.REBUILT_FROM_PIPES': 'JPEG reconstruit à partir de données séparées par des barres verticales',
+
+  // License codes
+  'codes.unknown': 'code inconnu',
+  'codes.limit.weightRange': '{min} à {max} kg',
+  'codes.limit.maxWeight': 'jusqu’à {max} kg',
+  'codes.limit.minWeight': 'plus de {min} kg',
+  'codes.limit.maxSeats': 'jusqu’à {seats} places passagers',
+  'codes.limit.minimumAge': 'âge minimum {age} ans',
+
+  // Photo viewer
+  'photo.error': '❌ La photo n’a pas pu être affichée : {error}',
+  'photo.decoding': '⏳ Décodage de la photo...',
+  'photo.size': '{width} × {height} px, affichée à {scale}×',
+  'photo.zoom': 'Zoom',
+  'photo.contrast': 'Contraste',
+  'photo.brightness': 'Luminosité',
+  'photo.equalize': 'Égaliser l’histogramme',
+  'photo.smooth': 'Agrandissement lissé',
+  'photo.compare': '⛶ Comparer en plein écran',
+  'photo.export': '💾 Exporter en PNG',
+  'photo.reset': '↺ Réinitialiser',
+  'photo.original': 'Originale',
+  'photo.enhanced': 'Améliorée',
+  'photo.closeHint': 'Touchez n’importe où ou appuyez sur Échap pour fermer',
+
+  // What went wrong, by decode error code
+  'decodeError.EMPTY_PAYLOAD': 'Aucune donnée n’a été lue sur le code-barres.',
+  'decodeError.INPUT_TOO_LARGE': 'Les données lues sont trop volumineuses pour un code-barres de permis.',
+  'decodeError.INVALID_HEX': 'Les données saisies ne sont pas un hexadécimal valide.',
+  'decodeError.KEY_MISMATCH': 'Aucune clé de chiffrement ne déchiffre ce code-barres.',
+  'decodeError.ZLIB_CORRUPT': 'Les données compressées du permis sont endommagées.',
+  'decodeError.TRUNCATED_PAYLOAD': 'Les données du code-barres sont tronquées.',
+  'decodeError.INFLATE_LIMIT': 'Le code-barres se décompresse en plus de données qu’un permis ne peut en contenir.',
+  'decodeError.TIME_BUDGET': 'La récupération de la lecture endommagée a pris trop de temps.',
+  'decodeError.FIELD_COUNT': 'Les données du permis n’ont pas le bon nombre de champs.',
+  'decodeError.UNKNOWN_FORMAT': 'Les données du permis sont dans un format inconnu de l’application.',
+  'decodeError.UNRELIABLE_RECOVERY': 'Les champs récupérés de la lecture endommagée ne sont pas fiables.',
+  'decodeError.IMAGE_CORRUPT': 'La photo intégrée est endommagée.',
+  'decodeError.IMAGE_TOO_LARGE': 'La photo intégrée est trop volumineuse.',
+  'decodeError.UNKNOWN': 'Le code-barres n’a pas pu être décodé.',
+
+  // What to do about each decode error code
+  'remediation.EMPTY_PAYLOAD': 'Aucune donnée n’a été lue sur le code-barres. Relisez-le.',
+  'remediation.INPUT_TOO_LARGE': 'Les données lues sont bien plus volumineuses qu’un code-barres de permis. Vérifiez que le bon code-barres ou le bon fichier a été lu.',
+  'remediation.INVALID_HEX': 'Vérifiez les données collées : l’hexadécimal ne peut contenir que 0-9 et A-F, avec un nombre pair de caractères.',
+  'remediation.KEY_MISMATCH': 'Aucune clé du trousseau ne déchiffre ce code-barres. Importez la clé de l’émetteur dans Gérer les clés, ou vérifiez qu’il s’agit bien d’un permis malgache.',
+  'remediation.ZLIB_CORRUPT': 'Les données compressées sont endommagées. Relisez avec un meilleur éclairage et une meilleure mise au point ; si l’échec persiste, le code-barres de la carte est peut-être abîmé.',
+  'remediation.TRUNCATED_PAYLOAD': 'Les données du code-barres s’arrêtent trop tôt. Placez tout le code-barres dans le viseur et relisez.',
+  'remediation.INFLATE_LIMIT': 'Le code-barres se décompresse en bien plus de données qu’un permis n’en contient et a été rejeté par sécurité. Ne vous fiez pas à cette carte.',
+  'remediation.TIME_BUDGET': 'La récupération de cette lecture endommagée a pris trop de temps et a été interrompue. Relisez le code-barres ou désactivez le décodage tolérant.',
+  'remediation.FIELD_COUNT': 'Les données du permis n’ont pas les champs attendus. La carte utilise peut-être une version de format non prise en charge.',
+  'remediation.UNKNOWN_FORMAT': 'Aucun analyseur ne reconnaît ces données de permis. La carte utilise peut-être une version de format plus récente.',
+  'remediation.UNRELIABLE_RECOVERY': 'Le scan n’a pu être récupéré qu’en partie et les champs récupérés ne passent pas la validation. Scannez de nouveau le code-barres - ne vous fiez pas aux champs récupérés.',
+  'remediation.IMAGE_CORRUPT': 'La photo intégrée n’a pas pu être lue. Les champs du permis restent utilisables - comparez avec la photo imprimée sur la carte.',
+  'remediation.IMAGE_TOO_LARGE': 'La photo intégrée est plus grande qu’une photo de permis ne peut l’être et n’a pas été chargée. Les champs du permis restent utilisables - comparez avec la photo imprimée sur la carte.',
+  'remediation.UNKNOWN': 'Relisez le code-barres. Si le problème persiste, lancez le diagnostic et consultez la console du navigateur.'
+};
@@ -0,0 +1,430 @@
+import type { MessageKey } from './en';
+
+/**
+ * Malagasy UI messages
+ */
+export const mg: Record<MessageKey, string> = {
+  // App shell
+  'app.title': '🇲🇬 Mpamaky fahazoan-dàlana mitondra fiara',
+  'app.subtitle': 'Mpamadika kaody bara PDF417 tsy mila aterineto ho an\'ny fahazoan-dàlana mitondra fiara',
+  'app.language': 'Fiteny',
+  'app.decoding.title': '🔍 Famadihana ny angon\'ny fahazoan-dàlana...',
+  'app.decoding.body': 'Andraso kely, mbola vakiana sy adika ny kaody bara.',
+  'app.cancel': '✖️ Hanafoana',
+  'app.scannerOptions': '📱 Safidin\'ny mpamaky',
+  'app.scanner.original': '📄 PDF417 voalohany',
+  'app.scanner.alternative': '🔍 Mpamaky nohatsaraina',
+  'app.scanner.image': '📸 Hampiditra sary',
+  'app.scanner.original.hint': 'Mampiasa ny mpamaky PDF417 ZXing (mety hisy olana)',
+  'app.scanner.alternative.hint': 'Mampiasa ny mpamaky maro endrika nohatsaraina (soso-kevitra)',
+  'app.scanner.image.hint': 'Hampiditra sy hamaky sarin\'ny kaody bara (tsara indrindra amin\'ny fitsapana)',
+  'app.lenient': 'Famadihana malefaka (manandrana manarina ny famakiana simba)',
+  'app.asOf': 'Hamarino ny fahamanan-kery amin\'ny',
+  'app.asOf.today': 'Androany',
+  'app.otherInput': 'Fomba hafa hampidirana',
+  'app.otherInput.manual': '⌨️ Hanoratra ny angona hexa',
+  'app.otherInput.diagnostics': '🔧 Hanao fitiliana',
+  'app.otherInput.keys': '🔑 Hitantana ny lakile',
+  'app.backToScanner': '📷 Hiverina amin\'ny mpamaky',
+  'app.manual.title': '⌨️ Fampidirana hexa tanana',
+  'app.manual.hint': 'Apetaho eto ambany ny angon\'ny kaody bara voasoratra amin\'ny hexa',
+  'app.manual.label': 'Angona hexa:',
+  'app.manual.decode': '🔍 Hadika ny angona',
+  'app.footer.title': '🔐 Momba ny fiarovana',
+  'app.footer.privacy': 'Ao anatin\'ny mpitety tranonkala ihany no ikirakirana ny angona - tsy misy alefa any amin\'ny mpizara. Atao eo amin\'ny fitaovanao avokoa ny famadihana sy ny famakiana.',
+  'app.footer.format': 'Endrika raisina:',
+  'app.footer.format.value': 'Madagascar v5 ara-dalàna (saha 9 misaraka amin\'ny tsipika mitsangana)',
+  'app.footer.encryption': 'Fanafenana:',
+  'app.footer.encryption.value': 'XOR lakile raikitra ({keys} voapetraka) + famintinana zlib',
+
+  // Shared words and count forms
+  'common.yes': 'Eny',
+  'common.no': 'Tsia',
+  'common.none': 'Tsy misy',
+  'common.notAvailable': 'Tsy misy',
+  'common.unknown': 'Tsy fantatra',
+  'common.error': 'Hadisoana:',
+  'common.tryAgain': '🔄 Andramo indray',
+  'common.clear': 'Fafao',
+  'common.tips': 'Torohevitra:',
+  'count.day.one': '{count} andro',
+  'count.day.other': '{count} andro',
+  'count.byte.one': '{count} oktety',
+  'count.byte.other': '{count} oktety',
+  'count.key.one': '{count} lakile',
+  'count.key.other': '{count} lakile',
+
+  // Camera scanners
+  'camera.error': 'Hadisoan\'ny fakantsary:',
+  'camera.permissionDenied': 'Nolavina ny fahazoan-dàlana hampiasa ny fakantsary. Omeo alalana ny fakantsary ary avaozy ny pejy.',
+  'camera.notFound': 'Tsy misy fakantsary hita amin\'ity fitaovana ity.',
+  'camera.notSupported': 'Tsy raisina ny fakantsary. Ampiasao ny HTTPS na mpitety tranonkala hafa.',
+  'camera.insecure': 'Tsy azo ampiasaina ny fakantsary. Hamarino fa HTTPS no ampiasainao.',
+  'camera.failed': 'Tsy nandeha ny fakantsary: {detail}',
+  'scanner.startCamera': '📹 Alefaso ny fakantsary',
+  'scanner.stopCamera': '📷 Ajanony ny fakantsary',
+  'scanner.startScanning': '🔍 Atombohy ny famakiana',
+  'scanner.stopScanning': '⏹ Ajanony ny famakiana',
+  'scanner.testDecoder': '🧪 Hitsapa ny mpamadika',
+  'scanner.attempts': 'Andrana famakiana: {count}',
+  'scanner.raw.title': '📊 Angona manta avy amin\'ny kaody bara hita',
+  'scanner.raw.length': 'Halavany:',
+  'scanner.raw.hex': 'Angona (hexa):',
+  'scanner.status.starting': 'Mandefa ny fakantsary...',
+  'scanner.status.stopped': 'Najanona ny famakiana',
+  'scanner.status.detected': '✅ Hita ny kaody bara!',
+
+  'barcode.title': '📱 Mpamaky kaody bara PDF417',
+  'barcode.hint': 'Apetraho ao anatin\'ny fijery ny kaody bara',
+  'barcode.status.ready': 'Vonona ny fakantsary - apetraho ao anatin\'ny fijery ny kaody bara',
+  'barcode.status.scanning': '🔍 Mitady kaody bara PDF417...',
+  'barcode.status.processing': '✅ Hita ny kaody bara! Ikirakirana...',
+  'barcode.fixes.title': '🔧 Vahaolana haingana:',
+  'barcode.fixes.lock': 'Tsindrio ny sary hidy 🔒 eo amin\'ny tsipika adiresy',
+  'barcode.fixes.allow': 'Ataovy "Avela" ny fakantsary',
+  'barcode.fixes.refresh': 'Avaozy ity pejy ity',
+  'barcode.fixes.browser': 'Andramo amin\'ny mpitety tranonkala hafa (Chrome/Safari no soso-kevitra)',
+  'barcode.https.title': '⚠️ Ilaina ny HTTPS:',
+  'barcode.https.body': 'Mila fifandraisana voaaro ny fakantsary. Apetraho amin\'ny Vercel na tsapao amin\'ny',
+  'barcode.tips.lighting': 'Ataovy ampy ny hazavana',
+  'barcode.tips.steady': 'Tano tsy mihetsika ny fitaovana',
+  'barcode.tips.frame': 'Apetraho manontolo ao anatin\'ny efajoro maitso ny kaody bara',
+  'barcode.tips.distance': 'Ataovy eo amin\'ny 15-30 sm miala ny kaody bara',
+  'barcode.tips.angles': 'Andramo amin\'ny zoro hafa raha tsy hita',
+  'barcode.tips.log': 'Jereo ny diarin\'ny famakiana etsy ambony',
+
+  'alternative.title': '🔍 Mpamaky kaody bara hafa',
+  'alternative.hint': 'Fomba maro mba hahitana tsara kokoa',
+  'alternative.status.ready': 'Vonona ny fakantsary - andramo amin\'ny kaody bara REHETRA aloha',
+  'alternative.status.scanning': '🔍 Mamaky amin\'ny fomba maro...',
+  'alternative.quickTests': 'Fitsapana haingana:',
+  'alternative.testQr': '📱 Hitsapa QR',
+  'alternative.tries.title': 'Andramán\'ity mpamaky ity:',
+  'alternative.tries.zxing': '🔍 Mpamaky maro endrika ZXing (QR, DataMatrix, PDF417)',
+  'alternative.tries.resolution': '📸 Fakantsary mazava kokoa (1920x1080)',
+  'alternative.tries.capture': '🎯 Fakana sary hodinihina',
+  'alternative.tries.interval': '⚡ Famakiana haingana kokoa',
+  'alternative.try.label': '💡 Andramo:',
+  'alternative.try.body': 'Tsapao amin\'ny kaody QR tsotra aloha mba hanamarinana fa mandeha ny famakiana, avy eo andramo ny kaody bara PDF417-nao.',
+
+  'image.title': '📸 Mpamaky kaody bara amin\'ny sary',
+  'image.hint': 'Ampidiro ny sarin\'ny kaody bara mba hovakiana',
+  'image.upload': '📁 Hampiditra sarin\'ny kaody bara',
+  'image.clear': '🗑️ Fafao ny sary',
+  'image.alt': 'Kaody bara nampidirina',
+  'image.scan': '🔍 Vakio ny kaody bara',
+  'image.scanning': '🔍 Mamaky...',
+  'image.error.title': 'Hadisoana tamin\'ny famakiana:',
+  'image.error.notImage': 'Safidio rakitra sary',
+  'image.error.noImage': 'Tsy misy sary hovakiana',
+  'image.error.noBarcode': 'Tsy nisy kaody bara hita tao amin\'ny sary',
+  'image.error.failed': 'Tsy nahomby ny famakiana: {detail}',
+  'image.tips.visible': 'Ataovy hita tsara ny kaody bara',
+  'image.tips.lighting': 'Sary mazava sy tsara fanitsy',
+  'image.tips.crop': 'Tapaho akaiky ny kaody bara ihany ny sary',
+  'image.tips.blur': 'Hamarino fa tsy manjavozavo ny sary',
+  'image.success': '✅ Voavaky soa aman-tsara ny kaody bara!',
+  'image.howTo.title': '📱 Fomba fampiasana:',
+  'image.howTo.photo': 'Makà sary mazava ny kaody bara amin\'ny findainao',
+  'image.howTo.upload': 'Tsindrio ny "{button}" ary safidio ny sary',
+  'image.howTo.scan': 'Tsindrio ny "{button}" mba hikirakirana azy',
+  'image.howTo.result': 'Hiseho eto ambany ny angona voadika',
+  'image.tip.label': '💡 Torohevitra:',
+  'image.tip.body': 'Mandeha amin\'ny PDF417, kaody QR ary ny ankamaroan\'ny endrika kaody bara hafa!',
+
+  // Diagnostics
+  'diag.title': '🔧 Fitiliana ny rafitra',
+  'diag.hint': 'Fampahalalana hamahana ny olan\'ny famakiana',
+  'diag.browser.title': '🌐 Momba ny mpitety tranonkala',
+  'diag.browser.protocol': 'Protokoly:',
+  'diag.browser.userAgent': 'User Agent:',
+  'diag.browser.platform': 'Sehatra:',
+  'diag.browser.language': 'Fiteny:',
+  'diag.browser.online': 'Mifandray:',
+  'diag.browser.concurrency': 'Isan\'ny fo mpikirakira:',
+  'diag.camera.title': '📹 Momba ny fakantsary',
+  'diag.camera.getUserMedia': 'Misy getUserMedia:',
+  'diag.camera.totalDevices': 'Isan\'ny fitaovana:',
+  'diag.camera.videoDevices': 'Fitaovana video:',
+  'diag.camera.cameras': 'Fakantsary:',
+  'diag.camera.unnamed': 'Fakantsary tsy fantatra',
+  'diag.libraries.title': '📚 Fisian\'ny tranomboky',
+  'diag.libraries.test': 'Hitsapa {name}',
+  'diag.libraries.available': '✅ {name}: misy',
+  'diag.libraries.failed': '❌ {name}: tsy voapetraka',
+  'diag.debug.title': '🔍 Fitiliana lalina ny mpamadika',
+  'diag.debug.hint': 'Manampy hahitana tsara hoe aiza no tsy mety ny famadihana ireto fitaovana ireto:',
+  'diag.debug.knownSample': '🧪 Hitsapa santionany fantatra',
+  'diag.debug.knownSample.success': '✅ Fitsapana santionany fantatra: NAHOMBY! Mandeha tsara ny mpamadika.',
+  'diag.debug.knownSample.failed': '❌ Tsy nahomby ny fitsapana santionany fantatra: {error}',
+  'diag.debug.knownSample.error': '❌ Hadisoana tamin\'ny fitsapana santionany fantatra: {error}',
+  'diag.debug.stepByStep': '🔍 Fitiliana dingana tsirairay',
+  'diag.debug.noXor': '🔓 Hitsapa tsy misy XOR',
+  'diag.debug.noXor.success': '✅ NAHOMBY! TSY voafono XOR ny angona!\n\nVoafintina zlib fotsiny ny kaody bara.',
+  'diag.debug.noXor.failed': '❌ Mbola tsy nahomby na tsy misy XOR aza: {error}',
+  'diag.debug.noXor.error': '❌ Hadisoana tamin\'ny fitsapana tsy misy XOR: {error}',
+  'diag.debug.analyzeImage': '🔬 Hodinihina ny angon\'ny sary',
+  'diag.debug.analyzeImage.result': 'Fandinihana ny sary:\nSoratra: {text}...\nHalavany: {length}\nJereo ny console raha mila antsipiriany',
+  'diag.debug.analyzeImage.error': 'Hadisoana tamin\'ny fandinihana ny sary: {error}',
+  'diag.debug.userBase64': '🧪 Hitsapa ny base64 an\'ny mpampiasa',
+  'diag.debug.userBase64.result': 'Vita ny fandinihana base64!\nOktety: {bytes}\nFizarana: {segments}\nRefy: {dimensions}\nFeno ny firafitra: {structure}\nJereo ny console sy ny tabilao vaovao raha mila antsipiriany',
+  'diag.debug.userBase64.error': 'Hadisoana tamin\'ny fandinihana ny base64: {error}',
+  'diag.samples.title': '🧪 Hitsapa ny mpamadika amin\'ny santionany',
+  'diag.samples.hint': 'Tsapao amin\'ny karazana angona samihafa ny mpamadika mba hanavahana ny olan\'ny mpamaky sy ny an\'ny mpamadika:',
+  'diag.samples.test': 'Tsapao',
+  'diag.samples.simpleText': 'Soratra tsotra',
+  'diag.samples.simpleText.description': 'Soratra tsotra hitsapana ny mpamadika',
+  'diag.samples.json': 'Santionany JSON',
+  'diag.samples.json.description': 'Rafitra mitovy amin\'ny JSON',
+  'diag.samples.hex': 'Santionany hexa (fohy)',
+  'diag.samples.hex.description': '"Hello World" voasoratra amin\'ny hexa',
+  'diag.samples.compressed': 'Santionany angona voafintina',
+  'diag.samples.compressed.description': 'Angona voafintina zlib',
+  'diag.samples.pdf417': 'Santionany PDF417',
+  'diag.samples.pdf417.description': 'Angona mahazatra amin\'ny kaody bara PDF417',
+  'diag.troubleshooting.title': '💡 Dingana hamahana olana',
+  'diag.troubleshooting.https': 'Hamarino fa HTTPS no ampiasainao (ilain\'ny fakantsary)',
+  'diag.troubleshooting.enhanced': 'Andramo ny 🔍 Mpamaky nohatsaraina fa tsy ny PDF417 irery',
+  'diag.troubleshooting.decoder': 'Ataovy ireo fitsapana ny mpamadika etsy ambony mba hanamarinana fa mandeha izy',
+  'diag.troubleshooting.qr': 'Tsapao amin\'ny kaody QR tsotra aloha',
+  'diag.troubleshooting.console': 'Jereo ny console an\'ny mpitety tranonkala raha mila ny antsipirian\'ny hadisoana',
+  'diag.troubleshooting.browser': 'Andramo mpitety tranonkala hafa (Chrome/Safari no soso-kevitra)',
+
+  // Key management, test barcodes and decode traces
+  'keys.title': '🔑 Lakile fanafenana',
+  'keys.hint': 'Andramain\'ny mpamadika tsirairay ny lakile ary ilay manome fikorianan\'ny zlib marina no raisiny',
+  'keys.keyring': 'Fitehirizana lakile ({keys})',
+  'keys.noLabel': 'Tsy misy anarana',
+  'keys.bundled': '(tafiditra)',
+  'keys.remove': '🗑️ Hamafa',
+  'keys.removed': '🗑️ Voafafa ny lakile \'{id}\'',
+  'keys.add.title': '➕ Hanampy lakile',
+  'keys.add.id': 'ID-n\'ny lakile (ohatra mg-pilot-2024)',
+  'keys.add.key': 'Lakile',
+  'keys.add.label': 'Anarana (tsy voatery)',
+  'keys.add.button': '➕ Hanampy ny lakile',
+  'keys.added': '✅ Tafiditra ny lakile \'{id}\'',
+  'keys.import.title': '📥 Hampiditra fitehirizana lakile',
+  'keys.import.button': '📥 Hampiditra',
+  'keys.imported': '✅ Tafiditra ny fitehirizana lakile',
+  'keys.imported.skipped': '⚠️ Tafiditra ny fitehirizana lakile, saingy tsy nampidirina ireto lakile ireto satria efa ampiasaina ny ID-ny: {ids}',
+  'keys.failed': '❌ Tsy niova ny fitehirizana lakile: {detail}',
+  'generator.title': '🖨️ Mpamorona kaody bara fitsapana',
+  'generator.hint': 'Avadiho ho kaody bara PDF417 azo atonta ny angon\'ny fahazoan-dàlana',
+  'generator.generate': '🖨️ Hamorona ny kaody bara',
+  'generator.decode': '🔍 Hadika',
+  'generator.download': '📥 Haka ny PNG',
+  'generator.failed': '❌ Tsy afaka noforonina ny kaody bara: {detail}',
+  'generator.summary': '{size} · lakile {key}',
+  'trace.succeeded': '✅ Nahomby ny famadihana',
+  'trace.failed': '❌ Tsy nahomby ny famadihana',
+  'trace.summary': 'tao anatin\'ny {duration} ms ({steps} dingana)',
+  'trace.stage': 'Ampahany',
+  'trace.step': 'Dingana',
+  'trace.method': 'Fomba',
+  'trace.lengths': 'Miditra → Mivoaka',
+  'trace.time': 'Faharetany',
+  'trace.preview': 'Topy maso',
+  'trace.input': 'miditra: {preview}',
+  'trace.output': 'mivoaka: {preview}',
+  'trace.error': 'hadisoana: {error}',
+
+  // Decode results
+  'results.success.title': '✅ Voadika soa aman-tsara ny fahazoan-dàlana',
+  'results.success.message': 'Voadika soa aman-tsara ny fahazoan-dàlana malagasy: {license}',
+  'results.failure.title': '❌ Tsy nahomby ny famadihana',
+  'results.failure.stage': 'dingana: {stage}',
+  'results.failure.offset': 'toerana {offset}',
+  'results.failure.remedy': 'Inona no atao:',
+  'results.partial.title': '🧩 Voadika ampahany',
+  'results.confidence.medium.title': '⚠️ Famadihana antonony ny fahatokisana',
+  'results.confidence.low.title': '⚠️ Famadihana ambany ny fahatokisana',
+  'results.confidence.body': 'Tsy avy amin\'ny famadihana madio ity valiny ity. Ampitahao amin\'ny karatra tena izy ireo antsipiriany.',
+  'results.confidence.high': 'avo',
+  'results.confidence.medium': 'antonony',
+  'results.confidence.low': 'ambany',
+  'results.validation.warnings': '⚠️ Fampitandremana tamin\'ny fanamarinana',
+  'results.validation.errors': '❌ Hadisoana tamin\'ny fanamarinana',
+  'results.validation.error': 'Hadisoana:',
+  'results.validation.warning': 'Fampitandremana:',
+  'results.personal.title': '👤 Mombamomba ny tompony',
+  'results.field.name': 'Anarana:',
+  'results.field.initials': 'Litera voalohany:',
+  'results.field.surname': 'Anaram-pianakaviana:',
+  'results.field.idNumber': 'Laharan\'ny karapanondro:',
+  'results.field.sex': 'Lahy sa vavy:',
+  'results.field.dateOfBirth': 'Daty nahaterahana:',
+  'results.license.title': '🪪 Mombamomba ny fahazoan-dàlana',
+  'results.field.licenseNumber': 'Laharan\'ny fahazoan-dàlana:',
+  'results.field.licenseCodes': 'Sokajy:',
+  'results.field.validFrom': 'Manan-kery manomboka ny:',
+  'results.field.validTo': 'Manan-kery hatramin\'ny:',
+  'results.field.vehicleRestrictions': 'Fameperana ny fiara:',
+  'results.field.driverRestrictions': 'Fameperana ny mpamily:',
+  'results.technical.title': '🔧 Antsipiriany ara-teknika',
+  'results.field.formatVersion': 'Dikan\'ny endrika:',
+  'results.field.formatParser': 'Mpamaky endrika:',
+  'results.field.codeCatalog': 'Katalaogin\'ny kaody:',
+  'results.field.country': 'Firenena:',
+  'results.field.decodingFormat': 'Endrika famadihana:',
+  'results.field.decodeMode': 'Fomba famadihana:',
+  'results.field.decodeMethod': 'Fombafomba famadihana:',
+  'results.field.decodeMethod.photo': 'sary: {method}',
+  'results.field.confidence': 'Fahatokisana:',
+  'results.field.payloadSize': 'Haben\'ny angona:',
+  'results.field.keyId': 'ID lakile:',
+  'results.security.title': '🔐 Fiarovana',
+  'results.field.encryption': 'Fanafenana:',
+  'results.field.encryption.value': 'XOR lakile raikitra',
+  'results.field.compression': 'Famintinana:',
+  'results.field.compression.value': 'zlib ambaratonga 9',
+  'results.field.dataFormat': 'Endriky ny angona:',
+  'results.field.dataFormat.value': 'saha 9 misaraka amin\'ny tsipika mitsangana',
+  'results.field.signature': 'Sonia:',
+  'results.field.signingKey': 'Lakile sonia:',
+  'results.photo.title': '📷 Sary tafiditra',
+  'results.photo.format': 'Endrika: {format}',
+  'results.photo.size': 'Habe: {size}',
+  'results.photo.dimensions': 'Refy: {width} × {height}',
+  'results.photo.structure': 'Rafitra: {state}',
+  'results.photo.structure.damaged': '❌ Simba',
+  'results.photo.structure.cutOff': '⚠️ Tapaka',
+  'results.photo.structure.intact': '✅ Tsy simba',
+  'results.photo.renders': 'Aseho: {state}',
+  'results.photo.renders.checking': '⏳ Hamarinina...',
+  'results.photo.renders.yes': '✅ Eny',
+  'results.photo.renders.no': '❌ Tsia',
+  'results.photo.repaired': 'Namboarina: {repairs}',
+  'results.photo.none': 'Tsy misy sary tafiditra',
+  'results.photo.error': '⚠️ Tsy afaka nampidirina ny sary tafiditra ({code})',
+  'results.scanAnother': '🔍 Hamaky fahazoan-dàlana hafa',
+  'results.downloadJson': '📥 Haka ny JSON',
+  'results.rawJson': '🔍 Angona voadika manta (JSON)',
+  'results.recovery.title': '🩹 Naverina tamin\'ny famakiana simba',
+  'results.recovery.recovered': 'Voarina:',
+  'results.recovery.intactFields': 'Saha tsy simba:',
+  'results.recovery.cutOffIn': 'Tapaka tao amin\'ny:',
+  'results.recovery.missingFields': 'Saha tsy hita:',
+  'results.recovery.photo': 'Sary:',
+  'results.recovery.photo.complete': '✅ Feno',
+  'results.recovery.photo.truncated': '⚠️ Tapaka',
+  'results.recovery.photo.missing': '❌ Tsy hita',
+
+  // Validity banner
+  'validity.valid': '✅ MANAN-KERY',
+  'validity.expired': '❌ LANY DATY',
+  'validity.not_yet_valid': '⏳ MBOLA TSY MANAN-KERY',
+  'validity.unknown': '❓ TSY FANTATRA NY FAHAMANAN-KERY',
+  'validity.expiresToday': 'Lany daty anio ({date})',
+  'validity.expiresIn': 'Lany daty afaka {days} ({date})',
+  'validity.expiredAgo': 'Lany daty {days} lasa izay ({date})',
+  'validity.validIn': 'Manan-kery afaka {days} ({date})',
+  'validity.unreadable': 'Tsy voavaky ny datin\'ny fahamanan-kery',
+  'validity.holderAge': 'Taonan\'ny tompony: {age} taona',
+  'validity.asOf': 'Tamin\'ny {date}',
+
+  // Issuer signature
+  'signature.authentic': '🔏 TENA IZY',
+  'signature.unsigned': '⚠️ TSY MISY SONIA',
+  'signature.invalid': '🚫 SONIA TSY MANAN-KERY',
+  'signature.unverified': '❔ SONIA TSY VOAMARINA',
+  'signature.authentic.detail': 'Nosoniavin\'i {issuer}',
+  'signature.unsigned.detail': 'Tsy misy sonian\'ny mpamoaka - izay manana ny lakile fanafenana dia afaka nanao ity kaody bara ity. Jereo ny karatra mihitsy.',
+  'signature.invalid.detail': 'Aza atokisana ity kaody bara ity - novaina ny angony na ny soniany taorian\'ny nanaovan\'ny mpamoaka sonia.',
+  'signature.unverified.detail': 'Tsy voamarina teto amin\'ity fitaovana ity ny sonia.',
+  'signature.unknown_issuer': '❓ MPAMOAKA TSY FANTATRA',
+  'signature.unknown_issuer.detail': 'Nosoniavina tamin\'ny lakile {key}, izay tsy ao amin\'ny lakilen\'ny mpamoaka ato amin\'ny fampiharana, ka tsy azo hamarinina ny sonia. Havaozy ny lakilen\'ny mpamoaka.',
+  'signature.problem.malformed_block': 'Simba na diso endrika ny ampahan\'ny sonia ao amin\'ny kaody bara.',
+  'signature.problem.wrong_length': 'Tsy mifanaraka amin\'ny lakilen\'ny mpamoaka ny halavan\'ny sonia.',
+  'signature.problem.mismatch': 'Tsy mifanaraka amin\'ny angon\'ny fahazoan-dàlana sy ny sary ny sonia.',
+  'signature.problem.check_failed': 'Tsy nahomby ny fanamarinana ny sonia.',
+  'signature.problem.no_webcrypto': 'Tsy mahazaka WebCrypto ity navigateur ity.',
+  'signature.problem.key_unusable': 'Tsy afaka mampiasa ny lakile {algorithm} an\'ny mpamoaka ity navigateur ity.',
+
+  // Decoder findings, translated by code
+  'validation.NAME_MISSING': 'Foana ny anarana',
+  'validation.NAME_CHARACTERS': 'Misy marika hafa ankoatra ny litera, elanelana, tsipika fohy sy apostrofa ny anarana: \'{value}\'',
+  'validation.ID_NUMBER_FORMAT': 'Tsy maintsy isa 12 ny laharan\'ny kara-panondro, nahazo \'{value}\'',
+  'validation.LICENSE_NUMBER_FORMAT': 'Tsy maintsy marika 13 (A-Z, 0-9) ny laharan\'ny fahazoan-dàlana, nahazo \'{value}\'',
+  'validation.CHECK_DIGIT': 'Tsy mifanaraka ny isa fanamarinana ({validator})',
+  'validation.SEX_INVALID': 'Tsy maintsy M na F ny lahy sy vavy, nahazo \'{value}\'',
+  'validation.DATE_MISSING': 'Foana: {field}',
+  'validation.DATE_FORMAT': 'Tsy maintsy daty TTTTVVAA marina ny {field}, nahazo \'{value}\'',
+  'validation.date.date_of_birth': 'Daty nahaterahana',
+  'validation.date.valid_from': 'Manan-kery nanomboka',
+  'validation.date.valid_to': 'Manan-kery hatramin\'ny',
+  'validation.VALIDITY_RANGE': 'Tsy maintsy aorian\'ny fanombohana ({validFrom}) ny fiafaran\'ny fahamanan-kery ({validTo})',
+  'validation.DOB_IN_FUTURE': 'Mbola ho avy ny daty nahaterahana {value}',
+  'validation.DOB_IMPLAUSIBLE': 'Ho mihoatra ny {age} taona ny tompony',
+  'validation.UNDERAGE_AT_ISSUE': 'Latsaky ny {age} taona ny tompony fony nanan-kery ny fahazoan-dàlana',
+  'validation.NO_LICENSE_CODES': 'Tsy misy kaody sokajin\'ny fahazoan-dàlana',
+  'validation.UNKNOWN_CATEGORY_CODE': 'Tsy ao amin\'ny katalaogin\'ny kaody {catalog} ny kaody sokajy \'{code}\'',
+  'validation.UNDERAGE_FOR_CATEGORY': 'Latsaky ny {age} taona, ny taona farafahakeliny ho an\'ny sokajy {code}, ny tompony fony nanan-kery ny fahazoan-dàlana',
+  'validation.UNKNOWN_RESTRICTION_CODE': 'Tsy ao amin\'ny katalaogin\'ny kaody {catalog} ny kaody fameperana \'{code}\'',
+  'confidence.SCRAPED_TEXT': 'Nalaina tamin\'ny angona tsy voavelatra ny soratry ny fahazoan-dàlana - mety ho noforonina ny saha sasany',
+  'confidence.FIELDS_CUT_OFF': 'Tapaka ny angona - saha tsy feno: {fields}',
+  'confidence.PHOTO_CUT_OFF': 'Tapaka taorian\'ny sahan\'ny fahazoan-dàlana ny angona (sary: {photo})',
+  'confidence.LOOSE_PARSE': 'Tsy nifanaraka tanteraka tamin\'ny endrika ny saha; navela ho foana ireo saha tsy hita',
+  'confidence.PHOTO_RECONSTRUCTED': 'Naorina indray avy amin\'ny angona nosarahina tamin\'ny tsipika mitsangana ny sary',
+  'confidence.PHOTO_REPAIRED': 'Namboarina ny sary: {repairs}',
+  'confidence.PHOTO_DAMAGED': 'Tsy afaka nampidirina ny sary ({error})',
+  'photoRepair.DROPPED_LEADING_BYTES': 'nesorina ny oktety {bytes} teo alohan\'ny fiandohan\'ny sary',
+  'photoRepair.ADDED_END_MARKER': 'nampidirina ny mari-pamaranana tsy hita (tapaka ny sary)',
+  'photoRepair.REBUILT_FROM_PIPES': 'naorina indray avy amin\'ny angona nosarahina tamin\'ny tsipika mitsangana ny JPEG',
+
+  // License codes
+  'codes.unknown': 'kaody tsy fantatra',
+  'codes.limit.weightRange': '{min}-{max} kg',
+  'codes.limit.maxWeight': 'hatramin\'ny {max} kg',
+  'codes.limit.minWeight': 'mihoatra ny {min} kg',
+  'codes.limit.maxSeats': 'seza mpandeha hatramin\'ny {seats}',
+  'codes.limit.minimumAge': 'taona farafahakeliny {age}',
+
+  // Photo viewer
+  'photo.error': '❌ Tsy afaka naseho ny sary: {error}',
+  'photo.decoding': '⏳ Famadihana ny sary...',
+  'photo.size': '{width} × {height} px, aseho amin\'ny {scale}×',
+  'photo.zoom': 'Fanalehibeana',
+  'photo.contrast': 'Fifanoherana',
+  'photo.brightness': 'Hamirapiratana',
+  'photo.equalize': 'Hampirindra ny histogram',
+  'photo.smooth': 'Fanalehibeana malama',
+  'photo.compare': '⛶ Hampitaha amin\'ny efijery feno',
+  'photo.export': '💾 Haondrana PNG',
+  'photo.reset': '↺ Hamerina',
+  'photo.original': 'Tany am-boalohany',
+  'photo.enhanced': 'Nohatsaraina',
+  'photo.closeHint': 'Tsindrio na aiza na aiza na Esc raha hanidy',
+
+  // What went wrong, by decode error code
+  'decodeError.EMPTY_PAYLOAD': 'Tsy nisy angona voavaky tamin\'ny kaody bara.',
+  'decodeError.INPUT_TOO_LARGE': 'Lehibe loatra ho kaody baran\'ny fahazoan-dàlana ny angona voavaky.',
+  'decodeError.INVALID_HEX': 'Tsy hexa marina ny angona nampidirina.',
+  'decodeError.KEY_MISMATCH': 'Tsy misy lakile fanafenana mahavaha ity kaody bara ity.',
+  'decodeError.ZLIB_CORRUPT': 'Simba ny angon\'ny fahazoan-dàlana voafintina.',
+  'decodeError.TRUNCATED_PAYLOAD': 'Tapaka ny angon\'ny kaody bara.',
+  'decodeError.INFLATE_LIMIT': 'Mivelatra ho angona be kokoa noho izay zakan\'ny fahazoan-dàlana ny kaody bara.',
+  'decodeError.TIME_BUDGET': 'Naharitra loatra ny fanarenana ny famakiana simba.',
+  'decodeError.FIELD_COUNT': 'Diso isa ny sahan\'ny angon\'ny fahazoan-dàlana.',
+  'decodeError.UNKNOWN_FORMAT': 'Amin\'ny endrika tsy fantatr\'ity fampiharana ity ny angon\'ny fahazoan-dàlana.',
+  'decodeError.UNRELIABLE_RECOVERY': 'Tsy azo antoka ireo saha voaray tamin\'ny famakiana simba.',
+  'decodeError.IMAGE_CORRUPT': 'Simba ny sary tafiditra.',
+  'decodeError.IMAGE_TOO_LARGE': 'Lehibe loatra ny sary tafiditra.',
+  'decodeError.UNKNOWN': 'Tsy voadika ny kaody bara.',
+
+  // What to do about each decode error code
+  'remediation.EMPTY_PAYLOAD': 'Tsy nisy angona voavaky tamin\'ny kaody bara. Vakio indray.',
+  'remediation.INPUT_TOO_LARGE': 'Lehibe lavitra noho izay zakan\'ny kaody baran\'ny fahazoan-dàlana ny angona voavaky. Hamarino fa ny kaody bara na rakitra marina no novakiana.',
+  'remediation.INVALID_HEX': 'Hamarino ny angona napetaka: 0-9 sy A-F ihany no azo ampiasaina amin\'ny hexa, ary tsy maintsy mitambatra roa ny isan\'ny litera.',
+  'remediation.KEY_MISMATCH': 'Tsy misy lakile ao amin\'ny fitehirizana mahavaha ity kaody bara ity. Ampidiro ao amin\'ny Hitantana ny lakile ny lakilen\'ny mpamoaka, na hamarino fa fahazoan-dàlana malagasy ity.',
+  'remediation.ZLIB_CORRUPT': 'Simba ny angona voafintina. Vakio indray amin\'ny hazavana sy fanitsiana tsara kokoa; raha mbola tsy mety, mety simba ny kaody bara eo amin\'ny karatra.',
+  'remediation.TRUNCATED_PAYLOAD': 'Tapaka aloha loatra ny angon\'ny kaody bara. Apetraho manontolo ao anatin\'ny fijery ny kaody bara dia vakio indray.',
+  'remediation.INFLATE_LIMIT': 'Mivelatra ho angona be lavitra noho izay ao amin\'ny fahazoan-dàlana ny kaody bara ka nolavina noho ny fiarovana. Aza atokisana ity karatra ity.',
+  'remediation.TIME_BUDGET': 'Naharitra loatra ny fanarenana ity famakiana simba ity ka najanona. Vakio indray ny kaody bara, na vonoy ny famadihana malefaka.',
+  'remediation.FIELD_COUNT': 'Tsy manana ireo saha andrasana ny angon\'ny fahazoan-dàlana. Mety mampiasa dikan\'endrika tsy raisin\'ity fampiharana ity ny karatra.',
+  'remediation.UNKNOWN_FORMAT': 'Tsy misy mpamaky endrika mahafantatra ireo angon\'ny fahazoan-dàlana ireo. Mety mampiasa dikan\'endrika vaovao kokoa ny karatra.',
+  'remediation.UNRELIABLE_RECOVERY': 'Ampahany ihany no voaray tamin\'ny scan ary tsy mahafeno ny fanamarinana ireo saha voaray. Scan-no indray ny kaody bara - aza miantehitra amin\'ireo saha voaray.',
+  'remediation.IMAGE_CORRUPT': 'Tsy voavaky ny sary tafiditra. Mbola azo ampiasaina ny sahan\'ny fahazoan-dàlana - ampitahao amin\'ny sary voapirina eo amin\'ny karatra.',
+  'remediation.IMAGE_TOO_LARGE': 'Lehibe loatra noho izay mety ho sarin\'ny fahazoan-dàlana ny sary tafiditra ka tsy nampidirina. Mbola azo ampiasaina ny sahan\'ny fahazoan-dàlana - ampitahao amin\'ny sary voapirina eo amin\'ny karatra.',
+  'remediation.UNKNOWN': 'Vakio indray ny kaody bara. Raha mbola misy ny olana, ataovy ny fitiliana ary jereo ny console an\'ny mpitety tranonkala.'
+};
@@ -0,0 +1,32 @@
+import { toSVG, toCanvas } from 'bwip-js/browser';
+import type { EncodedLicense } from '@linc-scan/decoder';
+
+/**
+ * Render encoded barcode bytes as a PDF417 SVG (works in browser and Node)
+ */
+export function renderBarcodeSvg(encoded: EncodedLicense, scale: number = 2): string {
+  return toSVG(barcodeOptions(encoded, scale));
+}
+
+/**
+ * Render encoded barcode bytes as a PDF417 onto a canvas
+ */
+export function renderBarcodeToCanvas(canvas: HTMLCanvasElement, encoded: EncodedLicense, scale: number = 2): void {
+  toCanvas(canvas, barcodeOptions(encoded, scale));
+}
+
+function barcodeOptions(encoded: EncodedLicense, scale: number) {
+  // One char per byte - binarytext makes bwip-js treat char codes as raw bytes
+  let text = '';
+  for (let i = 0; i < encoded.encrypted.length; i++) {
+    text += String.fromCharCode(encoded.encrypted[i]);
+  }
+
+  return {
+    bcid: 'pdf417',
+    text,
+    binarytext: true,
+    scale,
+    columns: 12
+  };
+}
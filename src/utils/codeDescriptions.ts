@@ -0,0 +1,23 @@
+import type { LicenseCategory } from '@linc-scan/decoder';
+import { Locale, translate } from './i18n';
+
+/**
+ * Readable summary of a category's limits, e.g. "up to 3500 kg, up to 8 passenger seats, minimum age 18"
+ */
+export function describeCategoryLimits(category: LicenseCategory, locale: Locale = 'en'): string {
+  const limits: string[] = [];
+  const min = category.minWeightKg;
+  const max = category.maxWeightKg;
+  if (min !== undefined && max !== undefined) {
+    limits.push(translate(locale, 'codes.limit.weightRange', { min, max }));
+  } else if (max !== undefined) {
+    limits.push(translate(locale, 'codes.limit.maxWeight', { max }));
+  } else if (min !== undefined) {
+    limits.push(translate(locale, 'codes.limit.minWeight', { min }));
+  }
+  if (category.maxPassengerSeats !== undefined) {
+    limits.push(translate(locale, 'codes.limit.maxSeats', { seats: category.maxPassengerSeats }));
+  }
+  limits.push(translate(locale, 'codes.limit.minimumAge', { age: category.minimumAge }));
+  return limits.join(', ');
+}
@@ -0,0 +1,26 @@
+import { decodeFailure, MadagascarLicenseDecoder } from '@linc-scan/decoder';
+import { createDecoderFromConfig, DecoderWorkerRequest, DecoderWorkerResponse } from './decoderWorkerProtocol';
+
+/**
+ * Web Worker side of DecoderClient - decodes one request at a time off the main thread
+ */
+let decoder: MadagascarLicenseDecoder = createDecoderFromConfig({ logLevel: 'silent' });
+
+self.onmessage = async (event: MessageEvent<DecoderWorkerRequest>) => {
+  const request = event.data;
+  switch (request.type) {
+    case 'configure':
+      decoder = createDecoderFromConfig(request.config);
+      break;
+    case 'decode': {
+      let response: DecoderWorkerResponse;
+      try {
+        response = { id: request.id, result: await decoder.decodeAndVerify(request.scanned, request.skipXor) };
+      } catch (error) {
+        response = { id: request.id, result: decodeFailure(error) };
+      }
+      self.postMessage(response);
+      break;
+    }
+  }
+};
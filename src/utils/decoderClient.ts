@@ -0,0 +1,151 @@
+import { MadagascarLicenseDecoder, DecodedResult, DecodeMode, ScannedData, LicenseKeyring, DecodeLimits, LogLevel, TrustStore } from '@linc-scan/decoder';
+import { createDecoderFromConfig, DecoderWorkerRequest, DecoderWorkerResponse, WorkerDecoderConfig } from './decoderWorkerProtocol';
+
+/**
+ * Decoder settings that can be sent to the worker (loggers and custom parsers cannot cross the worker boundary)
+ */
+export interface DecoderClientOptions {
+  keyring?: LicenseKeyring;
+  trustStore?: TrustStore;         // Issuer keys for signed licenses. Default: the bundled trust store
+  mode?: DecodeMode;
+  asOf?: Date;                     // Validity reference date. Default: the time of each decode
+  limits?: Partial<DecodeLimits>;
+  trace?: boolean;
+  logLevel?: LogLevel;             // Level of the console logger inside the worker. Default: silent
+}
+
+export interface DecodeRequestOptions {
+  signal?: AbortSignal;            // Abort to cancel the decode
+  skipXor?: boolean;
+}
+
+interface PendingDecode {
+  scanned: ScannedData;
+  skipXor: boolean;
+  resolve: (result: DecodedResult) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Runs the decoder in a Web Worker so slow or hostile payloads cannot block the UI
+ * A running decode cannot be interrupted, so cancelling one restarts the worker
+ */
+export class DecoderClient {
+  private worker?: Worker;
+  private fallbackDecoder?: MadagascarLicenseDecoder;
+  private config: WorkerDecoderConfig;
+  private nextId = 1;
+  private readonly pending = new Map<number, PendingDecode>();
+
+  constructor(options: DecoderClientOptions = {}) {
+    this.config = this.toConfig(options);
+  }
+
+  /**
+   * Change decoder settings - applies to decodes requested from now on
+   */
+  public configure(options: DecoderClientOptions): void {
+    this.config = this.toConfig(options);
+    this.fallbackDecoder = undefined;
+    this.worker?.postMessage({ type: 'configure', config: this.config } satisfies DecoderWorkerRequest);
+  }
+
+  public decode(scanned: ScannedData, options: DecodeRequestOptions = {}): Promise<DecodedResult> {
+    const { signal, skipXor = false } = options;
+    if (signal?.aborted) {
+      return Promise.reject(this.abortReason(signal));
+    }
+
+    // No worker support (e.g. Node) - decode in-process
+    if (typeof Worker === 'undefined') {
+      this.fallbackDecoder ??= createDecoderFromConfig(this.config);
+      return this.fallbackDecoder.decodeAndVerify(scanned, skipXor);
+    }
+
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.pending.delete(id);
+        this.restartWorker();
+        reject(this.abortReason(signal!));
+      };
+      const settle = () => signal?.removeEventListener('abort', onAbort);
+
+      this.pending.set(id, {
+        scanned,
+        skipXor,
+        resolve: result => { settle(); resolve(result); },
+        reject: error => { settle(); reject(error); }
+      });
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.post(id);
+    });
+  }
+
+  /**
+   * Stop the worker and reject every decode still running
+   */
+  public dispose(): void {
+    this.worker?.terminate();
+    this.worker = undefined;
+    const error = new Error("Decoder was disposed");
+    this.pending.forEach(request => request.reject(error));
+    this.pending.clear();
+  }
+
+  private post(id: number): void {
+    const request = this.pending.get(id);
+    if (request) {
+      this.getWorker().postMessage({ type: 'decode', id, scanned: request.scanned, skipXor: request.skipXor } satisfies DecoderWorkerRequest);
+    }
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      const worker = new Worker(new URL('./decoder.worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (event: MessageEvent<DecoderWorkerResponse>) => {
+        const request = this.pending.get(event.data.id);
+        this.pending.delete(event.data.id);
+        request?.resolve(event.data.result);
+      };
+      worker.onerror = (event) => {
+        event.preventDefault();
+        this.worker = undefined;
+        worker.terminate();
+        const error = new Error(`Decoder worker failed: ${event.message || 'unknown error'}`);
+        this.pending.forEach(request => request.reject(error));
+        this.pending.clear();
+      };
+      worker.postMessage({ type: 'configure', config: this.config } satisfies DecoderWorkerRequest);
+      this.worker = worker;
+    }
+    return this.worker;
+  }
+
+  /**
+   * Replace the worker, handing it the decodes the old one had not finished
+   */
+  private restartWorker(): void {
+    this.worker?.terminate();
+    this.worker = undefined;
+    if (this.pending.size > 0) {
+      [...this.pending.keys()].forEach(id => this.post(id));
+    }
+  }
+
+  private abortReason(signal: AbortSignal): unknown {
+    return signal.reason ?? new DOMException("Decode cancelled", 'AbortError');
+  }
+
+  private toConfig(options: DecoderClientOptions): WorkerDecoderConfig {
+    return {
+      keys: options.keyring?.list(),
+      trustedKeys: options.trustStore?.list(),
+      mode: options.mode,
+      asOf: options.asOf,
+      limits: options.limits,
+      trace: options.trace,
+      logLevel: options.logLevel ?? 'silent'
+    };
+  }
+}
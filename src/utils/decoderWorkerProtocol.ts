@@ -0,0 +1,40 @@
+import { MadagascarLicenseDecoder, DecodedResult, DecodeMode, ScannedData, EncryptionKey, LicenseKeyring, DecodeLimits, createConsoleLogger, LogLevel, TrustedKey, TrustStore } from '@linc-scan/decoder';
+import { jpegJsDecodeCheck } from './jpegDecodeCheck';
+
+/**
+ * Serializable form of DecoderClientOptions
+ */
+export interface WorkerDecoderConfig {
+  keys?: EncryptionKey[];
+  trustedKeys?: TrustedKey[];
+  mode?: DecodeMode;
+  asOf?: Date;
+  limits?: Partial<DecodeLimits>;
+  trace?: boolean;
+  logLevel: LogLevel;
+}
+
+export type DecoderWorkerRequest =
+  | { type: 'configure'; config: WorkerDecoderConfig }
+  | { type: 'decode'; id: number; scanned: ScannedData; skipXor: boolean };
+
+export interface DecoderWorkerResponse {
+  id: number;
+  result: DecodedResult;
+}
+
+/**
+ * Build a decoder from worker config (used inside the worker and for the in-process fallback)
+ */
+export function createDecoderFromConfig(config: WorkerDecoderConfig): MadagascarLicenseDecoder {
+  return new MadagascarLicenseDecoder({
+    keyring: config.keys ? new LicenseKeyring(config.keys) : undefined,
+    trustStore: config.trustedKeys ? new TrustStore(config.trustedKeys) : undefined,
+    mode: config.mode,
+    asOf: config.asOf,
+    limits: config.limits,
+    trace: config.trace,
+    logger: createConsoleLogger(config.logLevel),
+    jpegDecodeCheck: jpegJsDecodeCheck
+  });
+}
@@ -0,0 +1,112 @@
+import { en, MessageKey } from '../i18n/en';
+import { fr } from '../i18n/fr';
+import { mg } from '../i18n/mg';
+
+export type { MessageKey } from '../i18n/en';
+
+export type Locale = 'en' | 'fr' | 'mg';
+
+export type MessageParams = Record<string, string | number>;
+
+/**
+ * A message to show later - kept as a key so it follows language changes
+ */
+export interface LocalizedMessage {
+  key: MessageKey;
+  params?: MessageParams;
+}
+
+/**
+ * Message keys that come in .one / .other count forms, without the suffix
+ */
+export type PluralKey = MessageKey extends infer K ? K extends `${infer Base}.one` ? Base : never : never;
+
+/**
+ * Languages offered in the switcher, labelled in their own language
+ */
+export const LOCALES: { locale: Locale; label: string }[] = [
+  { locale: 'en', label: 'English' },
+  { locale: 'fr', label: 'Français' },
+  { locale: 'mg', label: 'Malagasy' }
+];
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { en, fr, mg };
+
+// French and Malagasy use the singular for 0 as well as 1 (Malagasy words do not change anyway)
+const IS_SINGULAR: Record<Locale, (count: number) => boolean> = {
+  en: count => count === 1,
+  fr: count => count === 0 || count === 1,
+  mg: count => count === 0 || count === 1
+};
+
+// Browser Intl support for Malagasy is patchy, so month names are kept here
+const MONTH_NAMES: Record<Locale, string[]> = {
+  en: ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'],
+  fr: ['janvier', 'février', 'mars', 'avril', 'mai', 'juin', 'juillet', 'août', 'septembre', 'octobre', 'novembre', 'décembre'],
+  mg: ['Janoary', 'Febroary', 'Martsa', 'Aprily', 'Mey', 'Jona', 'Jolay', 'Aogositra', 'Septambra', 'Oktobra', 'Novambra', 'Desambra']
+};
+
+const STORAGE_KEY = 'linc-scan.locale';
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.some(option => option.locale === value);
+}
+
+/**
+ * Message in the given language with {name} placeholders filled in
+ */
+export function translate(locale: Locale, key: MessageKey, params?: MessageParams): string {
+  const message = CATALOGS[locale][key] ?? en[key] ?? key;
+  if (!params) {
+    return message;
+  }
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    params[name] !== undefined ? String(params[name]) : placeholder
+  );
+}
+
+/**
+ * Count form of a message, e.g. translatePlural('fr', 'count.day', 2) = "2 jours"
+ */
+export function translatePlural(locale: Locale, key: PluralKey, count: number, params?: MessageParams): string {
+  const form = IS_SINGULAR[locale](count) ? 'one' : 'other';
+  return translate(locale, `${key}.${form}` as MessageKey, { count, ...params });
+}
+
+/**
+ * Readable form of a YYYY-MM-DD date, e.g. "15 janvier 1980" - anything else is returned as is
+ */
+export function formatDate(locale: Locale, isoDate: string): string {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(isoDate);
+  const month = match ? Number(match[2]) : 0;
+  if (!match || month < 1 || month > 12) {
+    return isoDate;
+  }
+  return `${Number(match[3])} ${MONTH_NAMES[locale][month - 1]} ${match[1]}`;
+}
+
+/**
+ * Language picked in the switcher, else the browser's language when we have it, else English
+ */
+export function loadLocale(): Locale {
+  if (typeof localStorage !== 'undefined') {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (isLocale(stored)) {
+      return stored;
+    }
+  }
+  if (typeof navigator !== 'undefined') {
+    const browserLocale = navigator.language?.split('-')[0];
+    if (isLocale(browserLocale)) {
+      return browserLocale;
+    }
+  }
+  return 'en';
+}
+
+export function storeLocale(locale: Locale): void {
+  if (typeof localStorage === 'undefined') {
+    return;
+  }
+  localStorage.setItem(STORAGE_KEY, locale);
+}
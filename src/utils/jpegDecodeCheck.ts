@@ -0,0 +1,17 @@
+import { decode } from 'jpeg-js';
+import type { JpegDecodeCheck } from '@linc-scan/decoder';
+
+// License photos are small - refuse huge dimensions instead of allocating for them
+const DECODE_LIMITS = { maxResolutionInMP: 4, maxMemoryUsageInMB: 64 };
+
+/**
+ * Photo decode check for the decoder: jpeg-js decodes every scan (no DOM needed, so it runs in Node and the worker)
+ */
+export const jpegJsDecodeCheck: JpegDecodeCheck = bytes => {
+  try {
+    decode(bytes, { useTArray: true, ...DECODE_LIMITS });
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
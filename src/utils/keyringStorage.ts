@@ -0,0 +1,38 @@
+import { LicenseKeyring } from '@linc-scan/decoder';
+
+const STORAGE_KEY = 'linc-scan.keyring';
+
+/**
+ * Load the keyring: bundled keys plus any keys imported in the UI
+ */
+export function loadKeyring(): LicenseKeyring {
+  const keyring = LicenseKeyring.createDefault();
+  if (typeof localStorage === 'undefined') {
+    return keyring;
+  }
+
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (!stored) {
+    return keyring;
+  }
+
+  try {
+    return keyring.merge(LicenseKeyring.fromJson(stored));
+  } catch (error) {
+    console.error("🔑 Ignoring invalid stored keyring:", error);
+    return keyring;
+  }
+}
+
+/**
+ * Persist the keys imported in the UI (bundled keys are not stored)
+ */
+export function storeKeyring(keyring: LicenseKeyring): void {
+  if (typeof localStorage === 'undefined') {
+    return;
+  }
+
+  const bundled = LicenseKeyring.createDefault();
+  const imported = keyring.list().filter(key => !bundled.has(key.id));
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ keys: imported }));
+}
@@ -0,0 +1,160 @@
+/**
+ * RGBA pixels - structurally the same as the browser's ImageData
+ */
+export interface PixelImage {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export interface PhotoEnhanceSettings {
+  equalize: boolean;       // Histogram equalization
+  contrast: number;        // -100 to 100
+  brightness: number;      // -100 to 100
+}
+
+export const DEFAULT_ENHANCE_SETTINGS: PhotoEnhanceSettings = {
+  equalize: false,
+  contrast: 0,
+  brightness: 0
+};
+
+function luminance(data: Uint8ClampedArray, offset: number): number {
+  return Math.round(0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2]);
+}
+
+/**
+ * Spread the brightness levels over the full range (in place)
+ * Works on luminance, so colour photos keep their hue
+ */
+export function equalizeHistogram(image: PixelImage): void {
+  const { data } = image;
+  const pixelCount = data.length / 4;
+  const histogram = new Array<number>(256).fill(0);
+  for (let i = 0; i < data.length; i += 4) {
+    histogram[luminance(data, i)]++;
+  }
+
+  const cdf = new Array<number>(256);
+  let total = 0;
+  for (let level = 0; level < 256; level++) {
+    total += histogram[level];
+    cdf[level] = total;
+  }
+  const cdfMin = cdf.find(count => count > 0) ?? 0;
+  if (pixelCount === cdfMin) {
+    return; // Single brightness level - nothing to spread
+  }
+
+  const mapping = cdf.map(count => Math.round(((count - cdfMin) / (pixelCount - cdfMin)) * 255));
+  for (let i = 0; i < data.length; i += 4) {
+    const level = luminance(data, i);
+    const shift = Math.max(mapping[level], 0) - level;
+    data[i] += shift;
+    data[i + 1] += shift;
+    data[i + 2] += shift;
+  }
+}
+
+/**
+ * Standard contrast curve around mid-grey plus a brightness offset (in place)
+ */
+export function adjustContrast(image: PixelImage, contrast: number, brightness: number): void {
+  const { data } = image;
+  const c = contrast * 2.55;
+  const factor = (259 * (c + 255)) / (255 * (259 - c));
+  const offset = brightness * 2.55;
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = factor * (data[i] - 128) + 128 + offset;
+    data[i + 1] = factor * (data[i + 1] - 128) + 128 + offset;
+    data[i + 2] = factor * (data[i + 2] - 128) + 128 + offset;
+  }
+}
+
+/**
+ * Copy of the image with the enhancements applied
+ */
+export function enhancePhoto(source: PixelImage, settings: PhotoEnhanceSettings): PixelImage {
+  const image: PixelImage = {
+    data: new Uint8ClampedArray(source.data),
+    width: source.width,
+    height: source.height
+  };
+  if (settings.equalize) {
+    equalizeHistogram(image);
+  }
+  if (settings.contrast !== 0 || settings.brightness !== 0) {
+    adjustContrast(image, settings.contrast, settings.brightness);
+  }
+  return image;
+}
+
+/**
+ * Decode a base64 photo to pixels
+ */
+export async function decodePhoto(imageBase64: string, mimeType: string): Promise<PixelImage> {
+  const img = new Image();
+  img.src = `data:${mimeType};base64,${imageBase64}`;
+  await img.decode();
+
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx || canvas.width === 0 || canvas.height === 0) {
+    throw new Error('Photo decoded to an empty image');
+  }
+  ctx.drawImage(img, 0, 0);
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+/**
+ * Draw the image onto the canvas, scaled up
+ * Smooth scaling doubles in steps - one large smoothed jump blurs more than several small ones
+ */
+export function drawPhoto(canvas: HTMLCanvasElement, image: PixelImage, scale: number, smooth: boolean): void {
+  let current = document.createElement('canvas');
+  current.width = image.width;
+  current.height = image.height;
+  current.getContext('2d')?.putImageData(new ImageData(new Uint8ClampedArray(image.data), image.width, image.height), 0, 0);
+
+  const targetWidth = Math.round(image.width * scale);
+  const targetHeight = Math.round(image.height * scale);
+  if (smooth) {
+    while (current.width * 2 < targetWidth) {
+      const next = document.createElement('canvas');
+      next.width = current.width * 2;
+      next.height = current.height * 2;
+      const ctx = next.getContext('2d');
+      if (!ctx) break;
+      ctx.imageSmoothingEnabled = true;
+      ctx.imageSmoothingQuality = 'high';
+      ctx.drawImage(current, 0, 0, next.width, next.height);
+      current = next;
+    }
+  }
+
+  canvas.width = targetWidth;
+  canvas.height = targetHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  ctx.imageSmoothingEnabled = smooth;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(current, 0, 0, targetWidth, targetHeight);
+}
+
+/**
+ * Download the canvas contents as a PNG file
+ */
+export function exportCanvasPng(canvas: HTMLCanvasElement, fileName: string): void {
+  canvas.toBlob(blob => {
+    if (!blob) return;
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    // Revoking straight away can cancel the download in some browsers
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }, 'image/png');
+}
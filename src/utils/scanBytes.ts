@@ -0,0 +1,63 @@
+import { Result, ResultMetadataType, ZXingStringEncoding } from '@zxing/library';
+
+// ZXing decodes PDF417 byte compaction as ISO-8859-1 through TextDecoder, which the Encoding
+// standard maps to windows-1252 (0x80-0x9F become characters like € and ’), and outside a browser
+// through decodeURIComponent, which throws on binary data. Map each byte to one char code instead
+// so extractScanBytes can rebuild the payload exactly. Installed on import by every scan path.
+ZXingStringEncoding.customDecoder = (bytes, encodingName) => {
+  if (encodingName !== 'ISO-8859-1') {
+    return new TextDecoder(encodingName).decode(bytes);
+  }
+  let text = '';
+  for (let i = 0; i < bytes.length; i++) {
+    text += String.fromCharCode(bytes[i]);
+  }
+  return text;
+};
+
+// windows-1252 characters for bytes 0x80-0x9F, in case text was decoded without the decoder above
+const WINDOWS_1252_BYTES = new Map<number, number>([
+  [0x20ac, 0x80], [0x201a, 0x82], [0x0192, 0x83], [0x201e, 0x84], [0x2026, 0x85], [0x2020, 0x86],
+  [0x2021, 0x87], [0x02c6, 0x88], [0x2030, 0x89], [0x0160, 0x8a], [0x2039, 0x8b], [0x0152, 0x8c],
+  [0x017d, 0x8e], [0x2018, 0x91], [0x2019, 0x92], [0x201c, 0x93], [0x201d, 0x94], [0x2022, 0x95],
+  [0x2013, 0x96], [0x2014, 0x97], [0x02dc, 0x98], [0x2122, 0x99], [0x0161, 0x9a], [0x203a, 0x9b],
+  [0x0153, 0x9c], [0x017e, 0x9e], [0x0178, 0x9f]
+]);
+
+/**
+ * Extract the raw payload bytes from a ZXing scan result
+ *
+ * Prefers the BYTE_SEGMENTS metadata. The PDF417 reader does not fill it in,
+ * so the text is mapped back one char per byte (see the custom decoder above,
+ * with windows-1252 characters mapped back to their bytes).
+ */
+export function extractScanBytes(result: Result): Uint8Array {
+  const segments = result.getResultMetadata()?.get(ResultMetadataType.BYTE_SEGMENTS) as Uint8Array[] | undefined;
+
+  if (segments && segments.length > 0) {
+    const totalLength = segments.reduce((sum, segment) => sum + segment.length, 0);
+    const bytes = new Uint8Array(totalLength);
+    let offset = 0;
+    for (const segment of segments) {
+      bytes.set(segment, offset);
+      offset += segment.length;
+    }
+    return bytes;
+  }
+
+  const text = result.getText();
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    bytes[i] = code <= 0xff ? code : WINDOWS_1252_BYTES.get(code) ?? 0x3f;
+  }
+  return bytes;
+}
+
+/**
+ * Short hex preview of payload bytes for on-screen display
+ */
+export function bytesPreview(bytes: Uint8Array, maxBytes: number = 64): string {
+  const preview = Array.from(bytes.slice(0, maxBytes)).map(b => b.toString(16).padStart(2, '0')).join(' ');
+  return bytes.length > maxBytes ? `${preview} ...` : preview;
+}
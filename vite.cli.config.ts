@@ -0,0 +1,33 @@
+import { defineConfig } from 'vite'
+
+// Node build of the command-line tools (npm run build:cli)
+export default defineConfig({
+  resolve: {
+    conditions: ['source']  // Bundle @linc-scan/decoder from its TypeScript sources
+  },
+  ssr: {
+    noExternal: ['@linc-scan/decoder'],
+    resolve: {
+      conditions: ['source']
+    }
+  },
+  build: {
+    ssr: true,
+    outDir: 'dist-cli',
+    target: 'node18',
+    sourcemap: false,
+    rollupOptions: {
+      input: {
+        'linc-decode': 'src/cli/decodeCli.ts',
+        'linc-batch': 'src/cli/batchCli.ts',
+        'linc-parity': 'src/cli/parityCli.ts',
+        'linc-fuzz': 'src/cli/fuzzCli.ts'
+      },
+      output: {
+        entryFileNames: '[name].js',
+        chunkFileNames: 'lib/shared-[hash].js',
+        banner: chunk => (chunk.isEntry ? '#!/usr/bin/env node' : '')
+      }
+    }
+  }
+})
@@ -4,6 +4,9 @@ import react from '@vitejs/plugin-react'
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [react()],
+  resolve: {
+    conditions: ['source']  // Build @linc-scan/decoder from its TypeScript sources
+  },
   server: {
     host: true,
     port: 3000,